@@ -4,6 +4,12 @@ import { HashRouter, Routes, Route, Navigate } from 'react-router-dom';
 import Layout from './components/Layout';
 import WorkerApp from './pages/WorkerApp';
 import AdminDashboard from './pages/AdminDashboard';
+import VenueEditor from './pages/VenueEditor';
+import PricingEditor from './pages/PricingEditor';
+import AccessEditor from './pages/AccessEditor';
+import ZReport from './pages/ZReport';
+import AlertsEditor from './pages/AlertsEditor';
+import WebhooksEditor from './pages/WebhooksEditor';
 import AdminGuard from './components/AdminGuard';
 
 const App: React.FC = () => {
@@ -11,7 +17,14 @@ const App: React.FC = () => {
     <HashRouter>
       <Layout>
         <Routes>
-          <Route path="/" element={<WorkerApp />} />
+          <Route 
+            path="/" 
+            element={
+              <AdminGuard roles={['counter', 'manager', 'owner']} title="Counter Sign-In">
+                <WorkerApp />
+              </AdminGuard>
+            } 
+          />
           <Route 
             path="/admin" 
             element={
@@ -20,6 +33,54 @@ const App: React.FC = () => {
               </AdminGuard>
             } 
           />
+          <Route 
+            path="/admin/venue" 
+            element={
+              <AdminGuard roles={['owner']}>
+                <VenueEditor />
+              </AdminGuard>
+            } 
+          />
+          <Route 
+            path="/admin/pricing" 
+            element={
+              <AdminGuard roles={['owner']}>
+                <PricingEditor />
+              </AdminGuard>
+            } 
+          />
+          <Route 
+            path="/admin/access" 
+            element={
+              <AdminGuard roles={['owner']}>
+                <AccessEditor />
+              </AdminGuard>
+            } 
+          />
+          <Route 
+            path="/admin/z-report" 
+            element={
+              <AdminGuard>
+                <ZReport />
+              </AdminGuard>
+            } 
+          />
+          <Route 
+            path="/admin/alerts" 
+            element={
+              <AdminGuard>
+                <AlertsEditor />
+              </AdminGuard>
+            } 
+          />
+          <Route 
+            path="/admin/webhooks" 
+            element={
+              <AdminGuard roles={['owner']}>
+                <WebhooksEditor />
+              </AdminGuard>
+            } 
+          />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Layout>
@@ -1,40 +1,42 @@
 
 import React, { useState, useEffect } from 'react';
+import { AuthSession, UserRole } from '../types';
+import { getSession, subscribeSession, login, logout } from '../services/storage';
 
 interface AdminGuardProps {
   children: React.ReactNode;
+  roles?: UserRole[];
+  title?: string;
 }
 
-const AdminGuard: React.FC<AdminGuardProps> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+// Access is decided by the server: the guard only shows the sign-in form until
+// there is a session whose role is allowed here. Every API call carries the
+// session token, so hiding a page is a convenience, not the protection.
+const AdminGuard: React.FC<AdminGuardProps> = ({ children, roles = ['owner', 'manager'], title = 'Owner Access' }) => {
+  const [session, setSession] = useState<AuthSession | null>(getSession);
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Read password from environment variable. 
-  // Note: For Vite/Static sites, this is usually baked in at build time.
-  const MASTER_PASSWORD = process.env.ADMIN_PASSWORD || 'admin123';
+  useEffect(() => subscribeSession(setSession), []);
 
-  useEffect(() => {
-    const authStatus = sessionStorage.getItem('fifa_admin_auth');
-    if (authStatus === 'true') {
-      setIsAuthenticated(true);
-    }
-  }, []);
-
-  const handleUnlock = (e: React.FormEvent) => {
+  const handleUnlock = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (password === MASTER_PASSWORD) {
-      setIsAuthenticated(true);
-      sessionStorage.setItem('fifa_admin_auth', 'true');
-      setError(false);
+    setIsSubmitting(true);
+    const result = await login(username.trim(), password);
+    setIsSubmitting(false);
+    setPassword('');
+    if (result.error) {
+      setError(result.error);
+    } else if (result.session && !roles.includes(result.session.user.role)) {
+      setError('This account cannot open this page');
     } else {
-      setError(true);
-      setPassword('');
+      setError(null);
     }
   };
 
-  if (isAuthenticated) {
+  if (session && roles.includes(session.user.role)) {
     return <>{children}</>;
   }
 
@@ -50,32 +52,57 @@ const AdminGuard: React.FC<AdminGuardProps> = ({ children }) => {
             </svg>
           </div>
 
-          <h2 className="text-3xl font-black text-amber-500 uppercase tracking-tighter mb-2">Owner Access</h2>
+          <h2 className="text-3xl font-black text-amber-500 uppercase tracking-tighter mb-2">{title}</h2>
           <p className="text-amber-700 text-[10px] font-bold uppercase tracking-[0.3em] mb-10">Verification Required</p>
 
+          {session && (
+            <div className="w-full mb-6 p-4 bg-zinc-900 border border-amber-900/30 rounded-2xl flex justify-between items-center">
+              <p className="text-[9px] text-amber-700 font-black uppercase tracking-widest">
+                Signed in as {session.user.name} • {session.user.role}
+              </p>
+              <button onClick={logout} className="text-[9px] text-amber-500 font-black uppercase tracking-widest hover:text-amber-400">
+                Switch
+              </button>
+            </div>
+          )}
+
           <form onSubmit={handleUnlock} className="w-full space-y-4">
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => {
+                setUsername(e.target.value);
+                setError(null);
+              }}
+              placeholder="Username"
+              autoFocus
+              autoCapitalize="none"
+              autoComplete="username"
+              className="w-full bg-zinc-900 border border-amber-900/30 hover:border-amber-500/50 rounded-2xl px-6 py-4 text-center text-amber-500 font-black placeholder:text-amber-900/30 focus:outline-none focus:border-amber-500 focus:ring-4 focus:ring-amber-500/10 transition-all"
+            />
             <div className="relative group">
               <input
                 type="password"
                 value={password}
                 onChange={(e) => {
                   setPassword(e.target.value);
-                  setError(false);
+                  setError(null);
                 }}
                 placeholder="Enter Passcode"
-                autoFocus
+                autoComplete="current-password"
                 className={`w-full bg-zinc-900 border ${error ? 'border-red-500 animate-pulse' : 'border-amber-900/30 group-hover:border-amber-500/50'} rounded-2xl px-6 py-4 text-center text-amber-500 font-black tracking-[0.5em] placeholder:tracking-normal placeholder:text-amber-900/30 focus:outline-none focus:border-amber-500 focus:ring-4 focus:ring-amber-500/10 transition-all`}
               />
               {error && (
-                <p className="absolute -bottom-6 left-0 right-0 text-red-500 text-[9px] font-black uppercase tracking-widest">Invalid credentials. Access Denied.</p>
+                <p className="absolute -bottom-6 left-0 right-0 text-red-500 text-[9px] font-black uppercase tracking-widest">{error}</p>
               )}
             </div>
 
             <button
               type="submit"
-              className="w-full mt-4 bg-amber-500 hover:bg-amber-400 text-black font-black py-4 rounded-2xl uppercase tracking-widest shadow-lg shadow-amber-500/20 active:scale-[0.98] transition-all"
+              disabled={isSubmitting || !username.trim() || !password}
+              className="w-full mt-4 bg-amber-500 hover:bg-amber-400 text-black font-black py-4 rounded-2xl uppercase tracking-widest shadow-lg shadow-amber-500/20 active:scale-[0.98] transition-all disabled:opacity-40"
             >
-              Authorize Entry
+              {isSubmitting ? 'Verifying...' : 'Authorize Entry'}
             </button>
           </form>
 
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Shift, Worker } from '../types';
+import { getWorkers, clockIn } from '../services/storage';
+
+interface ClockInPanelProps {
+  houseId: string;
+  houseName: string;
+  onClockedIn: (shift: Shift) => void;
+}
+
+const PIN_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', '⌫'];
+
+const ClockInPanel: React.FC<ClockInPanelProps> = ({ houseId, houseName, onClockedIn }) => {
+  const [workers, setWorkers] = useState<Worker[] | null>(null);
+  const [selected, setSelected] = useState<Worker | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    getWorkers().then(all => setWorkers(all.filter(w => w.active)));
+  }, []);
+
+  const pressKey = (key: string) => {
+    setError(null);
+    if (key === '⌫') setPin(pin.slice(0, -1));
+    else if (key && pin.length < 6) setPin(pin + key);
+  };
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+    setIsSubmitting(true);
+    const result = await clockIn(selected.id, pin, houseId);
+    setIsSubmitting(false);
+    setPin('');
+    if (result.shift) onClockedIn(result.shift);
+    else setError(result.error || 'Clock-in failed');
+  };
+
+  return (
+    <div className="flex-grow flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-zinc-950 border border-amber-900/40 rounded-[2.5rem] p-8 text-center">
+        <h2 className="text-xl font-black text-amber-500 uppercase tracking-tighter mb-2">Clock In</h2>
+        <p className="text-amber-800 text-[10px] font-black uppercase tracking-[0.2em] mb-8">{houseName} • Games are recorded under your name</p>
+
+        {!selected ? (
+          <div className="space-y-3">
+            {workers === null && <p className="text-amber-900 text-[10px] font-black uppercase tracking-widest">Loading staff...</p>}
+            {workers?.length === 0 && <p className="text-amber-900 text-[10px] font-black uppercase tracking-widest">No staff set up • Ask the owner</p>}
+            {workers?.map(worker => (
+              <button
+                key={worker.id}
+                onClick={() => setSelected(worker)}
+                className="w-full py-4 bg-zinc-900 border border-amber-900/30 hover:border-amber-500 rounded-2xl text-amber-500 text-xs font-black uppercase tracking-widest active:scale-95 transition-all"
+              >
+                {worker.name}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div>
+            <p className="text-amber-500 text-sm font-black uppercase tracking-widest mb-4">{selected.name}</p>
+            <div className={`h-14 mb-6 bg-zinc-900 border rounded-2xl flex items-center justify-center text-2xl font-black tracking-[0.5em] text-amber-500 ${error ? 'border-red-500' : 'border-amber-900/30'}`}>
+              {'•'.repeat(pin.length) || <span className="text-[10px] tracking-widest text-amber-900">Enter PIN</span>}
+            </div>
+            {error && <p className="-mt-4 mb-4 text-red-500 text-[9px] font-black uppercase tracking-widest">{error}</p>}
+            <div className="grid grid-cols-3 gap-2 mb-6">
+              {PIN_KEYS.map((key, i) => (
+                <button
+                  key={i}
+                  onClick={() => pressKey(key)}
+                  disabled={!key}
+                  className="h-14 bg-zinc-900 border border-amber-900/20 rounded-2xl text-amber-500 text-lg font-black active:scale-95 active:bg-amber-500 active:text-black transition-all disabled:opacity-0"
+                >
+                  {key}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleSubmit}
+              disabled={pin.length < 4 || isSubmitting}
+              className="w-full py-4 bg-amber-500 text-black rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all disabled:opacity-30"
+            >
+              {isSubmitting ? 'Checking...' : 'Start Shift'}
+            </button>
+            <button
+              onClick={() => { setSelected(null); setPin(''); setError(null); }}
+              className="w-full py-3 mt-2 text-amber-900 text-[10px] font-black uppercase tracking-widest"
+            >
+              Back
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClockInPanel;
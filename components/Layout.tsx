@@ -1,15 +1,21 @@
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { NavLink } from 'react-router-dom';
+import { AuthSession } from '../types';
+import { getSession, subscribeSession, logout } from '../services/storage';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const [session, setSession] = useState<AuthSession | null>(getSession);
+
+  useEffect(() => subscribeSession(setSession), []);
+
   return (
-    <div className="min-h-screen flex flex-col bg-black">
-      <header className="bg-zinc-950 border-b border-amber-900/50 shadow-2xl sticky top-0 z-50">
+    <div className="min-h-screen flex flex-col bg-black print:bg-white">
+      <header className="bg-zinc-950 border-b border-amber-900/50 shadow-2xl sticky top-0 z-50 print:hidden">
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <div className="flex items-center gap-3">
             <div className="bg-gradient-to-br from-amber-400 to-amber-600 text-black p-2 rounded-lg font-black text-xl shadow-lg shadow-amber-500/20">
@@ -46,15 +52,24 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             >
               Owner
             </NavLink>
+            {session && (
+              <button
+                onClick={logout}
+                title={`Signed in as ${session.user.name}`}
+                className="px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-all border text-amber-800 border-amber-900/30 hover:text-amber-500 hover:border-amber-500"
+              >
+                Sign Out
+              </button>
+            )}
           </nav>
         </div>
       </header>
       
-      <main className="flex-grow container mx-auto px-4 py-8">
+      <main className="flex-grow container mx-auto px-4 py-8 print:p-0">
         {children}
       </main>
       
-      <footer className="bg-zinc-950 border-t border-amber-900/30 py-6 text-center text-amber-900 text-[10px] font-bold uppercase tracking-widest">
+      <footer className="bg-zinc-950 border-t border-amber-900/30 py-6 text-center text-amber-900 text-[10px] font-bold uppercase tracking-widest print:hidden">
         &copy; {new Date().getFullYear()} FIFA Pro Premium Game Zone • Addis Ababa
       </footer>
     </div>
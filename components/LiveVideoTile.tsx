@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { VideoQuality, VideoSession } from '../types';
+import { subscribeVideoFrames, videoViewerId } from '../services/storage';
+import { startOwnerLink } from '../services/videoLink';
+
+interface LiveVideoTileProps {
+  session: VideoSession;
+  houseName: string;
+  onQuality: (quality: VideoQuality) => void;
+  onEnd: () => void;
+}
+
+// One house's live picture on the owner dashboard. It shows the peer
+// connection once that is up, and the frames relayed by the server until then.
+const LiveVideoTile: React.FC<LiveVideoTileProps> = ({ session, houseName, onQuality, onEnd }) => {
+  const [frame, setFrame] = useState<string | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [peerConnected, setPeerConnected] = useState(false);
+
+  const houseId = session.houseId;
+  const rtcId = session.viewers.find(v => v.id === videoViewerId)?.rtcId ?? null;
+  const otherViewers = session.viewers.filter(v => v.watching && v.id !== videoViewerId);
+
+  useEffect(() => subscribeVideoFrames(houseId, setFrame), [houseId]);
+
+  useEffect(() => {
+    if (session.status === 'idle') setFrame(null);
+  }, [session.status]);
+
+  // Answers the counter's offer for this viewer's connection
+  useEffect(() => {
+    if (!rtcId) return;
+    let cancelled = false;
+    let link: { close: () => void } | null = null;
+    startOwnerLink(rtcId, setRemoteStream, state => setPeerConnected(state === 'connected'))
+      .then(started => {
+        if (cancelled) started.close();
+        else link = started;
+      })
+      .catch(e => console.warn('Peer video unavailable:', e));
+    return () => {
+      cancelled = true;
+      link?.close();
+      setRemoteStream(null);
+      setPeerConnected(false);
+    };
+  }, [rtcId]);
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full max-w-[360px]">
+      <div className="w-full aspect-[9/16] bg-zinc-900 rounded-[3.5rem] border-4 border-amber-500 overflow-hidden relative shadow-2xl shadow-amber-500/30">
+        {remoteStream && peerConnected ? (
+          <video
+            ref={video => { if (video && video.srcObject !== remoteStream) video.srcObject = remoteStream; }}
+            autoPlay
+            playsInline
+            muted
+            className="w-full h-full object-cover animate-in fade-in duration-500"
+          />
+        ) : frame ? (
+          <img src={frame} className="w-full h-full object-cover animate-in fade-in duration-500" alt={`${houseName} live feed`} />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <div className="text-center">
+              <div className="w-12 h-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mx-auto mb-6"></div>
+              <p className="text-amber-500 font-black uppercase tracking-widest text-[10px]">Syncing Encrypted Stream...</p>
+              <p className="text-amber-800 text-[8px] font-bold uppercase tracking-[0.2em] mt-3">Waiting for Counter phone link...</p>
+            </div>
+          </div>
+        )}
+
+        <div className="absolute top-10 left-0 right-0 px-8 flex flex-col items-start gap-2 pointer-events-none">
+          <div className="flex items-center gap-3 bg-black/60 px-4 py-2 rounded-full backdrop-blur-md border border-amber-500/30 pointer-events-auto">
+            <span className={`w-2.5 h-2.5 rounded-full animate-pulse ${session.status === 'active' ? 'bg-green-500' : 'bg-red-500'}`}></span>
+            <span className="text-[10px] text-amber-500 font-black uppercase tracking-widest">
+              {session.status === 'active' ? 'LIVE' : 'SYNCING'} : {houseName}
+            </span>
+            {session.status === 'active' && (
+              <span className={`text-[8px] font-black uppercase tracking-widest ${peerConnected ? 'text-green-500' : 'text-amber-800'}`}>
+                {peerConnected ? 'P2P' : 'Relay'}
+              </span>
+            )}
+          </div>
+          {otherViewers.length > 0 && (
+            <span className="bg-black/60 px-3 py-1 rounded-full text-[8px] text-amber-500/70 font-black uppercase tracking-widest">
+              Also watching: {otherViewers.map(v => v.name).join(', ')}
+            </span>
+          )}
+        </div>
+
+        <div className="absolute bottom-12 left-0 right-0 px-8 flex flex-col gap-2">
+          <p className="text-[8px] text-amber-500/70 font-black uppercase tracking-widest text-center">Managed Bandwidth</p>
+          <div className="flex bg-black/70 p-1.5 rounded-2xl backdrop-blur-xl border border-amber-500/20">
+            {(['low', 'medium', 'high'] as VideoQuality[]).map((q) => (
+              <button
+                key={q}
+                onClick={() => onQuality(q)}
+                className={`flex-1 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${session.quality === q ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'text-amber-500 hover:bg-amber-500/10'}`}
+              >
+                {q}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={onEnd}
+        className="w-full py-4 bg-amber-500 hover:bg-amber-400 text-black font-black rounded-2xl uppercase tracking-[0.4em] shadow-2xl shadow-amber-500/20 active:scale-95 transition-all text-xs"
+      >
+        End {houseName}
+      </button>
+    </div>
+  );
+};
+
+export default LiveVideoTile;
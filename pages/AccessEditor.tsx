@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { UserAccount, UserRole, Worker } from '../types';
+import { getUsers, addUser, updateUser, deleteUser, getSession, getWorkers, addWorker, updateWorker } from '../services/storage';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  counter: 'Counter Device',
+};
+
+const inputClass = 'bg-black/40 border border-amber-900/20 rounded-xl px-3 py-2 text-xs font-black text-amber-500 focus:outline-none focus:border-amber-500 transition-all';
+const smallButtonClass = 'px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest active:scale-95 transition-all';
+
+const AccessEditor: React.FC = () => {
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [newUser, setNewUser] = useState({ username: '', name: '', role: 'counter' as UserRole, password: '' });
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [newWorker, setNewWorker] = useState({ name: '', pin: '' });
+
+  useEffect(() => {
+    getUsers().then(setUsers);
+    getWorkers().then(setWorkers);
+  }, []);
+
+  const apply = async (change: Promise<{ users?: UserAccount[]; error?: string }>, success?: string) => {
+    const result = await change;
+    if (result.users) {
+      setUsers(result.users);
+      setError(null);
+      setNotice(success || null);
+    } else {
+      setError(result.error || 'Change failed');
+      setNotice(null);
+    }
+    return !!result.users;
+  };
+
+  const applyWorkers = async (change: Promise<{ workers?: Worker[]; error?: string }>, success?: string) => {
+    const result = await change;
+    if (result.workers) {
+      setWorkers(result.workers);
+      setError(null);
+      setNotice(success || null);
+    } else {
+      setError(result.error || 'Change failed');
+      setNotice(null);
+    }
+    return !!result.workers;
+  };
+
+  const handleAddWorker = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await applyWorkers(addWorker({ name: newWorker.name, pin: newWorker.pin }), `Added ${newWorker.name}`)) {
+      setNewWorker({ name: '', pin: '' });
+    }
+  };
+
+  const handleResetPin = (worker: Worker) => {
+    const pin = prompt(`New PIN for ${worker.name} (4-6 digits)`);
+    if (pin) applyWorkers(updateWorker(worker.id, { pin }), `PIN changed for ${worker.name}`);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await apply(addUser({ ...newUser, name: newUser.name.trim() || undefined }), `Added ${newUser.username}`)) {
+      setNewUser({ username: '', name: '', role: newUser.role, password: '' });
+    }
+  };
+
+  const handleResetPassword = (user: UserAccount) => {
+    const password = prompt(`New password for ${user.username}`);
+    if (password) apply(updateUser(user.id, { password }), `Password changed • ${user.username} was signed out`);
+  };
+
+  const handleDelete = (user: UserAccount) => {
+    if (confirm(`Delete ${user.username}? Devices using it will be signed out.`)) apply(deleteUser(user.id));
+  };
+
+  const currentUserId = getSession()?.user.id;
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto animate-in fade-in duration-700 pb-12">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-3xl font-black text-amber-500 uppercase tracking-tighter">Access</h2>
+          <p className="text-amber-800 text-[10px] font-bold uppercase tracking-[0.2em]">Owners configure • Managers review • Counters record</p>
+        </div>
+        <Link to="/admin" className="px-4 py-2 rounded-xl border border-amber-900/30 text-amber-500 text-[10px] font-black uppercase tracking-widest hover:border-amber-500 transition-all">
+          Back
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-600/10 border border-red-600/40 rounded-2xl text-red-500 text-[10px] font-black uppercase tracking-widest">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-4 bg-green-600/10 border border-green-600/40 rounded-2xl text-green-500 text-[10px] font-black uppercase tracking-widest">
+          {notice}
+        </div>
+      )}
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-3">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">Accounts</h4>
+        {users.map(user => (
+          <div key={user.id} className={`flex flex-wrap items-center gap-3 p-4 bg-black/20 border border-amber-900/5 rounded-2xl ${user.active ? '' : 'opacity-50'}`}>
+            <span className="w-24 text-[9px] text-amber-800 font-black uppercase tracking-widest truncate">{user.username}</span>
+            <input
+              defaultValue={user.name}
+              onBlur={(e) => e.target.value !== user.name && apply(updateUser(user.id, { name: e.target.value }))}
+              className={`${inputClass} flex-grow`}
+            />
+            <select
+              value={user.role}
+              onChange={(e) => apply(updateUser(user.id, { role: e.target.value as UserRole }))}
+              disabled={user.id === currentUserId}
+              className={inputClass}
+            >
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+            <button onClick={() => handleResetPassword(user)} className={`${smallButtonClass} bg-zinc-800 text-amber-500`}>
+              Password
+            </button>
+            <button
+              onClick={() => apply(updateUser(user.id, { active: !user.active }))}
+              disabled={user.id === currentUserId}
+              className={`${smallButtonClass} ${user.active ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-amber-500'} disabled:opacity-30`}
+            >
+              {user.active ? 'Active' : 'Disabled'}
+            </button>
+            <button
+              onClick={() => handleDelete(user)}
+              disabled={user.id === currentUserId}
+              className={`${smallButtonClass} text-red-500 hover:bg-red-600/10 disabled:opacity-30`}
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] flex flex-wrap items-center gap-3">
+        <h4 className="w-full text-xs font-black text-amber-600 uppercase tracking-widest mb-2">Add Account</h4>
+        <input value={newUser.username} onChange={(e) => setNewUser({ ...newUser, username: e.target.value })} placeholder="counter-house1" autoCapitalize="none" className={`${inputClass} w-40`} />
+        <input value={newUser.name} onChange={(e) => setNewUser({ ...newUser, name: e.target.value })} placeholder="Display name" className={`${inputClass} flex-grow`} />
+        <select value={newUser.role} onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })} className={inputClass}>
+          {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+        </select>
+        <input type="password" value={newUser.password} onChange={(e) => setNewUser({ ...newUser, password: e.target.value })} placeholder="Password" autoComplete="new-password" className={`${inputClass} w-32`} />
+        <button type="submit" className={`${smallButtonClass} bg-amber-500 text-black`}>Add</button>
+      </form>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-3">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">Staff • Clock in at the counter with a PIN</h4>
+        {workers.map(worker => (
+          <div key={worker.id} className={`flex flex-wrap items-center gap-3 p-4 bg-black/20 border border-amber-900/5 rounded-2xl ${worker.active ? '' : 'opacity-50'}`}>
+            <input
+              defaultValue={worker.name}
+              onBlur={(e) => e.target.value !== worker.name && applyWorkers(updateWorker(worker.id, { name: e.target.value }))}
+              className={`${inputClass} flex-grow`}
+            />
+            <button onClick={() => handleResetPin(worker)} className={`${smallButtonClass} bg-zinc-800 text-amber-500`}>
+              PIN
+            </button>
+            <button
+              onClick={() => applyWorkers(updateWorker(worker.id, { active: !worker.active }))}
+              className={`${smallButtonClass} ${worker.active ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-amber-500'}`}
+            >
+              {worker.active ? 'Active' : 'Left'}
+            </button>
+          </div>
+        ))}
+        <form onSubmit={handleAddWorker} className="flex flex-wrap items-center gap-3 pt-3">
+          <input value={newWorker.name} onChange={(e) => setNewWorker({ ...newWorker, name: e.target.value })} placeholder="Name" className={`${inputClass} flex-grow`} />
+          <input type="password" inputMode="numeric" value={newWorker.pin} onChange={(e) => setNewWorker({ ...newWorker, pin: e.target.value })} placeholder="PIN" autoComplete="new-password" className={`${inputClass} w-24`} />
+          <button type="submit" className={`${smallButtonClass} bg-amber-500 text-black`}>Add Staff</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AccessEditor;
@@ -1,24 +1,95 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { TV_CONFIGS, HOUSE_NAMES } from '../constants';
-import { GameEntry, HouseId, HouseThresholds, VideoSession, VideoQuality, SessionEvent } from '../types';
-import { getStoredGames, clearAllData, getThresholds, saveThresholds, updateVideoSession, getVideoSession, getHouseStatus, recordEvent, getEvents } from '../services/storage';
+import { Link, useSearchParams } from 'react-router-dom';
+import { GameEntry, GameFinish, GameVoid, Shift, ShiftReconciliation, HouseId, VideoSession, VideoQuality, SessionEvent, AudioFrame, VenueConfig, VenueSettings, TVState, Report, ExportFormat, ExportTable, SessionAnalysis, Alert, AlertRule, Anomaly, AnomalyType } from '../types';
+import { getGameHistory, getGamesById, clearAllData, updateVideoSession, setVideoViewer, leaveVideoSession, resolveVoid, acknowledgeAlert, snoozeAlert, subscribeGames, subscribeAlerts, subscribeAlertRules, subscribeHouseStatus, subscribeEvents, subscribeVoids, subscribeFinishes, subscribeVenue, getCachedVenue, subscribeVideoSessions, subscribeAudioFrames, subscribeShifts, subscribeReconciliations, subscribeReport, subscribeSessionAnalysis, subscribeAnomalies, downloadExport, subscribeSettings, getCachedSettings, hasRole } from '../services/storage';
+import LiveVideoTile from '../components/LiveVideoTile';
+import { getBusinessDayStart, getZonedParts } from '../shared/businessDay';
+import { getScheduledMinimum, getYieldRule } from '../shared/alerts';
+import { getTVFloorStatus } from '../shared/floor';
+import { excludeVoided } from '../services/ledger';
+import { getActiveHouses, getHouseTVs, getTVIndex, getHouseName } from '../services/venue';
+import { RANGE_PRESETS, RangeSelection, resolveRange, getRangeKeys, getRangeLabel, parseRangeQuery, toRangeQuery } from '../services/reportRange';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 
-type Period = 'today' | 'week' | 'month' | 'custom';
+const EVENT_LABELS: Record<SessionEvent['type'], string> = {
+  yield_alert: 'LOW YIELD ALERT',
+  counter_online: 'COUNTER ONLINE',
+  video_request: 'VIDEO REQUEST',
+  video_session_ended: 'SESSION ENDED',
+  price_change: 'PRICE CHANGE',
+  tv_idle: 'IDLE TV',
+  counter_offline: 'COUNTER OFFLINE',
+};
+
+// Raised by the server's alert rules; the owner is notified as they arrive.
+const ALERT_EVENT_TITLES: Partial<Record<SessionEvent['type'], string>> = {
+  yield_alert: 'Low Yield Alert',
+  tv_idle: 'Idle TV Alert',
+  counter_offline: 'Counter Offline Alert',
+};
+
+const ALERT_EVENT_TYPES: Record<Alert['type'], SessionEvent['type']> = {
+  low_yield: 'yield_alert',
+  tv_idle: 'tv_idle',
+  counter_offline: 'counter_offline',
+};
+
+const ANOMALY_LABELS: Record<AnomalyType, string> = {
+  fast_games: 'Too Fast',
+  camera_gap: 'Camera Gap',
+  shift_end_burst: 'Shift-End Burst',
+  weekday_deviation: 'Unusual Day',
+};
+
+const FLOOR_STATES: Record<TVState, { label: string; tile: string; text: string }> = {
+  busy: { label: 'Busy', tile: 'bg-green-500/10 border-green-500/40', text: 'text-green-500' },
+  idle: { label: 'Idle', tile: 'bg-amber-500/5 border-amber-500/40', text: 'text-amber-500' },
+  out_of_service: { label: 'Out of Service', tile: 'bg-zinc-800/60 border-zinc-700 opacity-60', text: 'text-zinc-500' },
+};
+
+// How often this tab tells the server it is still viewing a house.
+const VIEWER_KEEPALIVE_MS = 10000;
 
 const AdminDashboard: React.FC = () => {
   const [games, setGames] = useState<GameEntry[]>([]);
-  const [period, setPeriod] = useState<Period>('today');
-  const [thresholds, setThresholds] = useState<HouseThresholds>({ house1: 2, house2: 2 });
-  const [videoSession, setVideoSession] = useState<VideoSession>({ houseId: null, status: 'idle', quality: 'medium' });
-  const [houseStatus, setHouseStatus] = useState<Record<string, boolean>>({ house1: false, house2: false });
-  const [isObserving, setIsObserving] = useState(false);
-  const [isListening, setIsListening] = useState(false);
+  const [history, setHistory] = useState<GameEntry[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [venue, setVenue] = useState<VenueConfig>(getCachedVenue);
+  const [settings, setSettings] = useState<VenueSettings>(getCachedSettings);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [videoSessions, setVideoSessions] = useState<VideoSession[]>([]);
+  const [houseStatus, setHouseStatus] = useState<Record<string, boolean>>({});
+  // Houses this tab is viewing; each has its own session on the server
+  const [watchedHouses, setWatchedHouses] = useState<HouseId[]>([]);
+  const [listeningHouse, setListeningHouse] = useState<HouseId | null>(null);
   const [sessionEvents, setSessionEvents] = useState<SessionEvent[]>([]);
+  const [voids, setVoids] = useState<GameVoid[]>([]);
+  const [finishes, setFinishes] = useState<GameFinish[]>([]);
+  // Games voided from before the synced day, looked up for the voids panel
+  const [voidedGames, setVoidedGames] = useState<Map<string, GameEntry>>(new Map());
+  const lookedUpGameIds = useRef(new Set<string>());
+  const [now, setNow] = useState(Date.now());
+  const [houseReport, setHouseReport] = useState<Report | null>(null);
+  const [tvReport, setTVReport] = useState<Report | null>(null);
+  const [workerReport, setWorkerReport] = useState<Report | null>(null);
+  const [sessionAnalysis, setSessionAnalysis] = useState<SessionAnalysis | null>(null);
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+  const [openAnomalyId, setOpenAnomalyId] = useState<string | null>(null);
+  const [sessionView, setSessionView] = useState<'houses' | 'tvs' | 'prices'>('houses');
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [reconciliations, setReconciliations] = useState<ShiftReconciliation[]>([]);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [notifPermission, setNotifPermission] = useState<NotificationPermission>(Notification.permission);
   
-  const lastOnlineSignalRef = useRef<number>(0);
-  const alertedHousesRef = useRef<Record<string, boolean>>({});
+  const lastOnlineSignalRef = useRef<Record<string, number>>({});
+  const viewingRef = useRef({ watchedHouses, listeningHouse });
+  viewingRef.current = { watchedHouses, listeningHouse };
+  const venueRef = useRef<VenueConfig>(venue);
+  venueRef.current = venue;
+  const openedAtRef = useRef(Date.now());
+  const notifiedEventIdsRef = useRef<Set<string>>(new Set());
 
   // Audio Playback References - Optimized for clear playback
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -112,106 +183,91 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const refreshData = async () => {
-    const results = await Promise.all([
-      getStoredGames(),
-      getThresholds(),
-      getVideoSession(),
-      getHouseStatus(),
-      getEvents()
-    ]);
-    
-    const freshGames = results[0] as GameEntry[];
-    const freshThresholds = results[1] as HouseThresholds;
-    const freshVideo = results[2] as VideoSession;
-    const freshStatus = results[3] as Record<string, boolean>;
-    const freshEvents = results[4] as SessionEvent[];
-
-    setGames(freshGames);
-    setThresholds(freshThresholds);
-    setHouseStatus(freshStatus);
-    setSessionEvents(freshEvents);
-    
-    if (isListening && freshVideo.audioFrames && freshVideo.audioFrames.length > 0) {
-      for (const frame of freshVideo.audioFrames) {
-        if (!playedAudioIdsRef.current.has(frame.id)) {
-          playAudioFrame(frame.data);
-          playedAudioIdsRef.current.add(frame.id);
-        }
-      }
-      
-      // Efficient Cache Management: Keep the last 100 IDs to prevent memory leaks
-      if (playedAudioIdsRef.current.size > 200) {
-        const ids: number[] = (Array.from(playedAudioIdsRef.current) as number[]).sort((a: number, b: number) => a - b);
-        const toRemove = ids.slice(0, ids.length - 100);
-        toRemove.forEach(id => playedAudioIdsRef.current.delete(id));
+  const playNewAudioFrames = (frames: AudioFrame[]) => {
+    for (const frame of frames) {
+      if (!playedAudioIdsRef.current.has(frame.id)) {
+        playAudioFrame(frame.data);
+        playedAudioIdsRef.current.add(frame.id);
       }
     }
+    
+    // Efficient Cache Management: Keep the last 100 IDs to prevent memory leaks
+    if (playedAudioIdsRef.current.size > 200) {
+      const ids: number[] = (Array.from(playedAudioIdsRef.current) as number[]).sort((a: number, b: number) => a - b);
+      const toRemove = ids.slice(0, ids.length - 100);
+      toRemove.forEach(id => playedAudioIdsRef.current.delete(id));
+    }
+  };
 
-    if (freshVideo.lastOnlineSignalTime && freshVideo.lastOnlineSignalTime > lastOnlineSignalRef.current) {
-      if (lastOnlineSignalRef.current !== 0) {
-        const targetId = freshVideo.houseId || freshVideo.lastRequestedHouseId;
-        const houseName = targetId ? HOUSE_NAMES[targetId] : 'A Counter';
+  const handleVideoSessionsUpdate = (sessions: VideoSession[]) => {
+    setVideoSessions(sessions);
+
+    // The first sighting of each house only sets the baseline
+    for (const session of sessions) {
+      const seen = lastOnlineSignalRef.current[session.houseId];
+      const latest = session.lastOnlineSignalTime || 0;
+      if (seen !== undefined && latest > seen) {
         notify(
           "Counter Online", 
-          `${houseName} is ready! You can resend your video request now.`
+          `${getHouseName(venueRef.current, session.houseId)} is ready! You can resend your video request now.`
         );
       }
-      lastOnlineSignalRef.current = freshVideo.lastOnlineSignalTime;
-    }
-
-    if (freshVideo.status !== 'idle' && !isObserving) {
-      setIsObserving(true);
+      lastOnlineSignalRef.current[session.houseId] = Math.max(latest, seen ?? 0);
     }
   };
 
   useEffect(() => {
-    refreshData();
-    const interval = setInterval(refreshData, 4000);
-    return () => clearInterval(interval);
-  }, [isObserving, isListening]);
+    const unsubscribers = [
+      subscribeGames(() => getBusinessDayStart(Date.now(), getCachedSettings()), setGames),
+      subscribeSettings(setSettings),
+      subscribeAlerts(setAlerts),
+      subscribeAlertRules(setAlertRules),
+      subscribeHouseStatus(setHouseStatus),
+      subscribeEvents(setSessionEvents),
+      subscribeVoids(setVoids),
+      subscribeFinishes(() => getBusinessDayStart(Date.now(), getCachedSettings()), setFinishes),
+      subscribeVenue(setVenue),
+      subscribeVideoSessions(handleVideoSessionsUpdate),
+    ];
+    // Keeps "minutes since last game" moving on the floor board between taps
+    const clock = window.setInterval(() => setNow(Date.now()), 30000);
+    return () => {
+      clearInterval(clock);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
 
+  // The server lets a viewer go once it stops hearing from it, so keep saying
+  // what this tab views; leave everything straight away on the way out.
   useEffect(() => {
-    let frameInterval: number;
-    if (isObserving || isListening) {
-      frameInterval = window.setInterval(async () => {
-        const freshVideo = await getVideoSession();
-        setVideoSession(prev => ({
-          ...freshVideo,
-          frame: freshVideo.frame || prev.frame 
-        }));
-        
-        if (isListening && freshVideo.audioFrames && freshVideo.audioFrames.length > 0) {
-          for (const frame of freshVideo.audioFrames) {
-            if (!playedAudioIdsRef.current.has(frame.id)) {
-              playAudioFrame(frame.data);
-              playedAudioIdsRef.current.add(frame.id);
-            }
-          }
-        }
-
-        if (freshVideo.status === 'idle') {
-          setIsObserving(false);
-        }
-      }, 100);
-    }
-    return () => clearInterval(frameInterval);
-  }, [isObserving, isListening]);
+    const viewed = Array.from(new Set([...watchedHouses, ...(listeningHouse ? [listeningHouse] : [])]));
+    if (viewed.length === 0) return;
+    const keepAlive = window.setInterval(() => viewed.forEach(houseId => setVideoViewer(houseId, {
+      watching: watchedHouses.includes(houseId),
+      listening: houseId === listeningHouse,
+    })), VIEWER_KEEPALIVE_MS);
+    return () => clearInterval(keepAlive);
+  }, [watchedHouses, listeningHouse]);
+
+  useEffect(() => () => {
+    const { watchedHouses, listeningHouse } = viewingRef.current;
+    new Set([...watchedHouses, ...(listeningHouse ? [listeningHouse] : [])]).forEach(leaveVideoSession);
+  }, []);
+
+  useEffect(() => {
+    if (!listeningHouse) return;
+    return subscribeAudioFrames(listeningHouse, playNewAudioFrames);
+  }, [listeningHouse]);
 
   const handleRequestVideo = async (houseId: HouseId) => {
-    const initialSession: VideoSession = { 
-      houseId, 
-      status: 'requested', 
-      frame: undefined, 
-      quality: videoSession.quality || 'medium' 
-    };
-    setVideoSession(initialSession);
-    await updateVideoSession(initialSession);
-    setIsObserving(true);
+    if (watchedHouses.includes(houseId)) return;
+    setWatchedHouses(prev => [...prev, houseId]);
+    const session = await setVideoViewer(houseId, { watching: true });
+    if (session) setVideoSessions(prev => prev.map(s => s.houseId === houseId ? session : s));
   };
 
   const handleToggleAudio = async (houseId: HouseId) => {
-    if (!isListening) {
+    if (listeningHouse !== houseId) {
       if (!audioContextRef.current) {
         const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
         
@@ -262,137 +318,271 @@ const AdminDashboard: React.FC = () => {
       
       playedAudioIdsRef.current.clear();
       nextStartTimeRef.current = 0; // Reset sync on new session
-      setIsListening(true);
-      await updateVideoSession({ audioStatus: 'active', houseId });
+      // One house at a time: two rooms over one speaker are no use
+      const previous = listeningHouse;
+      setListeningHouse(houseId);
+      if (previous) await setVideoViewer(previous, { listening: false });
+      await setVideoViewer(houseId, { listening: true });
     } else {
-      setIsListening(false);
-      await updateVideoSession({ audioStatus: 'idle' });
+      setListeningHouse(null);
+      await setVideoViewer(houseId, { listening: false });
     }
   };
 
-  const handleUpdateQuality = async (quality: VideoQuality) => {
-    setVideoSession(prev => ({ ...prev, quality }));
-    await updateVideoSession({ quality });
+  const handleUpdateQuality = async (houseId: HouseId, quality: VideoQuality) => {
+    setVideoSessions(prev => prev.map(s => s.houseId === houseId ? { ...s, quality } : s));
+    await updateVideoSession(houseId, { quality });
   };
 
-  const handleEndVideo = async () => {
-    await updateVideoSession({ houseId: null, status: 'idle', frame: undefined });
-    setIsObserving(false);
+  const handleEndVideo = async (houseId: HouseId) => {
+    setWatchedHouses(prev => prev.filter(h => h !== houseId));
+    await setVideoViewer(houseId, { watching: false });
   };
 
+  const handleEndAllVideo = () => watchedHouses.forEach(handleEndVideo);
+
+  const handleAlertChange = async (change: Promise<{ alerts?: Alert[] }>) => {
+    const result = await change;
+    if (result.alerts) setAlerts(result.alerts);
+  };
+
+  const handleResolveVoid = async (id: string, status: 'approved' | 'rejected') => {
+    const resolved = await resolveVoid(id, status);
+    if (resolved) setVoids(prev => prev.map(v => v.id === id ? resolved : v));
+  };
+
+  // The selected range is kept in the URL so any report can be bookmarked.
+  const selection = useMemo(() => parseRangeQuery(searchParams), [searchParams]);
+  const range = useMemo(() => resolveRange(selection, settings), [selection, settings]);
+  const rangeKeys = getRangeKeys(range, settings);
+  const selectRange = (next: RangeSelection) => setSearchParams(toRangeQuery(next));
+
+  const handleExport = async (format: ExportFormat, table?: ExportTable) => {
+    const id = `${format}-${table || 'all'}`;
+    setExporting(id);
+    const result = await downloadExport(range, format, table);
+    setExporting(null);
+    setExportError(result.error || null);
+  };
+
+  // Totals come from the server's daily rollups. Individual games are only
+  // needed for the activity list, so a past range pages in just its last
+  // business day; the current day is already synced live.
+  useEffect(() => {
+    const liveStart = getBusinessDayStart(Date.now(), settings);
+    const lastDayStart = getBusinessDayStart(range.end - 1, settings);
+    if (lastDayStart >= liveStart) {
+      setHistory([]);
+      return;
+    }
+    let cancelled = false;
+    getGameHistory(Math.max(range.start, lastDayStart), range.end).then(older => {
+      if (!cancelled) setHistory(older);
+    });
+    return () => { cancelled = true; };
+  }, [range, settings]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      subscribeReport(() => range, 'house', setHouseReport),
+      subscribeReport(() => range, 'tv', setTVReport),
+      subscribeReport(() => range, 'worker', setWorkerReport),
+      subscribeSessionAnalysis(() => range, setSessionAnalysis),
+      subscribeAnomalies(() => range, setAnomalies),
+      subscribeShifts(() => range, setShifts),
+      subscribeReconciliations(() => range, setReconciliations),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [range]);
+
+  useEffect(() => {
+    const synced = new Set(games.map(g => g.id));
+    const missing = Array.from(new Set(voids.map(v => v.gameId)))
+      .filter(id => !synced.has(id) && !lookedUpGameIds.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach(id => lookedUpGameIds.current.add(id));
+    getGamesById(missing).then(found => {
+      if (found.length > 0) setVoidedGames(prev => new Map([...prev, ...found.map(g => [g.id, g] as const)]));
+    });
+  }, [voids, games]);
+
+  const houses = useMemo(() => getActiveHouses(venue), [venue]);
+  const tvIndex = useMemo(() => getTVIndex(venue), [venue]);
+
+  // Live counts below are computed from the ledger minus approved voids
+  const activeGames = useMemo(() => {
+    const byId = new Map<string, GameEntry>();
+    history.forEach(g => byId.set(g.id, g));
+    games.forEach(g => byId.set(g.id, g));
+    const all = Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp);
+    return excludeVoided(all, voids);
+  }, [history, games, voids]);
+
+  const rangeGames = useMemo(
+    () => activeGames.filter(g => g.timestamp >= range.start && g.timestamp < range.end),
+    [activeGames, range],
+  );
+  const isLive = range.end > Date.now();
+
   const hourlyStats = useMemo(() => {
     const oneHourAgo = Date.now() - 3600000;
-    const h1 = games.filter(g => g.timestamp >= oneHourAgo && !g.isSeparator && TV_CONFIGS.find(tv => tv.id === g.tvId)?.houseId === 'house1').length;
-    const h2 = games.filter(g => g.timestamp >= oneHourAgo && !g.isSeparator && TV_CONFIGS.find(tv => tv.id === g.tvId)?.houseId === 'house2').length;
-    
-    ['house1', 'house2'].forEach((hId) => {
-      const val = hId === 'house1' ? h1 : h2;
-      const thresh = thresholds[hId as HouseId];
-      if (val < thresh && !alertedHousesRef.current[hId]) {
-        notify("Low Yield Alert", `${HOUSE_NAMES[hId]} yield is below threshold!`);
-        recordEvent('yield_alert', hId);
-        alertedHousesRef.current[hId] = true;
-      } else if (val >= thresh) {
-        alertedHousesRef.current[hId] = false;
-      }
+    const counts: Record<HouseId, number> = {};
+    houses.forEach(h => { counts[h.id] = 0; });
+    activeGames.forEach(g => {
+      if (g.timestamp < oneHourAgo || g.isSeparator) return;
+      const houseId = g.houseId ?? tvIndex.get(g.tvId)?.houseId;
+      if (houseId && counts[houseId] !== undefined) counts[houseId]++;
+    });
+    return counts;
+  }, [activeGames, houses, tvIndex]);
+
+  const venueHour = getZonedParts(now, settings.timeZone).hour;
+
+  // Events already on record when the page opened are history, not news
+  useEffect(() => {
+    sessionEvents.forEach(ev => {
+      const title = ALERT_EVENT_TITLES[ev.type];
+      if (!title || ev.timestamp < openedAtRef.current || notifiedEventIdsRef.current.has(ev.id)) return;
+      notifiedEventIdsRef.current.add(ev.id);
+      notify(title, ev.detail || getHouseName(venueRef.current, ev.houseId));
     });
+  }, [sessionEvents]);
 
-    return { house1: h1, house2: h2 };
-  }, [games, thresholds]);
+  // The floor board is always today, whatever range the rest of the page shows
+  const floor = useMemo(() => {
+    const dayStart = getBusinessDayStart(now, settings);
+    const finishedIds = new Set(finishes.map(f => f.gameId));
+    const today = excludeVoided(games, voids).filter(g => g.timestamp >= dayStart);
+    return houses.map(house => ({
+      house,
+      tvs: getHouseTVs(venue, house.id).map(tv => ({
+        tv,
+        status: getTVFloorStatus(tv, today.filter(g => g.tvId === tv.id), { now, finishedIds }),
+      })),
+    }));
+  }, [games, voids, finishes, houses, venue, settings, now]);
 
   const recentActivity = useMemo(() => {
-    return [...games]
+    return [...rangeGames]
       .filter(g => !g.isSeparator)
       .sort((a, b) => b.timestamp - a.timestamp)
       .slice(0, 15);
-  }, [games]);
-
-  const stats = useMemo(() => {
-    const now = new Date();
-    const getStartOfBusinessDay = () => {
-      const today7AM = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 7, 0, 0, 0);
-      if (now.getHours() < 7) today7AM.setDate(today7AM.getDate() - 1);
-      return today7AM.getTime();
+  }, [rangeGames]);
+
+  const houseRevenue = useMemo(
+    () => new Map((houseReport?.rows || []).map(r => [r.key, r.revenue])),
+    [houseReport],
+  );
+
+  const tvPerformance = useMemo(() => {
+    const byTV = new Map((tvReport?.rows || []).map(r => [r.key, r]));
+    // Retired TVs stay on the chart only while they have revenue in the range
+    return [...venue.houses]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .flatMap(h => getHouseTVs(venue, h.id, true))
+      .filter(tv => tv.active || byTV.has(tv.id))
+      .map(tv => {
+        const row = byTV.get(tv.id);
+        return {
+          name: tv.name,
+          revenue: row?.revenue || 0,
+          timedGames: row?.timedGames || 0,
+          avgGameMs: row?.timedGames ? row.playMs / row.timedGames : 0,
+        };
+      });
+  }, [tvReport, venue]);
+
+  // Hours count only the part of each shift inside the range; a shift still
+  // open counts up to now.
+  const workerStats = useMemo(() => {
+    const now = Date.now();
+    const until = Math.min(range.end, now);
+    const byWorker = new Map<string, { name: string; games: number; revenue: number; hours: number; onDuty: boolean }>();
+    const row = (workerId: string, name: string) => {
+      if (!byWorker.has(workerId)) byWorker.set(workerId, { name, games: 0, revenue: 0, hours: 0, onDuty: false });
+      return byWorker.get(workerId)!;
     };
-    const startOfBusinessDay = getStartOfBusinessDay();
-
-    const filtered = games.filter(g => {
-      if (!g.completed) return false;
-      if (period === 'today') return g.timestamp >= startOfBusinessDay;
-      if (period === 'week') return g.timestamp >= (now.getTime() - (7 * 24 * 60 * 60 * 1000));
-      if (period === 'month') return g.timestamp >= new Date(now.getFullYear(), now.getMonth(), 1).getTime();
-      return true;
+    shifts.forEach(s => {
+      const r = row(s.workerId, s.workerName);
+      r.hours += Math.max(0, Math.min(s.endedAt ?? now, until) - Math.max(s.startedAt, range.start)) / 3600000;
+      if (!s.endedAt) r.onDuty = true;
     });
+    workerReport?.rows.forEach(w => {
+      const r = row(w.key, w.label);
+      r.games += w.games;
+      r.revenue += w.revenue;
+    });
+    return Array.from(byWorker.entries())
+      .map(([id, r]) => ({ id, ...r }))
+      .sort((a, b) => b.revenue - a.revenue);
+  }, [workerReport, shifts, range]);
 
-    const h1 = filtered.filter(g => TV_CONFIGS.find(tv => tv.id === g.tvId)?.houseId === 'house1');
-    const h2 = filtered.filter(g => TV_CONFIGS.find(tv => tv.id === g.tvId)?.houseId === 'house2');
-
+  // Oldest first so each row can carry the running total up to that shift.
+  const cashReport = useMemo(() => {
+    let running = 0;
+    const rows = [...reconciliations]
+      .sort((a, b) => a.endedAt - b.endedAt)
+      .map(r => ({ ...r, running: (running += r.difference) }));
+    const byWorker = new Map<string, { name: string; shifts: number; difference: number }>();
+    reconciliations.forEach(r => {
+      const w = byWorker.get(r.workerId) || { name: r.workerName, shifts: 0, difference: 0 };
+      w.shifts++;
+      w.difference += r.difference;
+      byWorker.set(r.workerId, w);
+    });
+    const reconciled = new Set(reconciliations.map(r => r.shiftId));
     return {
-      house1: { games: h1.filter(g => !g.isSeparator).length, revenue: h1.reduce((a, c) => a + c.amount, 0) },
-      house2: { games: h2.filter(g => !g.isSeparator).length, revenue: h2.reduce((a, c) => a + c.amount, 0) },
-      tvPerformance: TV_CONFIGS.map(tv => ({ 
-        name: tv.name, 
-        revenue: filtered.filter(g => g.tvId === tv.id).reduce((a, c) => a + c.amount, 0) 
-      }))
+      rows: rows.reverse(),
+      workers: Array.from(byWorker.entries()).map(([id, w]) => ({ id, ...w })).sort((a, b) => a.difference - b.difference),
+      total: running,
+      uncounted: shifts.filter(s => s.endedAt && !reconciled.has(s.id)).length,
     };
-  }, [games, period]);
+  }, [reconciliations, shifts]);
 
-  const updateThreshold = async (houseId: HouseId, value: number) => {
-    const nextThresholds = { ...thresholds, [houseId]: value };
-    setThresholds(nextThresholds);
-    await saveThresholds(nextThresholds);
-  };
+  const formatGameLength = (ms: number) => `${Math.floor(ms / 60000)}:${String(Math.round(ms / 1000) % 60).padStart(2, '0')}`;
+  const formatMinutes = (ms: number) => ms < 3600000 ? `${Math.round(ms / 60000)}m` : `${(ms / 3600000).toFixed(1)}h`;
+
+  const formatDifference = (n: number) => `${n > 0 ? '+' : ''}${n.toLocaleString()} ETB`;
+  const differenceClass = (n: number) => n < 0 ? 'text-red-500' : n > 0 ? 'text-amber-500' : 'text-green-500';
 
   return (
     <div className="space-y-6 max-w-6xl mx-auto animate-in fade-in duration-700 pb-12">
-      {isObserving && (
-        <div className="fixed inset-0 z-[200] bg-black/98 flex flex-col items-center justify-center p-4 backdrop-blur-2xl animate-in zoom-in duration-300">
-          <div className="w-full max-w-[420px] aspect-[9/16] bg-zinc-900 rounded-[3.5rem] border-4 border-amber-500 overflow-hidden relative shadow-2xl shadow-amber-500/30">
-            {videoSession.frame ? (
-              <img src={videoSession.frame} className="w-full h-full object-cover animate-in fade-in duration-500" alt="Live Feed" />
-            ) : (
-              <div className="w-full h-full flex items-center justify-center">
-                <div className="text-center">
-                  <div className="w-12 h-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mx-auto mb-6"></div>
-                  <p className="text-amber-500 font-black uppercase tracking-widest text-[10px]">Syncing Encrypted Stream...</p>
-                  <p className="text-amber-800 text-[8px] font-bold uppercase tracking-[0.2em] mt-3">Waiting for Counter phone link...</p>
-                </div>
-              </div>
-            )}
-            
-            <div className="absolute top-10 left-0 right-0 px-8 flex justify-between items-start pointer-events-none">
-              <div className="flex items-center gap-3 bg-black/60 px-4 py-2 rounded-full backdrop-blur-md border border-amber-500/30 pointer-events-auto">
-                <span className={`w-2.5 h-2.5 rounded-full animate-pulse ${videoSession.status === 'active' ? 'bg-green-500' : 'bg-red-500'}`}></span>
-                <span className="text-[10px] text-amber-500 font-black uppercase tracking-widest">
-                  {videoSession.status === 'active' ? 'LIVE' : 'SYNCING'} : {HOUSE_NAMES[videoSession.houseId || '']}
-                </span>
-              </div>
-            </div>
+      {watchedHouses.length > 0 && (
+        <div className="fixed inset-0 z-[200] bg-black/98 flex flex-col items-center p-4 py-10 overflow-y-auto backdrop-blur-2xl animate-in zoom-in duration-300">
+          <div className="flex flex-wrap justify-center gap-8 w-full my-auto">
+            {watchedHouses.map(hId => {
+              const session = videoSessions.find(s => s.houseId === hId);
+              return session && (
+                <LiveVideoTile
+                  key={hId}
+                  session={session}
+                  houseName={getHouseName(venue, hId)}
+                  onQuality={(quality) => handleUpdateQuality(hId, quality)}
+                  onEnd={() => handleEndVideo(hId)}
+                />
+              );
+            })}
+          </div>
 
-            <div className="absolute bottom-12 left-0 right-0 px-8 flex flex-col gap-4">
-              <div className="flex flex-col gap-2">
-                <p className="text-[8px] text-amber-500/70 font-black uppercase tracking-widest text-center">Managed Bandwidth</p>
-                <div className="flex bg-black/70 p-1.5 rounded-2xl backdrop-blur-xl border border-amber-500/20">
-                  {(['low', 'medium', 'high'] as VideoQuality[]).map((q) => (
-                    <button 
-                      key={q} 
-                      onClick={() => handleUpdateQuality(q)}
-                      className={`flex-1 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${videoSession.quality === q ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'text-amber-500 hover:bg-amber-500/10'}`}
-                    >
-                      {q}
-                    </button>
-                  ))}
-                </div>
-              </div>
-            </div>
+          <div className="mt-10 flex flex-wrap justify-center gap-3">
+            {houses.filter(h => !watchedHouses.includes(h.id)).map(h => (
+              <button
+                key={h.id}
+                onClick={() => handleRequestVideo(h.id)}
+                className="px-6 py-4 rounded-2xl border border-amber-500/40 text-amber-500 hover:bg-amber-500/10 font-black uppercase tracking-[0.3em] active:scale-95 transition-all text-[10px]"
+              >
+                + Watch {h.name}
+              </button>
+            ))}
+            {watchedHouses.length > 1 && (
+              <button
+                onClick={handleEndAllVideo}
+                className="px-6 py-4 rounded-2xl bg-zinc-800 text-amber-500 hover:bg-zinc-700 font-black uppercase tracking-[0.3em] active:scale-95 transition-all text-[10px]"
+              >
+                End All
+              </button>
+            )}
           </div>
-          
-          <button 
-            onClick={handleEndVideo} 
-            className="mt-10 w-full max-w-[320px] py-5 bg-amber-500 hover:bg-amber-400 text-black font-black rounded-2xl uppercase tracking-[0.4em] shadow-2xl shadow-amber-500/20 active:scale-95 transition-all text-xs"
-          >
-            End Session
-          </button>
         </div>
       )}
 
@@ -411,18 +601,117 @@ const AdminDashboard: React.FC = () => {
            </div>
            <p className="text-amber-800 text-[10px] font-bold uppercase tracking-[0.2em]">Addis Ababa Premium Network</p>
         </div>
-        <div className="flex bg-zinc-900 p-1 rounded-xl border border-amber-900/20">
-          {(['today', 'week', 'month'] as Period[]).map((p) => (
-            <button key={p} onClick={() => setPeriod(p)} className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${period === p ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'text-amber-800'}`}>{p}</button>
-          ))}
+        <div className="flex items-center gap-3">
+          <Link to="/admin/z-report" className="px-4 py-2 rounded-xl border border-amber-900/20 text-amber-700 hover:text-amber-500 hover:border-amber-500 text-[10px] font-black uppercase tracking-widest transition-all">
+            Z-Report
+          </Link>
+          <Link to="/admin/alerts" className="px-4 py-2 rounded-xl border border-amber-900/20 text-amber-700 hover:text-amber-500 hover:border-amber-500 text-[10px] font-black uppercase tracking-widest transition-all">
+            Alerts
+          </Link>
+          {hasRole(['owner']) && (
+            <>
+              <Link to="/admin/venue" className="px-4 py-2 rounded-xl border border-amber-900/20 text-amber-700 hover:text-amber-500 hover:border-amber-500 text-[10px] font-black uppercase tracking-widest transition-all">
+                Venue
+              </Link>
+              <Link to="/admin/pricing" className="px-4 py-2 rounded-xl border border-amber-900/20 text-amber-700 hover:text-amber-500 hover:border-amber-500 text-[10px] font-black uppercase tracking-widest transition-all">
+                Pricing
+              </Link>
+              <Link to="/admin/access" className="px-4 py-2 rounded-xl border border-amber-900/20 text-amber-700 hover:text-amber-500 hover:border-amber-500 text-[10px] font-black uppercase tracking-widest transition-all">
+                Access
+              </Link>
+              <Link to="/admin/webhooks" className="px-4 py-2 rounded-xl border border-amber-900/20 text-amber-700 hover:text-amber-500 hover:border-amber-500 text-[10px] font-black uppercase tracking-widest transition-all">
+                Webhooks
+              </Link>
+            </>
+          )}
         </div>
       </div>
 
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-3">
+        <div className="flex flex-wrap bg-zinc-900 p-1 rounded-xl border border-amber-900/20">
+          {RANGE_PRESETS.map(({ id, label }) => {
+            const isSelected = 'preset' in selection && selection.preset === id;
+            return (
+              <button key={id} onClick={() => selectRange({ preset: id })} className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${isSelected ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'text-amber-800'}`}>{label}</button>
+            );
+          })}
+        </div>
+        <div className={`flex items-center gap-2 bg-zinc-900 px-3 py-1 rounded-xl border ${'preset' in selection ? 'border-amber-900/20' : 'border-amber-500'}`}>
+          <input
+            type="date"
+            value={rangeKeys.from}
+            onChange={(e) => e.target.value && selectRange({ from: e.target.value, to: e.target.value > rangeKeys.to ? e.target.value : rangeKeys.to })}
+            className="bg-transparent text-[10px] font-black text-amber-500 uppercase tracking-widest focus:outline-none [color-scheme:dark]"
+          />
+          <span className="text-amber-800 text-[10px] font-black">→</span>
+          <input
+            type="date"
+            value={rangeKeys.to}
+            onChange={(e) => e.target.value && selectRange({ from: e.target.value < rangeKeys.from ? e.target.value : rangeKeys.from, to: e.target.value })}
+            className="bg-transparent text-[10px] font-black text-amber-500 uppercase tracking-widest focus:outline-none [color-scheme:dark]"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[9px] text-amber-800 font-black uppercase tracking-widest mr-1">Export {getRangeLabel(selection)}</span>
+        {([
+          ['xlsx', undefined, 'Workbook (XLSX)'],
+          ['csv', 'games', 'Games CSV'],
+          ['csv', 'daily', 'Daily by House CSV'],
+          ['csv', 'tvs', 'By TV CSV'],
+        ] as [ExportFormat, ExportTable | undefined, string][]).map(([format, table, label]) => (
+          <button
+            key={`${format}-${table || 'all'}`}
+            onClick={() => handleExport(format, table)}
+            disabled={exporting !== null}
+            className="px-3 py-1.5 rounded-lg border border-amber-900/20 text-amber-700 hover:text-amber-500 hover:border-amber-500 text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+          >
+            {exporting === `${format}-${table || 'all'}` ? 'Preparing...' : label}
+          </button>
+        ))}
+        {exportError && <span className="text-[9px] text-red-500 font-black uppercase tracking-widest">{exportError}</span>}
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="bg-zinc-900 border border-red-600/40 p-8 rounded-[2.5rem] space-y-3">
+          <h4 className="text-xs font-black text-red-500 uppercase tracking-widest mb-5">Active Alerts</h4>
+          {alerts.map(alert => (
+            <div key={alert.id} className="flex flex-wrap justify-between items-center gap-3 p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+              <div className="flex items-center gap-4">
+                <div className={`w-2 h-2 rounded-full ${alert.status === 'active' ? 'bg-red-500 animate-pulse' : 'bg-zinc-600'}`}></div>
+                <div>
+                  <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">{alert.detail}</p>
+                  <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">
+                    {EVENT_LABELS[ALERT_EVENT_TYPES[alert.type]]} • Raised {new Date(alert.raisedAt).toLocaleTimeString()}
+                    {alert.status === 'acknowledged' && ` • Seen by ${alert.acknowledgedBy}`}
+                    {alert.status === 'snoozed' && alert.snoozedUntil && ` • Snoozed until ${new Date(alert.snoozedUntil).toLocaleTimeString()}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {alert.status === 'active' && (
+                  <button onClick={() => handleAlertChange(acknowledgeAlert(alert.id))} className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded-lg text-[8px] font-black uppercase tracking-widest active:scale-95 transition-all">Acknowledge</button>
+                )}
+                {[15, 60].map(minutes => (
+                  <button key={minutes} onClick={() => handleAlertChange(snoozeAlert(alert.id, minutes))} className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-amber-500 rounded-lg text-[8px] font-black uppercase tracking-widest active:scale-95 transition-all">
+                    Snooze {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {(['house1', 'house2'] as HouseId[]).map((hId) => {
-          const isUnderThreshold = hourlyStats[hId] < thresholds[hId];
+        {houses.map(({ id: hId, name: houseName }) => {
+          const yieldRule = getYieldRule(alertRules, hId);
+          const minimum = yieldRule && getScheduledMinimum(yieldRule.schedule || [], venueHour);
+          const isUnderThreshold = alerts.some(a => a.type === 'low_yield' && a.houseId === hId);
           const isOnline = houseStatus[hId];
-          const listeningToThisHouse = isListening && videoSession.houseId === hId;
+          const listeningToThisHouse = listeningHouse === hId;
+          const viewerCount = videoSessions.find(s => s.houseId === hId)?.viewers.length ?? 0;
           
           return (
             <div key={hId} className={`p-8 bg-zinc-900 border-2 ${isUnderThreshold ? 'border-red-600/50 shadow-[0_0_20px_rgba(220,38,38,0.1)]' : 'border-amber-900/20'} rounded-[2.5rem] relative overflow-hidden group transition-all duration-500`}>
@@ -435,8 +724,8 @@ const AdminDashboard: React.FC = () => {
               <div className="absolute -top-12 -right-12 w-32 h-32 bg-amber-500/5 blur-3xl rounded-full"></div>
               <div className="flex justify-between items-start mb-6 relative z-10">
                 <div>
-                  <p className="text-amber-700 text-[10px] font-black uppercase tracking-widest mb-1">{HOUSE_NAMES[hId]}</p>
-                  <h3 className="text-4xl font-black text-amber-500 tracking-tighter">{stats[hId].revenue.toLocaleString()} <span className="text-xs uppercase ml-1">ETB</span></h3>
+                  <p className="text-amber-700 text-[10px] font-black uppercase tracking-widest mb-1">{houseName}</p>
+                  <h3 className="text-4xl font-black text-amber-500 tracking-tighter">{(houseRevenue.get(hId) || 0).toLocaleString()} <span className="text-xs uppercase ml-1">ETB</span></h3>
                 </div>
                 <div className="flex items-center gap-3">
                   <div className="flex flex-col gap-2">
@@ -464,6 +753,9 @@ const AdminDashboard: React.FC = () => {
                     <span className={`text-[8px] font-black uppercase tracking-widest ${isOnline ? 'text-green-500' : 'text-zinc-600'}`}>
                        {isOnline ? 'Online' : 'Offline'}
                     </span>
+                    {viewerCount > 0 && (
+                      <span className="text-[8px] text-amber-700 font-black uppercase tracking-widest">{viewerCount} Viewing</span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -473,16 +765,10 @@ const AdminDashboard: React.FC = () => {
                    <p className={`text-xl font-black ${isUnderThreshold ? 'text-red-500' : 'text-amber-500'}`}>{hourlyStats[hId]} <span className="text-[10px]">GAMES</span></p>
                  </div>
                  <div className="bg-black/40 p-4 rounded-2xl border border-amber-900/10">
-                   <p className="text-[9px] text-amber-700 font-black uppercase mb-1">Alert Set At</p>
-                   <div className="flex items-center gap-2">
-                     <input 
-                       type="number"
-                       value={thresholds[hId]}
-                       onChange={(e) => updateThreshold(hId, parseInt(e.target.value) || 0)}
-                       className="bg-transparent text-xl font-black text-amber-500 w-12 focus:outline-none"
-                     />
-                     <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">Min/HR</span>
-                   </div>
+                   <p className="text-[9px] text-amber-700 font-black uppercase mb-1">Minimum Now</p>
+                   <p className="text-xl font-black text-amber-500">
+                     {minimum ?? '—'} <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">Games/HR</span>
+                   </p>
                  </div>
               </div>
             </div>
@@ -490,15 +776,49 @@ const AdminDashboard: React.FC = () => {
         })}
       </div>
 
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-6">
+        <div className="flex justify-between items-center">
+          <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest">Floor • Today</h4>
+          <div className="flex gap-4">
+            {(Object.keys(FLOOR_STATES) as TVState[]).map(state => (
+              <span key={state} className={`text-[8px] font-black uppercase tracking-widest ${FLOOR_STATES[state].text}`}>● {FLOOR_STATES[state].label}</span>
+            ))}
+          </div>
+        </div>
+        {floor.map(({ house, tvs }) => (
+          <div key={house.id}>
+            <p className="text-[9px] text-amber-800 font-black uppercase tracking-widest mb-3">{house.name}</p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+              {tvs.map(({ tv, status }) => (
+                <div key={tv.id} className={`p-4 border-2 rounded-2xl transition-all duration-500 ${FLOOR_STATES[status.state].tile}`}>
+                  <div className="flex justify-between items-center mb-3">
+                    <p className="text-xs text-amber-100 font-black uppercase tracking-tight">{tv.name}</p>
+                    <span className={`text-[8px] font-black uppercase tracking-widest ${FLOOR_STATES[status.state].text}`}>{FLOOR_STATES[status.state].label}</span>
+                  </div>
+                  <p className={`text-xl font-black tabular-nums ${FLOOR_STATES[status.state].text}`}>
+                    {status.lastGameAt === null ? '—' : formatMinutes(now - status.lastGameAt)}
+                  </p>
+                  <p className="text-[8px] text-amber-900 font-black uppercase tracking-widest mb-2">Since last game</p>
+                  <div className="flex justify-between text-[9px] font-black uppercase tracking-widest tabular-nums">
+                    <span className="text-amber-700">{status.sessionGames} in session</span>
+                    <span className="text-amber-500">{status.revenue.toLocaleString()} ETB</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
           <div className="flex justify-between items-center mb-8">
              <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest">Recent Activity</h4>
-             <span className="text-[8px] text-amber-800 font-black uppercase tracking-widest">Live Logs</span>
+             <span className="text-[8px] text-amber-800 font-black uppercase tracking-widest">{isLive ? 'Live Logs' : `Last of ${getRangeLabel(selection)}`}</span>
           </div>
           <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
             {recentActivity.map(game => {
-              const tv = TV_CONFIGS.find(t => t.id === game.tvId);
+              const tv = tvIndex.get(game.tvId);
               return (
                 <div key={game.id} className="flex justify-between items-center p-4 bg-black/40 border border-amber-900/10 rounded-2xl hover:border-amber-500/30 transition-colors">
                   <div className="flex items-center gap-5">
@@ -507,7 +827,7 @@ const AdminDashboard: React.FC = () => {
                     </div>
                     <div>
                       <p className="text-xs text-amber-100 font-black uppercase tracking-tight">{tv?.name}</p>
-                      <p className="text-[8px] text-amber-700 font-bold uppercase tracking-widest">{HOUSE_NAMES[tv?.houseId || '']}</p>
+                      <p className="text-[8px] text-amber-700 font-bold uppercase tracking-widest">{getHouseName(venue, tv?.houseId)}</p>
                     </div>
                   </div>
                   <div className="text-right">
@@ -531,12 +851,13 @@ const AdminDashboard: React.FC = () => {
             {sessionEvents.slice().reverse().map(ev => (
               <div key={ev.id} className="flex justify-between items-center p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
                 <div className="flex items-center gap-4">
-                  <div className={`w-2 h-2 rounded-full ${ev.type === 'yield_alert' ? 'bg-red-500' : ev.type === 'counter_online' ? 'bg-green-500' : 'bg-amber-500'}`}></div>
+                  <div className={`w-2 h-2 rounded-full ${ev.type in ALERT_EVENT_TITLES ? 'bg-red-500' : ev.type === 'counter_online' ? 'bg-green-500' : 'bg-amber-500'}`}></div>
                   <div>
                     <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">
-                      {ev.type === 'yield_alert' ? 'LOW YIELD ALERT' : ev.type === 'counter_online' ? 'COUNTER ONLINE' : ev.type === 'video_request' ? 'VIDEO REQUEST' : 'SESSION ENDED'}
+                      {EVENT_LABELS[ev.type]}
                     </p>
-                    <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">{HOUSE_NAMES[ev.houseId]}</p>
+                    <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">{getHouseName(venue, ev.houseId)}</p>
+                    {ev.detail && <p className="text-[9px] text-zinc-500 font-bold mt-0.5">{ev.detail}</p>}
                   </div>
                 </div>
                 <div className="text-right">
@@ -555,20 +876,259 @@ const AdminDashboard: React.FC = () => {
         </div>
       </div>
 
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
+        <div className="flex justify-between items-center mb-8">
+           <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest">Voids & Corrections</h4>
+           <span className="text-[8px] text-amber-800 font-black uppercase tracking-widest">
+             {voids.filter(v => v.status === 'pending').length} Awaiting Review
+           </span>
+        </div>
+        <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+          {voids.length === 0 && (
+            <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">No voids logged</p>
+          )}
+          {voids.slice().reverse().map(v => {
+            const game = games.find(g => g.id === v.gameId) || voidedGames.get(v.gameId);
+            const tv = game ? tvIndex.get(game.tvId) : undefined;
+            return (
+              <div key={v.id} className="flex justify-between items-center p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+                <div className="flex items-center gap-4">
+                  <div className={`w-2 h-2 rounded-full ${v.status === 'pending' ? 'bg-amber-500 animate-pulse' : v.status === 'approved' ? 'bg-red-500' : 'bg-zinc-600'}`}></div>
+                  <div>
+                    <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">
+                      {tv?.name || game?.tvId || 'Unknown'} • {game ? `${game.amount} ETB` : ''} • {v.reason}
+                    </p>
+                    <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">
+                      {getHouseName(venue, game?.houseId ?? tv?.houseId)} • Logged {game ? new Date(game.timestamp).toLocaleTimeString() : '—'} • {v.source === 'undo' ? 'Undo' : 'Requested'} {new Date(v.requestedAt).toLocaleTimeString()}
+                    </p>
+                  </div>
+                </div>
+                {v.status === 'pending' ? (
+                  <div className="flex gap-2">
+                    <button onClick={() => handleResolveVoid(v.id, 'approved')} className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded-lg text-[8px] font-black uppercase tracking-widest active:scale-95 transition-all">Approve</button>
+                    <button onClick={() => handleResolveVoid(v.id, 'rejected')} className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-amber-500 rounded-lg text-[8px] font-black uppercase tracking-widest active:scale-95 transition-all">Reject</button>
+                  </div>
+                ) : (
+                  <span className={`text-[8px] font-black uppercase tracking-widest ${v.status === 'approved' ? 'text-red-500' : 'text-zinc-500'}`}>
+                    {v.status === 'approved' ? 'Voided' : 'Rejected'}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
+        <div className="flex justify-between items-center mb-8">
+           <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest">Anomalies</h4>
+           <span className="text-[8px] text-amber-800 font-black uppercase tracking-widest">{getRangeLabel(selection)}</span>
+        </div>
+        <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+          {anomalies.length === 0 && (
+            <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">Nothing unusual in this range</p>
+          )}
+          {anomalies.map(a => {
+            const isOpen = openAnomalyId === a.id;
+            const subject = a.tvId ? tvIndex.get(a.tvId)?.name || a.tvId : getHouseName(venue, a.houseId);
+            return (
+              <div key={a.id} className="p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+                <div className="flex justify-between items-center gap-4">
+                  <div className="flex items-center gap-4">
+                    <div className="w-2 h-2 rounded-full bg-red-500"></div>
+                    <div>
+                      <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">
+                        {ANOMALY_LABELS[a.type]} • {subject} • {a.detail}
+                      </p>
+                      <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">
+                        {new Date(a.from).toLocaleString()}{a.workerName ? ` • ${a.workerName}` : ''}
+                      </p>
+                    </div>
+                  </div>
+                  {a.entries.length > 0 && (
+                    <button
+                      onClick={() => setOpenAnomalyId(isOpen ? null : a.id)}
+                      className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-amber-500 rounded-lg text-[8px] font-black uppercase tracking-widest active:scale-95 transition-all whitespace-nowrap"
+                    >
+                      {isOpen ? 'Hide' : `${a.entries.length} ${a.entries.length === 1 ? 'Entry' : 'Entries'}`}
+                    </button>
+                  )}
+                </div>
+                {isOpen && (
+                  <div className="mt-3 pl-6 space-y-1">
+                    {a.entries.map(entry => (
+                      <p key={entry.id} className="text-[9px] text-amber-700 font-bold uppercase tracking-widest">
+                        #{entry.seq ?? '—'} • {new Date(entry.timestamp).toLocaleTimeString()} • {tvIndex.get(entry.tvId)?.name || entry.tvId} • {entry.amount} ETB
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+           <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest">Customer Sessions</h4>
+           <div className="flex bg-black/40 p-1 rounded-xl border border-amber-900/20">
+             {([['houses', 'By House'], ['tvs', 'By TV'], ['prices', 'By Price']] as const).map(([view, label]) => (
+               <button key={view} onClick={() => setSessionView(view)} className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${sessionView === view ? 'bg-amber-500 text-black' : 'text-amber-800'}`}>{label}</button>
+             ))}
+           </div>
+        </div>
+        {!sessionAnalysis || sessionAnalysis.totals.sessions + sessionAnalysis.totals.openSessions === 0 ? (
+          <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">No sessions marked with R in this range</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+              {[
+                ['Sessions', sessionAnalysis.totals.sessions.toLocaleString()],
+                ['Games / Session', sessionAnalysis.totals.avgGames.toFixed(1)],
+                ['ETB / Session', Math.round(sessionAnalysis.totals.avgRevenue).toLocaleString()],
+                ['Avg Duration', formatMinutes(sessionAnalysis.totals.avgDurationMs)],
+                ['Still Playing', sessionAnalysis.totals.openSessions.toLocaleString()],
+              ].map(([label, value]) => (
+                <div key={label} className="p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+                  <p className="text-[9px] text-amber-800 font-black uppercase tracking-widest">{label}</p>
+                  <p className="text-lg font-black text-amber-500 tabular-nums">{value}</p>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-[1fr_repeat(4,4.5rem)_8rem] gap-x-3 px-4 pb-2 text-[8px] text-amber-800 font-black uppercase tracking-widest">
+              <span></span>
+              <span className="text-right">Sessions</span>
+              <span className="text-right">Games</span>
+              <span className="text-right">ETB</span>
+              <span className="text-right">Duration</span>
+              <span className="text-center">Games per Session</span>
+            </div>
+            <div className="space-y-2">
+              {sessionAnalysis[sessionView].map(row => {
+                const peak = Math.max(1, ...row.lengths);
+                return (
+                  <div key={row.key} className="grid grid-cols-[1fr_repeat(4,4.5rem)_8rem] gap-x-3 items-center p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+                    <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight truncate">{row.label}</p>
+                    <p className="text-[10px] text-amber-600 font-black tabular-nums text-right">{row.sessions}{row.openSessions > 0 && <span className="text-green-600"> +{row.openSessions}</span>}</p>
+                    <p className="text-[10px] text-amber-500 font-black tabular-nums text-right">{row.avgGames.toFixed(1)}</p>
+                    <p className="text-[10px] text-amber-500 font-black tabular-nums text-right">{Math.round(row.avgRevenue).toLocaleString()}</p>
+                    <p className="text-[10px] text-amber-800 font-black tabular-nums text-right">{formatMinutes(row.avgDurationMs)}</p>
+                    <div className="flex items-end gap-0.5 h-6" title={sessionAnalysis.lengthBuckets.map((b, i) => `${b}: ${row.lengths[i]}`).join(' • ')}>
+                      {row.lengths.map((count, i) => (
+                        <div key={i} className="flex-1 bg-amber-500/70 rounded-sm" style={{ height: `${Math.max(count ? 12 : 0, (count / peak) * 100)}%` }}></div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="mt-4 text-[8px] text-amber-900 font-black uppercase tracking-widest text-right">
+              Games per session: {sessionAnalysis.lengthBuckets.join(' • ')} • Green: still playing
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
+        <div className="flex justify-between items-center mb-8">
+           <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest">Staff Performance</h4>
+           <span className="text-[8px] text-amber-800 font-black uppercase tracking-widest">{getRangeLabel(selection)}</span>
+        </div>
+        <div className="space-y-2">
+          {workerStats.length === 0 && (
+            <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">No shifts in this range</p>
+          )}
+          {workerStats.map(w => (
+            <div key={w.id || 'unassigned'} className="grid grid-cols-4 items-center p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+              <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight flex items-center gap-2">
+                {w.onDuty && <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>}
+                {w.name}
+              </p>
+              <p className="text-[10px] text-amber-600 font-black tabular-nums text-right">{w.games} Games</p>
+              <p className="text-[10px] text-amber-500 font-black tabular-nums text-right">{w.revenue.toLocaleString()} ETB</p>
+              <p className="text-[10px] text-amber-800 font-black tabular-nums text-right">{w.id ? `${w.hours.toFixed(1)} h` : '—'}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
+        <div className="flex justify-between items-center mb-8">
+           <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest">Cash Reconciliation</h4>
+           <span className={`text-[10px] font-black uppercase tracking-widest tabular-nums ${differenceClass(cashReport.total)}`}>
+             Net {formatDifference(cashReport.total)}
+           </span>
+        </div>
+        {cashReport.uncounted > 0 && (
+          <p className="mb-4 p-3 bg-red-600/10 border border-red-600/40 rounded-2xl text-red-500 text-[9px] font-black uppercase tracking-widest text-center">
+            {cashReport.uncounted} {cashReport.uncounted === 1 ? 'shift' : 'shifts'} ended without a cash count
+          </p>
+        )}
+        {cashReport.workers.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            {cashReport.workers.map(w => (
+              <div key={w.id} className="p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+                <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">{w.name}</p>
+                <p className={`text-sm font-black tabular-nums ${differenceClass(w.difference)}`}>{formatDifference(w.difference)}</p>
+                <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">{w.shifts} {w.shifts === 1 ? 'shift' : 'shifts'}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+          {cashReport.rows.length === 0 && (
+            <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">No closed shifts in this range</p>
+          )}
+          {cashReport.rows.map(r => (
+            <div key={r.id} className="grid grid-cols-5 items-center gap-2 p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+              <div className="col-span-2">
+                <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">{r.workerName} • {getHouseName(venue, r.houseId)}</p>
+                <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">
+                  {new Date(r.startedAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit', hour12: false })}–{new Date(r.endedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+                  {r.note && ` • ${r.note}`}
+                </p>
+              </div>
+              <p className="text-[9px] text-amber-700 font-black tabular-nums text-right">
+                {(r.cash + r.mobileMoney).toLocaleString()} / {r.expected.toLocaleString()}
+                <span className="block text-[8px] text-amber-900">Cash {r.cash.toLocaleString()} • Mobile {r.mobileMoney.toLocaleString()}</span>
+              </p>
+              <p className={`text-[10px] font-black tabular-nums text-right ${differenceClass(r.difference)}`}>{formatDifference(r.difference)}</p>
+              <p className={`text-[9px] font-black tabular-nums text-right ${differenceClass(r.running)}`}>Σ {formatDifference(r.running)}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
       <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] h-96">
-        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-8 text-center">Asset Revenue Breakdown</h4>
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-8 text-center">Asset Revenue Breakdown • {getRangeLabel(selection)}</h4>
         <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={stats.tvPerformance} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+          <BarChart data={tvPerformance} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
             <XAxis dataKey="name" stroke="#78350f" fontSize={10} axisLine={false} tickLine={false} />
             <Tooltip contentStyle={{ backgroundColor: '#09090b', borderColor: '#451a03', color: '#f59e0b', borderRadius: '12px', fontSize: '10px' }} />
             <Bar dataKey="revenue" radius={[10, 10, 0, 0]}>
-              {stats.tvPerformance.map((entry, index) => (
+              {tvPerformance.map((entry, index) => (
                 <Cell key={`cell-${index}`} fill={index % 2 === 0 ? '#f59e0b' : '#b45309'} />
               ))}
             </Bar>
           </BarChart>
         </ResponsiveContainer>
       </div>
+
+      {(settings.timedGames || tvPerformance.some(tv => tv.timedGames > 0)) && (
+        <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
+          <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-6">Average Game Length • {getRangeLabel(selection)}</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+            {tvPerformance.map(tv => (
+              <div key={tv.name} className="p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+                <p className="text-[9px] text-amber-800 font-black uppercase tracking-widest">{tv.name}</p>
+                <p className="text-xl font-black text-amber-500 tabular-nums">{tv.timedGames ? formatGameLength(tv.avgGameMs) : '—'}</p>
+                <p className="text-[8px] text-amber-900 font-black uppercase tracking-widest">{tv.timedGames} timed {tv.timedGames === 1 ? 'game' : 'games'}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertRule, AlertRuleType, ThresholdStep, VenueConfig, VenueSettings } from '../types';
+import { subscribeVenue, getCachedVenue, subscribeAlertRules, addAlertRule, deleteAlertRule, subscribeSettings, getCachedSettings } from '../services/storage';
+import { getActiveHouses, getHouseName } from '../services/venue';
+
+const inputClass = 'bg-black/40 border border-amber-900/20 rounded-xl px-3 py-2 text-xs font-black text-amber-500 focus:outline-none focus:border-amber-500 transition-all';
+const smallButtonClass = 'px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest active:scale-95 transition-all';
+
+const RULE_TYPES: { id: AlertRuleType; label: string; hint: string }[] = [
+  { id: 'low_yield', label: 'Low Yield', hint: 'Fewer games in the last hour than the minimum for the time of day' },
+  { id: 'tv_idle', label: 'Idle TV', hint: 'No game on the TV while its counter is online' },
+  { id: 'counter_offline', label: 'Counter Offline', hint: 'No heartbeat from the counter phone during opening hours' },
+];
+
+const formatHour = (h: number) => `${String(h).padStart(2, '0')}:00`;
+
+const AlertsEditor: React.FC = () => {
+  const [venue, setVenue] = useState<VenueConfig>(getCachedVenue);
+  const [settings, setSettings] = useState<VenueSettings>(getCachedSettings);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ type: 'tv_idle' as AlertRuleType, targetId: '', minutes: 60, cooldownMinutes: 60 });
+  const [schedule, setSchedule] = useState<ThresholdStep[]>([{ fromHour: 0, minimum: 2 }]);
+
+  useEffect(() => {
+    const unsubscribers = [subscribeVenue(setVenue), subscribeAlertRules(setRules), subscribeSettings(setSettings)];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  const houses = useMemo(() => getActiveHouses(venue), [venue]);
+  const targets = draft.type === 'tv_idle'
+    ? venue.tvs.filter(tv => tv.active).map(tv => ({ id: tv.id, name: `${tv.name} • ${getHouseName(venue, tv.houseId)}` }))
+    : houses.map(h => ({ id: h.id, name: h.name }));
+
+  const describeTarget = (rule: AlertRule) => {
+    if (rule.targetId === null) return rule.type === 'tv_idle' ? 'Every TV' : 'Every house';
+    return rule.type === 'tv_idle'
+      ? venue.tvs.find(tv => tv.id === rule.targetId)?.name ?? rule.targetId
+      : getHouseName(venue, rule.targetId);
+  };
+
+  const apply = async (change: Promise<{ rules?: AlertRule[]; error?: string }>) => {
+    const result = await change;
+    if (result.rules) {
+      setRules(result.rules);
+      setError(null);
+    } else {
+      setError(result.error || 'Change failed');
+    }
+    return !!result.rules;
+  };
+
+  const describeCondition = (rule: AlertRule) => rule.type === 'low_yield'
+    ? (rule.schedule || []).map(step => `From ${formatHour(step.fromHour)} min ${step.minimum}/hr`).join(' • ')
+    : `After ${rule.minutes} min`;
+
+  const updateStep = (index: number, change: Partial<ThresholdStep>) =>
+    setSchedule(schedule.map((step, i) => i === index ? { ...step, ...change } : step));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const condition = draft.type === 'low_yield' ? { schedule } : { minutes: draft.minutes };
+    const rule = { type: draft.type, targetId: draft.targetId || null, cooldownMinutes: draft.cooldownMinutes, ...condition };
+    if (await apply(addAlertRule(rule))) setDraft({ ...draft, targetId: '' });
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto animate-in fade-in duration-700 pb-12">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-3xl font-black text-amber-500 uppercase tracking-tighter">Alerts</h2>
+          <p className="text-amber-800 text-[10px] font-bold uppercase tracking-[0.2em]">
+            Checked every 30s on the server • Open {formatHour(settings.openingHour)}–{formatHour(settings.closingHour)}
+          </p>
+        </div>
+        <Link to="/admin" className="px-4 py-2 rounded-xl border border-amber-900/30 text-amber-500 text-[10px] font-black uppercase tracking-widest hover:border-amber-500 transition-all">
+          Back
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-600/10 border border-red-600/40 rounded-2xl text-red-500 text-[10px] font-black uppercase tracking-widest">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-4">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-2">Add a Rule</h4>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value as AlertRuleType, targetId: '' })} className={inputClass}>
+            {RULE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+          </select>
+          <select value={draft.targetId} onChange={(e) => setDraft({ ...draft, targetId: e.target.value })} className={`${inputClass} flex-grow`}>
+            <option value="">{draft.type === 'tv_idle' ? 'Every TV' : 'Every house'}</option>
+            {targets.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          {draft.type !== 'low_yield' && (
+            <div className="flex items-center gap-1">
+              <input type="number" min={1} max={1440} value={draft.minutes} onChange={(e) => setDraft({ ...draft, minutes: Number(e.target.value) })} className={`${inputClass} w-20`} />
+              <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">Min</span>
+            </div>
+          )}
+          <div className="flex items-center gap-1">
+            <input type="number" min={0} max={1440} value={draft.cooldownMinutes} onChange={(e) => setDraft({ ...draft, cooldownMinutes: Number(e.target.value) })} className={`${inputClass} w-20`} />
+            <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">Min Cooldown</span>
+          </div>
+          <button type="submit" className={`${smallButtonClass} bg-amber-500 text-black`}>Add Rule</button>
+        </div>
+        {draft.type === 'low_yield' && (
+          <div className="space-y-2">
+            {schedule.map((step, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">From</span>
+                <select value={step.fromHour} onChange={(e) => updateStep(index, { fromHour: Number(e.target.value) })} className={inputClass}>
+                  {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{formatHour(h)}</option>)}
+                </select>
+                <input type="number" min={0} value={step.minimum} onChange={(e) => updateStep(index, { minimum: Number(e.target.value) })} className={`${inputClass} w-20`} />
+                <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">Games/HR</span>
+                {schedule.length > 1 && (
+                  <button type="button" onClick={() => setSchedule(schedule.filter((_, i) => i !== index))} className={`${smallButtonClass} text-red-500 hover:bg-red-600/10`}>
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setSchedule([...schedule, { fromHour: (schedule[schedule.length - 1].fromHour + 1) % 24, minimum: schedule[schedule.length - 1].minimum }])}
+              className={`${smallButtonClass} border border-amber-900/30 text-amber-500`}
+            >
+              Add Step
+            </button>
+          </div>
+        )}
+        <p className="text-[8px] text-amber-900 font-black uppercase tracking-widest">{RULE_TYPES.find(t => t.id === draft.type)?.hint}</p>
+      </form>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-3">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">Rules</h4>
+        {rules.length === 0 && (
+          <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">No rules • No alerts are raised</p>
+        )}
+        {rules.map(rule => (
+          <div key={rule.id} className="flex flex-wrap items-center gap-3 p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+            <div className="flex-grow">
+              <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">
+                {RULE_TYPES.find(t => t.id === rule.type)?.label} • {describeTarget(rule)}
+              </p>
+              <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">
+                {describeCondition(rule)} • {rule.cooldownMinutes ? `${rule.cooldownMinutes} min cooldown` : 'No cooldown'}
+              </p>
+            </div>
+            <button onClick={() => apply(deleteAlertRule(rule.id))} className={`${smallButtonClass} text-red-500 hover:bg-red-600/10`}>
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AlertsEditor;
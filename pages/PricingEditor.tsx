@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { PriceRule, VenueConfig, VenueSettings } from '../types';
+import { subscribeVenue, getCachedVenue, subscribePriceRules, getCachedPriceRules, addPriceRule, endPriceRule, subscribeSettings, getCachedSettings } from '../services/storage';
+import { getActiveHouses, getHouseTVs, getHouseName } from '../services/venue';
+import { resolvePrice } from '../shared/pricing';
+import { getZonedParts, zonedTime } from '../shared/businessDay';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 25 }, (_, h) => h);
+
+const inputClass = 'bg-black/40 border border-amber-900/20 rounded-xl px-3 py-2 text-xs font-black text-amber-500 focus:outline-none focus:border-amber-500 transition-all';
+const smallButtonClass = 'px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest active:scale-95 transition-all';
+
+const formatHour = (h: number) => `${String(h).padStart(2, '0')}:00`;
+
+// Dates are picked and shown on the venue's calendar, not the device's.
+const toDateInput = (time: number, timeZone: string) => {
+  const d = getZonedParts(time, timeZone);
+  return `${d.year}-${String(d.month).padStart(2, '0')}-${String(d.day).padStart(2, '0')}`;
+};
+
+// Midnight at the venue on the picked date.
+const fromDateInput = (value: string, timeZone: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return zonedTime(y, m, d, 0, timeZone);
+};
+
+const getRuleStatus = (rule: PriceRule, now: number) => {
+  if (rule.effectiveTo != null && rule.effectiveTo <= now) return 'Ended';
+  if (rule.effectiveFrom > now) return 'Scheduled';
+  return 'Active';
+};
+
+const emptyDraft = (timeZone: string) => ({
+  scope: 'tv' as PriceRule['scope'],
+  targetId: '',
+  price: 20,
+  days: [] as number[],
+  allDay: true,
+  startHour: 7,
+  endHour: 12,
+  effectiveFrom: toDateInput(Date.now(), timeZone),
+});
+
+const PricingEditor: React.FC = () => {
+  const [venue, setVenue] = useState<VenueConfig>(getCachedVenue);
+  const [rules, setRules] = useState<PriceRule[]>(getCachedPriceRules);
+  const [settings, setSettings] = useState<VenueSettings>(getCachedSettings);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState(() => emptyDraft(getCachedSettings().timeZone));
+  const [showEnded, setShowEnded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribers = [subscribeVenue(setVenue), subscribePriceRules(setRules), subscribeSettings(setSettings)];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  const houses = useMemo(() => getActiveHouses(venue), [venue]);
+  const targets = draft.scope === 'tv'
+    ? venue.tvs.filter(tv => tv.active).map(tv => ({ id: tv.id, name: `${tv.name} • ${getHouseName(venue, tv.houseId)}` }))
+    : houses.map(h => ({ id: h.id, name: h.name }));
+  const targetId = targets.some(t => t.id === draft.targetId) ? draft.targetId : targets[0]?.id || '';
+
+  const now = Date.now();
+  const visibleRules = rules
+    .filter(rule => showEnded || getRuleStatus(rule, now) !== 'Ended')
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const describeTarget = (rule: PriceRule) => rule.scope === 'tv'
+    ? venue.tvs.find(tv => tv.id === rule.targetId)?.name ?? rule.targetId
+    : getHouseName(venue, rule.targetId);
+
+  const apply = async (change: Promise<{ rules?: PriceRule[]; error?: string }>) => {
+    const result = await change;
+    if (result.rules) {
+      setRules(result.rules);
+      setError(null);
+    } else {
+      setError(result.error || 'Change failed');
+    }
+    return !!result.rules;
+  };
+
+  const toggleDay = (day: number) => setDraft({
+    ...draft,
+    days: draft.days.includes(day) ? draft.days.filter(d => d !== day) : [...draft.days, day].sort((a, b) => a - b),
+  });
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.effectiveFrom) {
+      setError('Pick an effective date');
+      return;
+    }
+    const rule = {
+      scope: draft.scope,
+      targetId,
+      price: draft.price,
+      days: draft.days,
+      ...(draft.allDay ? {} : { startHour: draft.startHour, endHour: draft.endHour }),
+      effectiveFrom: fromDateInput(draft.effectiveFrom, settings.timeZone),
+    };
+    if (await apply(addPriceRule(rule))) setDraft({ ...emptyDraft(settings.timeZone), scope: draft.scope, targetId });
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto animate-in fade-in duration-700 pb-12">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-3xl font-black text-amber-500 uppercase tracking-tighter">Pricing</h2>
+          <p className="text-amber-800 text-[10px] font-bold uppercase tracking-[0.2em]">TV rules beat house rules • Narrower windows beat all-day • Times in {settings.timeZone}</p>
+        </div>
+        <Link to="/admin" className="px-4 py-2 rounded-xl border border-amber-900/30 text-amber-500 text-[10px] font-black uppercase tracking-widest hover:border-amber-500 transition-all">
+          Back
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-600/10 border border-red-600/40 rounded-2xl text-red-500 text-[10px] font-black uppercase tracking-widest">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">Charging Now</h4>
+        <div className="space-y-6">
+          {houses.map(house => (
+            <div key={house.id}>
+              <p className="text-[9px] text-amber-800 font-black uppercase tracking-widest mb-2">{house.name}</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {getHouseTVs(venue, house.id).map(tv => {
+                  const { price, rule } = resolvePrice(rules, tv, now, settings.timeZone);
+                  return (
+                    <div key={tv.id} className="p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+                      <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">{tv.name}</p>
+                      <p className="text-lg font-black text-amber-500 tabular-nums">{price} <span className="text-[8px] text-amber-900">ETB</span></p>
+                      <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">{rule ? `${rule.scope} rule` : 'Default'}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <form onSubmit={handleSchedule} className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-4">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-2">Schedule a Price</h4>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={draft.scope} onChange={(e) => setDraft({ ...draft, scope: e.target.value as PriceRule['scope'], targetId: '' })} className={inputClass}>
+            <option value="tv">TV</option>
+            <option value="house">House</option>
+          </select>
+          <select value={targetId} onChange={(e) => setDraft({ ...draft, targetId: e.target.value })} className={`${inputClass} flex-grow`}>
+            {targets.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          <div className="flex items-center gap-1">
+            <input type="number" min={0} value={draft.price} onChange={(e) => setDraft({ ...draft, price: Number(e.target.value) })} className={`${inputClass} w-20`} />
+            <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">ETB</span>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {DAY_NAMES.map((name, day) => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`${smallButtonClass} ${draft.days.includes(day) ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-amber-700'}`}
+            >
+              {name}
+            </button>
+          ))}
+          <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest ml-2">{draft.days.length ? '' : 'Every day'}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setDraft({ ...draft, allDay: !draft.allDay })}
+            className={`${smallButtonClass} ${draft.allDay ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-amber-500'}`}
+          >
+            {draft.allDay ? 'All Day' : 'Hours'}
+          </button>
+          {!draft.allDay && (
+            <>
+              <select value={draft.startHour} onChange={(e) => setDraft({ ...draft, startHour: Number(e.target.value) })} className={inputClass}>
+                {HOURS.slice(0, 24).map(h => <option key={h} value={h}>{formatHour(h)}</option>)}
+              </select>
+              <span className="text-[9px] text-amber-800 font-black uppercase">to</span>
+              <select value={draft.endHour} onChange={(e) => setDraft({ ...draft, endHour: Number(e.target.value) })} className={inputClass}>
+                {HOURS.slice(1).map(h => <option key={h} value={h}>{formatHour(h)}</option>)}
+              </select>
+            </>
+          )}
+          <span className="text-[9px] text-amber-800 font-black uppercase tracking-widest ml-auto">From</span>
+          <input type="date" value={draft.effectiveFrom} onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })} className={inputClass} />
+          <button type="submit" disabled={!targetId} className={`${smallButtonClass} bg-amber-500 text-black disabled:opacity-30`}>Schedule</button>
+        </div>
+      </form>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-3">
+        <div className="flex justify-between items-center mb-5">
+          <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest">Price Rules</h4>
+          <button onClick={() => setShowEnded(!showEnded)} className="text-[8px] text-amber-800 font-black uppercase tracking-widest hover:text-amber-500">
+            {showEnded ? 'Hide Ended' : 'Show Ended'}
+          </button>
+        </div>
+        {visibleRules.length === 0 && (
+          <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">No rules • TVs charge their default price</p>
+        )}
+        {visibleRules.map(rule => {
+          const status = getRuleStatus(rule, now);
+          return (
+            <div key={rule.id} className={`flex flex-wrap items-center gap-3 p-4 bg-black/20 border border-amber-900/5 rounded-2xl ${status === 'Ended' ? 'opacity-50' : ''}`}>
+              <div className="flex-grow">
+                <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">
+                  {describeTarget(rule)} • {rule.price} ETB
+                </p>
+                <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">
+                  {rule.days.length ? rule.days.map(d => DAY_NAMES[d]).join(' ') : 'Every day'}
+                  {' • '}
+                  {rule.startHour != null && rule.endHour != null ? `${formatHour(rule.startHour)}–${formatHour(rule.endHour)}` : 'All day'}
+                  {' • From '}{toDateInput(rule.effectiveFrom, settings.timeZone)}
+                  {rule.effectiveTo != null && ` • Until ${new Date(rule.effectiveTo).toLocaleString()}`}
+                </p>
+              </div>
+              <span className={`text-[8px] font-black uppercase tracking-widest ${status === 'Active' ? 'text-green-500' : status === 'Scheduled' ? 'text-amber-500' : 'text-zinc-600'}`}>
+                {status}
+              </span>
+              {status !== 'Ended' && (
+                <button onClick={() => apply(endPriceRule(rule.id))} className={`${smallButtonClass} text-red-500 hover:bg-red-600/10`}>
+                  {status === 'Scheduled' ? 'Cancel' : 'End'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PricingEditor;
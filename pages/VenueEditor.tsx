@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { HouseConfig, TVConfig, VenueConfig, VenueSettings } from '../types';
+import { subscribeVenue, getCachedVenue, addHouse, updateHouse, deleteHouse, addTV, updateTV, deleteTV, subscribeSettings, getCachedSettings, saveSettings } from '../services/storage';
+import { getHouseTVs } from '../services/venue';
+
+const inputClass = 'bg-black/40 border border-amber-900/20 rounded-xl px-3 py-2 text-xs font-black text-amber-500 focus:outline-none focus:border-amber-500 transition-all';
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+const smallButtonClass = 'px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest active:scale-95 transition-all';
+
+const VenueEditor: React.FC = () => {
+  const [venue, setVenue] = useState<VenueConfig>(getCachedVenue);
+  const [settings, setSettings] = useState<VenueSettings>(getCachedSettings);
+  const [error, setError] = useState<string | null>(null);
+  const [newHouse, setNewHouse] = useState({ id: '', name: '' });
+  const [newTV, setNewTV] = useState({ id: '', name: '', houseId: '', pricePerGame: 20 });
+
+  useEffect(() => {
+    const unsubscribers = [subscribeVenue(setVenue), subscribeSettings(setSettings)];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  const houses = useMemo(() => [...venue.houses].sort((a, b) => a.sortOrder - b.sortOrder), [venue]);
+
+  const apply = async (change: Promise<{ venue?: VenueConfig; error?: string }>) => {
+    const result = await change;
+    if (result.venue) {
+      setVenue(result.venue);
+      setError(null);
+    } else {
+      setError(result.error || 'Change failed');
+    }
+    return !!result.venue;
+  };
+
+  const applySettings = async (changes: Partial<VenueSettings>) => {
+    const result = await saveSettings(changes);
+    if (result.settings) {
+      setSettings(result.settings);
+      setError(null);
+    } else {
+      setError(result.error || 'Change failed');
+    }
+  };
+
+  const handleAddHouse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await apply(addHouse({ id: newHouse.id.trim(), name: newHouse.name.trim() || undefined }))) {
+      setNewHouse({ id: '', name: '' });
+    }
+  };
+
+  const handleAddTV = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const houseId = newTV.houseId || houses.find(h => h.active)?.id || '';
+    if (await apply(addTV({ ...newTV, id: newTV.id.trim(), name: newTV.name.trim() || undefined, houseId }))) {
+      setNewTV({ id: '', name: '', houseId, pricePerGame: newTV.pricePerGame });
+    }
+  };
+
+  const renderHouse = (house: HouseConfig) => (
+    <div key={house.id} className={`flex flex-wrap items-center gap-3 p-4 bg-black/20 border border-amber-900/5 rounded-2xl ${house.active ? '' : 'opacity-50'}`}>
+      <span className="w-16 text-[9px] text-amber-800 font-black uppercase tracking-widest">{house.id}</span>
+      <input
+        defaultValue={house.name}
+        onBlur={(e) => e.target.value !== house.name && apply(updateHouse(house.id, { name: e.target.value }))}
+        className={`${inputClass} flex-grow`}
+      />
+      <input
+        type="number"
+        defaultValue={house.sortOrder}
+        onBlur={(e) => Number(e.target.value) !== house.sortOrder && apply(updateHouse(house.id, { sortOrder: Number(e.target.value) }))}
+        className={`${inputClass} w-16`}
+        title="Sort order"
+      />
+      <button
+        onClick={() => apply(updateHouse(house.id, { active: !house.active }))}
+        className={`${smallButtonClass} ${house.active ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-amber-500'}`}
+      >
+        {house.active ? 'Active' : 'Retired'}
+      </button>
+      <button onClick={() => apply(deleteHouse(house.id))} className={`${smallButtonClass} text-red-500 hover:bg-red-600/10`}>
+        Delete
+      </button>
+    </div>
+  );
+
+  const renderTV = (tv: TVConfig) => (
+    <div key={tv.id} className={`flex flex-wrap items-center gap-3 p-4 bg-black/20 border border-amber-900/5 rounded-2xl ${tv.active ? '' : 'opacity-50'}`}>
+      <span className="w-12 text-[9px] text-amber-800 font-black uppercase tracking-widest">{tv.id}</span>
+      <input
+        defaultValue={tv.name}
+        onBlur={(e) => e.target.value !== tv.name && apply(updateTV(tv.id, { name: e.target.value }))}
+        className={`${inputClass} flex-grow`}
+      />
+      <select
+        value={tv.houseId}
+        onChange={(e) => apply(updateTV(tv.id, { houseId: e.target.value }))}
+        className={inputClass}
+      >
+        {houses.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+      </select>
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          defaultValue={tv.pricePerGame}
+          onBlur={(e) => Number(e.target.value) !== tv.pricePerGame && apply(updateTV(tv.id, { pricePerGame: Number(e.target.value) }))}
+          className={`${inputClass} w-20`}
+          title="Default price per game"
+        />
+        <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">ETB</span>
+      </div>
+      <input
+        type="number"
+        defaultValue={tv.sortOrder}
+        onBlur={(e) => Number(e.target.value) !== tv.sortOrder && apply(updateTV(tv.id, { sortOrder: Number(e.target.value) }))}
+        className={`${inputClass} w-16`}
+        title="Sort order"
+      />
+      <button
+        onClick={() => apply(updateTV(tv.id, { active: !tv.active }))}
+        className={`${smallButtonClass} ${tv.active ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-amber-500'}`}
+      >
+        {tv.active ? 'Active' : 'Retired'}
+      </button>
+      {tv.active && (
+        <button
+          onClick={() => apply(updateTV(tv.id, { outOfService: !tv.outOfService }))}
+          className={`${smallButtonClass} ${tv.outOfService ? 'bg-red-600 text-white' : 'bg-zinc-800 text-amber-500'}`}
+          title="Mark a TV that can't be played for now"
+        >
+          {tv.outOfService ? 'Out of Service' : 'In Service'}
+        </button>
+      )}
+      <button onClick={() => apply(deleteTV(tv.id))} className={`${smallButtonClass} text-red-500 hover:bg-red-600/10`}>
+        Delete
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto animate-in fade-in duration-700 pb-12">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-3xl font-black text-amber-500 uppercase tracking-tighter">Venue Setup</h2>
+          <p className="text-amber-800 text-[10px] font-bold uppercase tracking-[0.2em]">Business day, houses & TVs • Retire instead of deleting once used</p>
+        </div>
+        <Link to="/admin" className="px-4 py-2 rounded-xl border border-amber-900/30 text-amber-500 text-[10px] font-black uppercase tracking-widest hover:border-amber-500 transition-all">
+          Back
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-600/10 border border-red-600/40 rounded-2xl text-red-500 text-[10px] font-black uppercase tracking-widest">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem]">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">Business Day</h4>
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-[9px] text-amber-800 font-black uppercase tracking-widest">Starts at</span>
+          <select
+            value={settings.businessDayStartHour}
+            onChange={(e) => applySettings({ businessDayStartHour: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{`${String(h).padStart(2, '0')}:00`}</option>)}
+          </select>
+          <span className="text-[9px] text-amber-800 font-black uppercase tracking-widest">in</span>
+          <input
+            key={settings.timeZone}
+            defaultValue={settings.timeZone}
+            list="venue-time-zones"
+            onBlur={(e) => e.target.value !== settings.timeZone && applySettings({ timeZone: e.target.value.trim() })}
+            className={`${inputClass} flex-grow`}
+          />
+          <datalist id="venue-time-zones">
+            {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+        </div>
+        <p className="mt-3 text-[8px] text-amber-900 font-black uppercase tracking-widest">
+          "Today", yields and reports all count from this hour on the venue's clock, whatever the device's own clock says
+        </p>
+        <div className="flex flex-wrap items-center gap-3 mt-6">
+          <span className="text-[9px] text-amber-800 font-black uppercase tracking-widest">Open from</span>
+          <select
+            value={settings.openingHour}
+            onChange={(e) => applySettings({ openingHour: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{`${String(h).padStart(2, '0')}:00`}</option>)}
+          </select>
+          <span className="text-[9px] text-amber-800 font-black uppercase tracking-widest">to</span>
+          <select
+            value={settings.closingHour}
+            onChange={(e) => applySettings({ closingHour: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{`${String(h).padStart(2, '0')}:00`}</option>)}
+          </select>
+          <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">Counter-offline alerts only count while open</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 mt-6">
+          <span className="text-[9px] text-amber-800 font-black uppercase tracking-widest">Game timing</span>
+          <button
+            onClick={() => applySettings({ timedGames: !settings.timedGames })}
+            className={`${smallButtonClass} ${settings.timedGames ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-amber-500'}`}
+          >
+            {settings.timedGames ? 'Start & Finish' : 'Tap Only'}
+          </button>
+        </div>
+        <p className="mt-3 text-[8px] text-amber-900 font-black uppercase tracking-widest">
+          With Start & Finish, counters start a game when the controllers are handed over and finish it when the match ends, so game lengths are recorded
+        </p>
+      </div>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-3">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">Houses</h4>
+        {houses.map(renderHouse)}
+        <form onSubmit={handleAddHouse} className="flex flex-wrap items-center gap-3 pt-3">
+          <input value={newHouse.id} onChange={(e) => setNewHouse({ ...newHouse, id: e.target.value })} placeholder="house3" className={`${inputClass} w-28`} />
+          <input value={newHouse.name} onChange={(e) => setNewHouse({ ...newHouse, name: e.target.value })} placeholder="Display name" className={`${inputClass} flex-grow`} />
+          <button type="submit" className={`${smallButtonClass} bg-amber-500 text-black`}>Add House</button>
+        </form>
+      </div>
+
+      {houses.map(house => (
+        <div key={house.id} className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-3">
+          <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">{house.name} • TVs</h4>
+          {getHouseTVs(venue, house.id, true).map(renderTV)}
+        </div>
+      ))}
+
+      <form onSubmit={handleAddTV} className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] flex flex-wrap items-center gap-3">
+        <h4 className="w-full text-xs font-black text-amber-600 uppercase tracking-widest mb-2">Add TV</h4>
+        <input value={newTV.id} onChange={(e) => setNewTV({ ...newTV, id: e.target.value })} placeholder="E1" className={`${inputClass} w-20`} />
+        <input value={newTV.name} onChange={(e) => setNewTV({ ...newTV, name: e.target.value })} placeholder="Display name" className={`${inputClass} flex-grow`} />
+        <select value={newTV.houseId || houses.find(h => h.active)?.id || ''} onChange={(e) => setNewTV({ ...newTV, houseId: e.target.value })} className={inputClass}>
+          {houses.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+        </select>
+        <input type="number" value={newTV.pricePerGame} onChange={(e) => setNewTV({ ...newTV, pricePerGame: Number(e.target.value) })} className={`${inputClass} w-20`} />
+        <button type="submit" className={`${smallButtonClass} bg-amber-500 text-black`}>Add TV</button>
+      </form>
+    </div>
+  );
+};
+
+export default VenueEditor;
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from '../types';
+import { subscribeWebhooks, subscribeWebhookDeliveries, addWebhook, updateWebhook, deleteWebhook, testWebhook, retryWebhookDelivery } from '../services/storage';
+
+const inputClass = 'bg-black/40 border border-amber-900/20 rounded-xl px-3 py-2 text-xs font-black text-amber-500 focus:outline-none focus:border-amber-500 transition-all';
+const smallButtonClass = 'px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest active:scale-95 transition-all';
+
+const EVENT_OPTIONS: { id: WebhookEventType; label: string }[] = [
+  { id: 'game_logged', label: 'Game Logged' },
+  { id: 'game_voided', label: 'Game Voided' },
+  { id: 'game_finished', label: 'Game Finished' },
+  { id: 'yield_alert', label: 'Low Yield Alert' },
+  { id: 'tv_idle', label: 'Idle TV' },
+  { id: 'counter_offline', label: 'Counter Offline' },
+  { id: 'counter_online', label: 'Counter Online' },
+  { id: 'video_request', label: 'Video Request' },
+  { id: 'video_session_ended', label: 'Video Session Ended' },
+  { id: 'price_change', label: 'Price Change' },
+];
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'text-amber-500',
+  delivered: 'text-green-500',
+  failed: 'text-red-500',
+};
+
+const eventLabel = (event: WebhookDelivery['event']) => EVENT_OPTIONS.find(e => e.id === event)?.label ?? 'Test';
+
+const WebhooksEditor: React.FC = () => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ url: string; events: WebhookEventType[] }>({ url: '', events: ['game_logged'] });
+  const [shownSecretId, setShownSecretId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribers = [subscribeWebhooks(setWebhooks), subscribeWebhookDeliveries(setDeliveries)];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  const apply = async (change: Promise<{ webhooks?: Webhook[]; error?: string }>, success?: string) => {
+    const result = await change;
+    if (result.webhooks) {
+      setWebhooks(result.webhooks);
+      setError(null);
+      setNotice(success || null);
+    } else {
+      setError(result.error || 'Change failed');
+      setNotice(null);
+    }
+    return !!result.webhooks;
+  };
+
+  const queue = async (request: Promise<{ delivery?: WebhookDelivery; error?: string }>, success: string) => {
+    const result = await request;
+    setError(result.error || null);
+    setNotice(result.delivery ? success : null);
+  };
+
+  const toggleEvent = (events: WebhookEventType[], event: WebhookEventType) =>
+    events.includes(event) ? events.filter(e => e !== event) : [...events, event];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await apply(addWebhook(draft), `Added ${draft.url}`)) setDraft({ ...draft, url: '' });
+  };
+
+  const handleRotate = (webhook: Webhook) => {
+    if (confirm('Issue a new secret? Receivers checking the old one will reject deliveries until updated.')) {
+      apply(updateWebhook(webhook.id, { rotateSecret: true }), 'New secret issued');
+    }
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (confirm(`Stop sending to ${webhook.url}?`)) apply(deleteWebhook(webhook.id));
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto animate-in fade-in duration-700 pb-12">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-3xl font-black text-amber-500 uppercase tracking-tighter">Webhooks</h2>
+          <p className="text-amber-800 text-[10px] font-bold uppercase tracking-[0.2em]">Signed POSTs to your own systems • Retried with backoff</p>
+        </div>
+        <Link to="/admin" className="px-4 py-2 rounded-xl border border-amber-900/30 text-amber-500 text-[10px] font-black uppercase tracking-widest hover:border-amber-500 transition-all">
+          Back
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-600/10 border border-red-600/40 rounded-2xl text-red-500 text-[10px] font-black uppercase tracking-widest">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-4 bg-green-600/10 border border-green-600/40 rounded-2xl text-green-500 text-[10px] font-black uppercase tracking-widest">
+          {notice}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-4">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-2">Add a Webhook</h4>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="url"
+            required
+            placeholder="https://example.com/hooks/games"
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            className={`${inputClass} flex-grow`}
+          />
+          <button type="submit" disabled={draft.events.length === 0} className={`${smallButtonClass} bg-amber-500 text-black disabled:opacity-40`}>Add Webhook</button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {EVENT_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setDraft({ ...draft, events: toggleEvent(draft.events, option.id) })}
+              className={`${smallButtonClass} border ${draft.events.includes(option.id) ? 'bg-amber-500/10 border-amber-500 text-amber-500' : 'border-amber-900/20 text-amber-900'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </form>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-3">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">Subscriptions</h4>
+        {webhooks.length === 0 && (
+          <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">No webhooks</p>
+        )}
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className={`p-4 bg-black/20 border border-amber-900/5 rounded-2xl space-y-3 ${webhook.active ? '' : 'opacity-60'}`}>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex-grow min-w-0">
+                <p className="text-[10px] text-zinc-300 font-black tracking-tight truncate">{webhook.url}</p>
+                <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">
+                  {webhook.events.map(e => EVENT_OPTIONS.find(o => o.id === e)?.label ?? e).join(' • ')}
+                </p>
+              </div>
+              <button onClick={() => queue(testWebhook(webhook.id), 'Test delivery queued')} className={`${smallButtonClass} border border-amber-900/30 text-amber-500`}>
+                Send Test
+              </button>
+              <button
+                onClick={() => apply(updateWebhook(webhook.id, { active: !webhook.active }))}
+                className={`${smallButtonClass} ${webhook.active ? 'bg-green-600/10 text-green-500' : 'bg-zinc-800 text-zinc-500'}`}
+              >
+                {webhook.active ? 'Active' : 'Paused'}
+              </button>
+              <button onClick={() => handleDelete(webhook)} className={`${smallButtonClass} text-red-500 hover:bg-red-600/10`}>
+                Delete
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-[8px] text-amber-900 font-black uppercase tracking-widest">Secret</span>
+              <code className="text-[10px] text-amber-500 font-mono break-all">
+                {shownSecretId === webhook.id ? webhook.secret : '•'.repeat(16)}
+              </code>
+              <button onClick={() => setShownSecretId(shownSecretId === webhook.id ? null : webhook.id)} className={`${smallButtonClass} text-amber-700`}>
+                {shownSecretId === webhook.id ? 'Hide' : 'Show'}
+              </button>
+              <button onClick={() => handleRotate(webhook)} className={`${smallButtonClass} text-amber-700`}>
+                Rotate
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-zinc-900 border border-amber-900/20 p-8 rounded-[2.5rem] space-y-3">
+        <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-5">Delivery Log</h4>
+        {deliveries.length === 0 && (
+          <p className="text-[10px] text-amber-900 font-black uppercase tracking-widest text-center py-6">Nothing sent yet</p>
+        )}
+        <div className="space-y-2 max-h-[500px] overflow-y-auto pr-2 custom-scrollbar">
+          {deliveries.map(delivery => (
+            <div key={delivery.id} className="flex flex-wrap justify-between items-center gap-3 p-4 bg-black/20 border border-amber-900/5 rounded-2xl">
+              <div className="min-w-0">
+                <p className="text-[10px] text-zinc-300 font-black uppercase tracking-tight">
+                  {eventLabel(delivery.event)} • {new Date(delivery.createdAt).toLocaleString()}
+                </p>
+                <p className="text-[8px] text-amber-800 font-bold tracking-widest truncate">{delivery.url}</p>
+                <p className="text-[8px] text-amber-800 font-bold uppercase tracking-widest">
+                  {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                  {delivery.responseStatus ? ` • HTTP ${delivery.responseStatus}` : ''}
+                  {delivery.status !== 'delivered' && delivery.error ? ` • ${delivery.error}` : ''}
+                  {delivery.status === 'pending' && delivery.nextAttemptAt && delivery.attempts > 0 ? ` • Next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className={`text-[8px] font-black uppercase tracking-widest ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                {delivery.status === 'failed' && (
+                  <button onClick={() => queue(retryWebhookDelivery(delivery.id), 'Retry queued')} className={`${smallButtonClass} border border-amber-900/30 text-amber-500`}>
+                    Retry
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WebhooksEditor;
@@ -1,17 +1,69 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { TV_CONFIGS, HOUSE_NAMES } from '../constants';
-import { GameEntry, HouseId, VideoSession } from '../types';
-import { getStoredGames, saveGames, getTVPrices, getVideoSession, updateVideoSession, sendVideoFrame, sendAudioFrame, sendHeartbeat } from '../services/storage';
+import { GameEntry, GameFinish, GameVoid, HouseId, VideoSession, SyncState, VenueConfig, TVConfig, PriceRule, Shift, ShiftReconciliation, VenueSettings } from '../types';
+import { addGameEntry, requestVoid, hasRole, getSyncState, subscribeSyncState, drainOutbox, acknowledgeDropped, subscribeGames, subscribeVoids, subscribeFinishes, finishGame, subscribePriceRules, getCachedPriceRules, subscribeVenue, getCachedVenue, getOpenShift, closeShift, subscribeSettings, getCachedSettings, subscribeVideoSessions, updateVideoSession, sendVideoFrame, sendAudioFrame, sendHeartbeat } from '../services/storage';
+import { VideoLink, isPeerVideoSupported, startCounterLink } from '../services/videoLink';
+import { getVoidedIds } from '../services/ledger';
+import { UNDO_WINDOW_MS } from '../shared/ledger';
+import { getActiveHouses, getHouseTVs, getTVIndex, getHouseName } from '../services/venue';
+import { resolvePrice } from '../shared/pricing';
+import { getBusinessDayStart } from '../shared/businessDay';
+import ClockInPanel from '../components/ClockInPanel';
+
+const VOID_REASONS = ['Double tap', 'Wrong TV', 'Game not played'];
+
+// This device only keeps the current business day, as the venue settings define it.
+const getDayStart = () => getBusinessDayStart(Date.now(), getCachedSettings());
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Motion is judged on a tiny grey thumbnail: the share of its pixels that
+// changed noticeably since the previous frame.
+const MOTION_SIZE = 32;
+const MOTION_PIXEL_DELTA = 25;
+// How often motion alone is reported while video goes peer to peer
+const MOTION_ONLY_DELAY_MS = 1000;
+
+const idleSession = (houseId: HouseId): VideoSession => ({ houseId, status: 'idle', audioStatus: 'idle', quality: 'medium', viewers: [] });
+
+// Each watching viewer gets a peer connection of its own.
+const getWatchingRtcIds = (session: VideoSession) =>
+  session.viewers.flatMap(v => (v.watching && v.rtcId ? [v.rtcId] : []));
+
+const toGreyThumbnail = (ctx: CanvasRenderingContext2D, source: CanvasImageSource) => {
+  ctx.drawImage(source, 0, 0, MOTION_SIZE, MOTION_SIZE);
+  const { data } = ctx.getImageData(0, 0, MOTION_SIZE, MOTION_SIZE);
+  const grey = new Uint8Array(MOTION_SIZE * MOTION_SIZE);
+  for (let i = 0; i < grey.length; i++) grey[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+  return grey;
+};
 
 const WorkerApp: React.FC = () => {
   const [games, setGames] = useState<GameEntry[]>([]);
-  const [activeHouse, setActiveHouse] = useState<HouseId>('house1');
-  const [customPrices, setCustomPrices] = useState<Record<string, number>>({});
-  const [videoSession, setVideoSession] = useState<VideoSession>({ houseId: null, status: 'idle', quality: 'medium' });
+  const [venue, setVenue] = useState<VenueConfig>(getCachedVenue);
+  const [activeHouse, setActiveHouse] = useState<HouseId>(() => getActiveHouses(getCachedVenue())[0]?.id || 'house1');
+  const [priceRules, setPriceRules] = useState<PriceRule[]>(getCachedPriceRules);
+  const [settings, setSettings] = useState<VenueSettings>(getCachedSettings);
+  const [videoSession, setVideoSession] = useState<VideoSession>(() => idleSession(activeHouse));
   const [isCapturing, setIsCapturing] = useState(false);
   const [permissionError, setPermissionError] = useState<string | null>(null);
   const [showMissedAlert, setShowMissedAlert] = useState(false);
   const [isYieldVisible, setIsYieldVisible] = useState(false);
+  const [voids, setVoids] = useState<GameVoid[]>([]);
+  const [finishes, setFinishes] = useState<GameFinish[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [undoable, setUndoable] = useState<GameEntry | null>(null);
+  const [voidTarget, setVoidTarget] = useState<GameEntry | null>(null);
+  const [syncState, setSyncState] = useState<SyncState>(getSyncState());
+  const [shift, setShift] = useState<Shift | null>(() => getOpenShift(activeHouse));
+  const [shiftError, setShiftError] = useState<string | null>(null);
+  const [isClosingShift, setIsClosingShift] = useState(false);
+  const [cashCount, setCashCount] = useState({ cash: '', mobileMoney: '', note: '' });
+  const [closedShift, setClosedShift] = useState<ShiftReconciliation | null>(null);
+  const [isSubmittingClose, setIsSubmittingClose] = useState(false);
   
   const lastAcknowledgedRequestRef = useRef<number>(parseInt(localStorage.getItem('fifa_last_ack_request') || '0'));
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -19,7 +71,15 @@ const WorkerApp: React.FC = () => {
   const isSendingFrame = useRef(false);
   const activeStream = useRef<MediaStream | null>(null);
   const capturingRef = useRef(false);
-  const isStartingRef = useRef(false);
+  const motionCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastThumbnailRef = useRef<Uint8Array | null>(null);
+  // rtcId -> its link; null while the offer is out or when it couldn't be made
+  const linksRef = useRef(new Map<string, VideoLink | null>());
+  const connectedLinksRef = useRef(new Set<string>());
+  // This house's session as of the latest render, for callbacks that outlive it
+  const videoSessionRef = useRef(videoSession);
+  videoSessionRef.current = videoSession;
+  const longPressRef = useRef<number | null>(null);
 
   // Alert References for Ringing/Vibrating
   const ringtoneRef = useRef<HTMLAudioElement | null>(null);
@@ -32,7 +92,7 @@ const WorkerApp: React.FC = () => {
 
   // Handle Ringing and Vibration for Video Requests
   useEffect(() => {
-    const isRequested = videoSession.status === 'requested' && videoSession.houseId === activeHouse && !isCapturing;
+    const isRequested = videoSession.status === 'requested' && !isCapturing;
     
     if (isRequested) {
       // Start Ringtone
@@ -66,7 +126,27 @@ const WorkerApp: React.FC = () => {
       if (vibrationIntervalRef.current) clearInterval(vibrationIntervalRef.current);
       if (ringtoneRef.current) ringtoneRef.current.pause();
     };
-  }, [videoSession.status, videoSession.houseId, activeHouse, isCapturing]);
+  }, [videoSession.status, isCapturing]);
+
+  useEffect(() => subscribeSyncState(setSyncState), []);
+  useEffect(() => subscribeVenue(setVenue), []);
+
+  const houses = useMemo(() => getActiveHouses(venue), [venue]);
+  const tvIndex = useMemo(() => getTVIndex(venue), [venue]);
+
+  // Follow the venue config if the house this counter was on gets retired
+  useEffect(() => {
+    if (houses.length > 0 && !houses.some(h => h.id === activeHouse)) {
+      setActiveHouse(houses[0].id);
+    }
+  }, [houses, activeHouse]);
+
+  // Undo is only offered briefly after a tap; later mistakes go through a void request
+  useEffect(() => {
+    if (!undoable) return;
+    const timer = window.setTimeout(() => setUndoable(null), UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [undoable]);
 
   // Auto-hide yield after 10 seconds
   useEffect(() => {
@@ -122,7 +202,7 @@ const WorkerApp: React.FC = () => {
           if (isAudioStreaming.current) {
             const inputData = e.inputBuffer.getChannelData(0);
             const pcmBase64 = createPCMFrame(inputData);
-            sendAudioFrame(pcmBase64);
+            sendAudioFrame(videoSessionRef.current.houseId, pcmBase64);
           }
         };
         
@@ -144,10 +224,7 @@ const WorkerApp: React.FC = () => {
       localStorage.setItem('fifa_last_ack_request', lastAcknowledgedRequestRef.current.toString());
     }
 
-    await updateVideoSession({ 
-      lastOnlineSignalTime: Date.now(),
-      houseId: activeHouse
-    });
+    await updateVideoSession(activeHouse, { lastOnlineSignalTime: Date.now() });
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ 
@@ -170,103 +247,207 @@ const WorkerApp: React.FC = () => {
     }
   };
 
-  const loadData = async () => {
-    const [fetchedGames, fetchedPrices, fetchedVideo] = await Promise.all([
-      getStoredGames(),
-      getTVPrices(),
-      getVideoSession()
-    ]);
-    setGames(fetchedGames);
-    setCustomPrices(fetchedPrices);
-    setVideoSession(fetchedVideo);
-
-    if (fetchedVideo.lastRequestTime && 
-        fetchedVideo.lastRequestTime > lastAcknowledgedRequestRef.current && 
-        fetchedVideo.lastRequestedHouseId === activeHouse) {
-      setShowMissedAlert(true);
-    }
-    
+  // The counter phone is the heartbeat source for its house; everything else
+  // arrives over the live channel (or its polling fallback).
+  useEffect(() => {
     initAudioMonitoring();
-  };
+    sendHeartbeat(activeHouse);
+    const heartbeat = setInterval(() => sendHeartbeat(activeHouse), 4000);
+    const unsubscribers = [
+      subscribeGames(getDayStart, (refreshedGames) => {
+        setGames((prev: GameEntry[]) => {
+          const localMap = new Map<string, GameEntry>(prev.map(g => [g.id, g]));
+          refreshedGames.forEach((g: GameEntry) => localMap.set(g.id, g));
+          return Array.from(localMap.values()).sort((a: GameEntry, b: GameEntry) => a.timestamp - b.timestamp);
+        });
+      }),
+      subscribeVoids(setVoids),
+      subscribeFinishes(getDayStart, setFinishes),
+      subscribePriceRules(setPriceRules),
+      subscribeSettings(setSettings),
+    ];
+    return () => {
+      clearInterval(heartbeat);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [activeHouse]);
 
+  // Another house's session has nothing to do with this counter; if it was
+  // streaming, the idle session below stops the camera.
   useEffect(() => {
-    loadData();
-    const interval = setInterval(async () => {
-      sendHeartbeat(activeHouse);
-
-      const refreshedVideo = await getVideoSession();
-      setVideoSession(refreshedVideo);
-      
-      isAudioStreaming.current = refreshedVideo.audioStatus === 'active';
-      
-      if (refreshedVideo.status === 'requested' && 
-          refreshedVideo.houseId === activeHouse && 
-          !isCapturing && !isStartingRef.current) {
-          isStartingRef.current = true;
-          // Note: Manual pick up required to stop the ringing
-          isStartingRef.current = false;
-      }
+    setVideoSession(idleSession(activeHouse));
+    isAudioStreaming.current = false;
+  }, [activeHouse]);
+
+  useEffect(() => subscribeVideoSessions((sessions) => {
+    const refreshedVideo = sessions.find(s => s.houseId === activeHouse);
+    if (!refreshedVideo) return;
+    setVideoSession(refreshedVideo);
+    isAudioStreaming.current = refreshedVideo.audioStatus === 'active';
+
+    // Note: Manual pick up required to stop the ringing
+    if (refreshedVideo.lastRequestTime && 
+        refreshedVideo.lastRequestTime > lastAcknowledgedRequestRef.current && 
+        !isCapturing && 
+        refreshedVideo.status !== 'requested') {
+        setShowMissedAlert(true);
+    }
+  }), [activeHouse, isCapturing]);
 
-      if (refreshedVideo.lastRequestTime && 
-          refreshedVideo.lastRequestTime > lastAcknowledgedRequestRef.current && 
-          refreshedVideo.lastRequestedHouseId === activeHouse && 
-          !isCapturing && 
-          refreshedVideo.status !== 'requested') {
-          setShowMissedAlert(true);
-      }
-      
-      const refreshedGames = await getStoredGames();
-      setGames((prev: GameEntry[]) => {
-        const localMap = new Map<string, GameEntry>(prev.map(g => [g.id, g]));
-        refreshedGames.forEach((g: GameEntry) => localMap.set(g.id, g));
-        return Array.from(localMap.values()).sort((a: GameEntry, b: GameEntry) => a.timestamp - b.timestamp);
-      });
-    }, 4000);
-    return () => clearInterval(interval);
-  }, [activeHouse, isCapturing]);
+  useEffect(() => {
+    setShift(getOpenShift(activeHouse));
+    setShiftError(null);
+  }, [activeHouse]);
 
-  const handleAddGame = (tvId: string, amount: number) => {
+  // A provisional shift is confirmed, or dropped, when its clock-in syncs.
+  useEffect(() => {
+    if (shift?.provisional) setShift(getOpenShift(activeHouse));
+  }, [syncState]);
+
+  // The count is blind: the attendant only sees the system figure once the
+  // shift has been closed.
+  const handleCloseShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmittingClose(true);
+    const result = await closeShift(activeHouse, {
+      cash: Number(cashCount.cash) || 0,
+      mobileMoney: Number(cashCount.mobileMoney) || 0,
+      note: cashCount.note,
+    });
+    setIsSubmittingClose(false);
+    if (result.reconciliation) {
+      setClosedShift(result.reconciliation);
+      setCashCount({ cash: '', mobileMoney: '', note: '' });
+      setShiftError(null);
+    } else {
+      setShiftError(result.error || 'Could not close shift');
+    }
+  };
+
+  const handleFinishClose = () => {
+    setClosedShift(null);
+    setIsClosingShift(false);
+    setShift(null);
+  };
+
+  const handleFinishGame = (tvId: string) => {
+    const running = runningGames.get(tvId);
+    if (!running) return;
+    const finish: GameFinish = { gameId: running.id, endedAt: Date.now() };
+    setFinishes(prev => [...prev, finish]);
+    finishGame(finish.gameId, finish.endedAt);
+  };
+
+  // The price is resolved at the moment of the tap so scheduled rules (morning
+  // rates, weekend surcharges) apply to exactly the games they cover. With
+  // timed games on, the tap starts the game instead, and starting the next one
+  // finishes whatever was still running on that TV.
+  const handleAddGame = (tv: TVConfig) => {
+    if (!shift) return;
+    handleFinishGame(tv.id);
+    const timestamp = Date.now();
     const newGame: GameEntry = { 
       id: Math.random().toString(36).substr(2, 9), 
-      tvId, 
-      timestamp: Date.now(), 
-      completed: true, 
-      amount 
+      tvId: tv.id, 
+      timestamp, 
+      completed: !settings.timedGames, 
+      amount: resolvePrice(priceRules, tv, timestamp, settings.timeZone).price,
+      workerId: shift.workerId,
+      shiftId: shift.id
     };
     
-    setGames(prev => {
-      const next = [...prev, newGame];
-      setTimeout(() => saveGames(next), 0);
-      return next;
-    });
+    setGames(prev => [...prev, newGame]);
+    setUndoable(newGame);
+    addGameEntry(newGame);
   };
 
   const handleAddSeparator = (tvId: string) => {
+    if (!shift) return;
+    handleFinishGame(tvId);
     const newSep: GameEntry = { 
       id: Math.random().toString(36).substr(2, 9), 
       tvId, 
       timestamp: Date.now(), 
       completed: true, 
       amount: 0, 
-      isSeparator: true 
+      isSeparator: true,
+      workerId: shift.workerId,
+      shiftId: shift.id
     };
-    setGames(prev => {
-      const next = [...prev, newSep];
-      setTimeout(() => saveGames(next), 0);
-      return next;
-    });
+    setGames(prev => [...prev, newSep]);
+    addGameEntry(newSep);
+  };
+
+  const handleUndo = async () => {
+    if (!undoable) return;
+    const target = undoable;
+    setUndoable(null);
+    const tombstone = await requestVoid(target.id, 'Undone at counter', 'undo');
+    setVoids(prev => [...prev.filter(v => v.id !== tombstone.id), tombstone]);
+  };
+
+  const handleRequestVoid = async (reason: string) => {
+    if (!voidTarget) return;
+    const target = voidTarget;
+    setVoidTarget(null);
+    const tombstone = await requestVoid(target.id, reason, 'request');
+    setVoids(prev => [...prev.filter(v => v.id !== tombstone.id), tombstone]);
+  };
+
+  const startLongPress = (entry: GameEntry) => {
+    longPressRef.current = window.setTimeout(() => {
+      longPressRef.current = null;
+      if ('vibrate' in navigator) navigator.vibrate(50);
+      setVoidTarget(entry);
+    }, 600);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) {
+      clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  };
+
+  // Sent with each frame so the server can tell a busy room from an empty one.
+  const measureMotion = (video: HTMLVideoElement) => {
+    if (!motionCanvasRef.current) {
+      motionCanvasRef.current = document.createElement('canvas');
+      motionCanvasRef.current.width = MOTION_SIZE;
+      motionCanvasRef.current.height = MOTION_SIZE;
+    }
+    const ctx = motionCanvasRef.current.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return 0;
+    const thumbnail = toGreyThumbnail(ctx, video);
+    const previous = lastThumbnailRef.current;
+    lastThumbnailRef.current = thumbnail;
+    if (!previous) return 0;
+    let changed = 0;
+    for (let i = 0; i < thumbnail.length; i++) {
+      if (Math.abs(thumbnail[i] - previous[i]) > MOTION_PIXEL_DELTA) changed++;
+    }
+    return changed / thumbnail.length;
   };
 
   const frameLoop = async () => {
     if (!capturingRef.current || !videoRef.current || !canvasRef.current) return;
 
     const video = videoRef.current;
-    if (video.readyState >= 2 && !isSendingFrame.current) {
+    if (video.readyState >= 2 && !isSendingFrame.current && allViewersLinked()) {
+      // Every viewer gets the picture peer to peer; the server still wants motion
+      isSendingFrame.current = true;
+      try {
+        await sendVideoFrame(videoSessionRef.current.houseId, null, measureMotion(video));
+      } finally {
+        isSendingFrame.current = false;
+      }
+      if (capturingRef.current) setTimeout(() => requestAnimationFrame(frameLoop), MOTION_ONLY_DELAY_MS);
+    } else if (video.readyState >= 2 && !isSendingFrame.current) {
       const ctx = canvasRef.current.getContext('2d');
       if (ctx) {
         isSendingFrame.current = true;
         
-        const quality = videoSession.quality || 'medium';
+        const quality = videoSessionRef.current.quality;
         let width = 360, height = 480, compression = 0.5, delay = 100;
 
         if (quality === 'low') {
@@ -279,9 +460,10 @@ const WorkerApp: React.FC = () => {
         canvasRef.current.height = height;
         ctx.drawImage(video, 0, 0, width, height);
         const frameData = canvasRef.current.toDataURL('image/jpeg', compression);
+        const motion = measureMotion(video);
         
         try {
-          await sendVideoFrame(frameData);
+          await sendVideoFrame(videoSessionRef.current.houseId, frameData, motion);
         } catch (e) {
           console.warn("Frame drop due to network");
         } finally {
@@ -299,6 +481,7 @@ const WorkerApp: React.FC = () => {
 
   useEffect(() => {
     capturingRef.current = isCapturing;
+    lastThumbnailRef.current = null;
     if (isCapturing) {
       frameLoop();
     }
@@ -311,7 +494,7 @@ const WorkerApp: React.FC = () => {
             video.srcObject = activeStream.current;
             video.onloadedmetadata = () => {
                 video.play().then(() => {
-                    updateVideoSession({ status: 'active' });
+                    updateVideoSession(videoSessionRef.current.houseId, { status: 'active' });
                 }).catch(err => {
                     console.error("Video playback failed:", err);
                 });
@@ -320,9 +503,50 @@ const WorkerApp: React.FC = () => {
     }
   }, [isCapturing]);
 
+  // Frames keep flowing through the server until every viewer's peer link
+  // connects, and again whenever one drops.
+  const allViewersLinked = () => {
+    const rtcIds = getWatchingRtcIds(videoSessionRef.current);
+    return rtcIds.length > 0 && rtcIds.every(id => connectedLinksRef.current.has(id));
+  };
+
+  const startPeerLink = async (rtcId: string) => {
+    if (!activeStream.current || !isPeerVideoSupported()) return;
+    linksRef.current.set(rtcId, null);
+    try {
+      const link = await startCounterLink(activeStream.current, rtcId, videoSessionRef.current.quality, (state) => {
+        if (state === 'connected') connectedLinksRef.current.add(rtcId);
+        else connectedLinksRef.current.delete(rtcId);
+      });
+      // The viewer may have left, or the camera stopped, while the offer was out
+      if (linksRef.current.has(rtcId)) linksRef.current.set(rtcId, link);
+      else link.close();
+    } catch (e) {
+      console.warn("Peer video unavailable, sending frames:", e);
+    }
+  };
+
+  const stopPeerLink = (rtcId: string) => {
+    linksRef.current.get(rtcId)?.close();
+    linksRef.current.delete(rtcId);
+    connectedLinksRef.current.delete(rtcId);
+  };
+
+  const watchingKey = getWatchingRtcIds(videoSession).join(',');
+  useEffect(() => {
+    const rtcIds = isCapturing && videoSession.status === 'active' ? getWatchingRtcIds(videoSession) : [];
+    Array.from(linksRef.current.keys()).filter(id => !rtcIds.includes(id)).forEach(stopPeerLink);
+    rtcIds.filter(id => !linksRef.current.has(id)).forEach(startPeerLink);
+  }, [isCapturing, videoSession.status, watchingKey]);
+
+  useEffect(() => {
+    linksRef.current.forEach(link => link?.setQuality(videoSession.quality));
+  }, [videoSession.quality]);
+
   const handleStopLocalView = () => {
     setIsCapturing(false);
     capturingRef.current = false;
+    Array.from(linksRef.current.keys()).forEach(stopPeerLink);
     if (activeStream.current) {
       activeStream.current.getTracks().forEach(t => t.stop());
       activeStream.current = null;
@@ -335,17 +559,39 @@ const WorkerApp: React.FC = () => {
     }
   }, [videoSession.status]);
 
-  const currentHouseTVs = TV_CONFIGS.filter(tv => tv.houseId === activeHouse);
-  const dayStart = useMemo(() => {
-    const d = new Date(); d.setHours(7,0,0,0); 
-    if (new Date().getHours() < 7) d.setDate(d.getDate() - 1);
-    return d.getTime();
-  }, [games]);
+  const currentHouseTVs = getHouseTVs(venue, activeHouse);
+  const dayStart = useMemo(() => getDayStart(), [games, settings]);
+
+  const voidedIds = useMemo(() => getVoidedIds(voids), [voids]);
+  const pendingVoidIds = useMemo(() => new Set(voids.filter(v => v.status === 'pending').map(v => v.gameId)), [voids]);
+
+  // The game still being played on each TV, if any. Only timed games start
+  // out incomplete, and each TV runs one at a time.
+  const runningGames = useMemo(() => {
+    const finishedIds = new Set(finishes.map(f => f.gameId));
+    const running = new Map<string, GameEntry>();
+    games
+      .filter(g => !g.completed && !g.isSeparator && g.timestamp >= dayStart && !voidedIds.has(g.id) && !finishedIds.has(g.id))
+      .forEach(g => running.set(g.tvId, g));
+    return running;
+  }, [games, finishes, dayStart, voidedIds]);
+
+  // Tick the on-screen timers only while a game is running.
+  useEffect(() => {
+    if (runningGames.size === 0) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [runningGames.size]);
+
+  // The attendant counts the drawer blind at close, so the counter doesn't
+  // show what the system expects while a shift is open.
+  const canSeeYield = !shift || hasRole(['owner', 'manager']);
 
   const hStats = useMemo(() => {
-    const g = games.filter(x => x.timestamp >= dayStart && TV_CONFIGS.find(t => t.id === x.tvId)?.houseId === activeHouse);
+    const g = games.filter(x => x.timestamp >= dayStart && !voidedIds.has(x.id) && (x.houseId ?? tvIndex.get(x.tvId)?.houseId) === activeHouse);
     return { revenue: g.reduce((a,c) => a+c.amount, 0) };
-  }, [games, activeHouse, dayStart]);
+  }, [games, activeHouse, dayStart, voidedIds, tvIndex]);
 
   return (
     <div className="flex flex-col h-[calc(100vh-12rem)] max-w-5xl mx-auto relative animate-in fade-in duration-500">
@@ -371,7 +617,7 @@ const WorkerApp: React.FC = () => {
         </div>
       )}
 
-      {videoSession.status === 'requested' && videoSession.houseId === activeHouse && !isCapturing && !showMissedAlert && (
+      {videoSession.status === 'requested' && !isCapturing && !showMissedAlert && (
         <div className="fixed inset-0 z-[200] bg-black/90 flex items-center justify-center p-4 backdrop-blur-xl">
           <div className="w-full max-sm bg-zinc-950 border border-amber-500 rounded-[3rem] p-10 text-center shadow-2xl shadow-amber-500/20">
             <h2 className="text-2xl font-black text-amber-500 uppercase tracking-tighter mb-4 animate-bounce">Observation Request</h2>
@@ -394,6 +640,95 @@ const WorkerApp: React.FC = () => {
         </div>
       )}
 
+      {voidTarget && (
+        <div className="fixed inset-0 z-[180] bg-black/90 flex items-center justify-center p-4 backdrop-blur-xl" onClick={() => setVoidTarget(null)}>
+          <div className="w-full max-w-sm bg-zinc-950 border border-amber-900/40 rounded-[2.5rem] p-8 text-center" onClick={(ev) => ev.stopPropagation()}>
+            <h2 className="text-xl font-black text-amber-500 uppercase tracking-tighter mb-2">Void Game</h2>
+            <p className="text-amber-800 text-[10px] font-black uppercase tracking-[0.2em] mb-8">
+              {tvIndex.get(voidTarget.tvId)?.name || voidTarget.tvId} • {new Date(voidTarget.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })} • Owner must approve
+            </p>
+            <div className="space-y-3">
+              {VOID_REASONS.map(reason => (
+                <button 
+                  key={reason} 
+                  onClick={() => handleRequestVoid(reason)} 
+                  className="w-full py-4 bg-zinc-900 border border-amber-900/30 hover:border-amber-500 rounded-2xl text-amber-500 text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all"
+                >
+                  {reason}
+                </button>
+              ))}
+              <button 
+                onClick={() => setVoidTarget(null)} 
+                className="w-full py-3 text-amber-900 text-[10px] font-black uppercase tracking-widest"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isClosingShift && shift && (
+        <div className="fixed inset-0 z-[180] bg-black/90 flex items-center justify-center p-4 backdrop-blur-xl">
+          <div className="w-full max-w-sm bg-zinc-950 border border-amber-900/40 rounded-[2.5rem] p-8 text-center">
+            <h2 className="text-xl font-black text-amber-500 uppercase tracking-tighter mb-2">Close Shift</h2>
+            <p className="text-amber-800 text-[10px] font-black uppercase tracking-[0.2em] mb-8">
+              {shift.workerName} • {getHouseName(venue, shift.houseId)}
+            </p>
+            {closedShift ? (
+              <div className="space-y-3">
+                {[
+                  ['System yield', closedShift.expected],
+                  ['Counted', closedShift.cash + closedShift.mobileMoney],
+                ].map(([label, value]) => (
+                  <div key={label} className="flex justify-between px-4 py-3 bg-zinc-900 rounded-2xl text-[10px] font-black uppercase tracking-widest">
+                    <span className="text-amber-800">{label}</span>
+                    <span className="text-amber-500 tabular-nums">{value.toLocaleString()} ETB</span>
+                  </div>
+                ))}
+                <div className={`flex justify-between px-4 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest ${closedShift.difference < 0 ? 'bg-red-600/10 text-red-500' : closedShift.difference > 0 ? 'bg-amber-500/10 text-amber-500' : 'bg-green-600/10 text-green-500'}`}>
+                  <span>{closedShift.difference < 0 ? 'Short' : closedShift.difference > 0 ? 'Over' : 'Balanced'}</span>
+                  <span className="tabular-nums">{Math.abs(closedShift.difference).toLocaleString()} ETB</span>
+                </div>
+                <button onClick={handleFinishClose} className="w-full mt-4 py-4 bg-amber-500 text-black rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all">
+                  Done
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleCloseShift} className="space-y-3">
+                <input
+                  type="number" inputMode="decimal" min={0} required autoFocus
+                  value={cashCount.cash}
+                  onChange={(e) => setCashCount({ ...cashCount, cash: e.target.value })}
+                  placeholder="Cash counted (ETB)"
+                  className="w-full bg-zinc-900 border border-amber-900/30 rounded-2xl px-6 py-4 text-center text-amber-500 font-black placeholder:text-amber-900/40 focus:outline-none focus:border-amber-500"
+                />
+                <input
+                  type="number" inputMode="decimal" min={0}
+                  value={cashCount.mobileMoney}
+                  onChange={(e) => setCashCount({ ...cashCount, mobileMoney: e.target.value })}
+                  placeholder="Mobile money (ETB)"
+                  className="w-full bg-zinc-900 border border-amber-900/30 rounded-2xl px-6 py-4 text-center text-amber-500 font-black placeholder:text-amber-900/40 focus:outline-none focus:border-amber-500"
+                />
+                <input
+                  value={cashCount.note}
+                  onChange={(e) => setCashCount({ ...cashCount, note: e.target.value })}
+                  placeholder="Note (optional)"
+                  className="w-full bg-zinc-900 border border-amber-900/30 rounded-2xl px-6 py-3 text-center text-amber-500 text-xs font-black placeholder:text-amber-900/40 focus:outline-none focus:border-amber-500"
+                />
+                {shiftError && <p className="text-red-500 text-[9px] font-black uppercase tracking-widest">{shiftError}</p>}
+                <button type="submit" disabled={isSubmittingClose} className="w-full py-4 bg-amber-500 text-black rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all disabled:opacity-30">
+                  {isSubmittingClose ? 'Syncing...' : 'Submit Count & Clock Out'}
+                </button>
+                <button type="button" onClick={() => { setIsClosingShift(false); setShiftError(null); }} className="w-full py-3 text-amber-900 text-[10px] font-black uppercase tracking-widest">
+                  Cancel
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+
       {isCapturing && (
         <div className="fixed inset-0 z-[250] bg-black flex flex-col items-center justify-center animate-in zoom-in duration-500">
           <video ref={videoRef} className="fixed opacity-0 pointer-events-none" muted playsInline />
@@ -411,86 +746,154 @@ const WorkerApp: React.FC = () => {
         </div>
       )}
 
+      {(syncState.pending > 0 || syncState.lastError || syncState.dropped > 0) && (
+        <button 
+          onClick={() => {
+            acknowledgeDropped();
+            drainOutbox();
+          }} 
+          className={`flex-none mb-4 mx-2 px-4 py-2 rounded-xl border flex items-center justify-between text-[9px] font-black uppercase tracking-widest transition-all active:scale-[0.98] ${syncState.lastError || syncState.dropped > 0 ? 'bg-red-600/10 border-red-600/40 text-red-500' : 'bg-amber-500/5 border-amber-900/30 text-amber-600'}`}
+        >
+          <span className="flex items-center gap-2">
+            <span className={`w-1.5 h-1.5 rounded-full animate-pulse ${syncState.lastError || syncState.dropped > 0 ? 'bg-red-500' : 'bg-amber-500'}`}></span>
+            {syncState.pendingGames > 0
+              ? `${syncState.pendingGames} ${syncState.pendingGames === 1 ? 'game' : 'games'} not yet synced`
+              : syncState.pending > 0 ? `${syncState.pending} changes not yet synced`
+              : syncState.dropped > 0 ? `${syncState.dropped} ${syncState.dropped === 1 ? 'change' : 'changes'} refused by server` : 'Sync problem'}
+            {syncState.lastError && ` • ${syncState.lastError}`}
+          </span>
+          <span className="text-amber-800">
+            {syncState.lastSyncAt ? `Last sync ${new Date(syncState.lastSyncAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}` : 'Never synced'} • Retry
+          </span>
+        </button>
+      )}
+
       <div className="flex-none flex items-center justify-between mb-6 px-2">
         <div className="flex p-1 bg-zinc-900 border border-amber-900/30 rounded-2xl shadow-lg">
-          {(['house1', 'house2'] as HouseId[]).map((hId) => (
+          {houses.map((house) => (
             <button 
-              key={hId} 
-              onClick={() => setActiveHouse(hId)} 
-              className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all duration-300 ${activeHouse === hId ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20 scale-105' : 'text-amber-800 hover:text-amber-600'}`}
+              key={house.id} 
+              onClick={() => setActiveHouse(house.id)} 
+              className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all duration-300 ${activeHouse === house.id ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20 scale-105' : 'text-amber-800 hover:text-amber-600'}`}
             >
-              {HOUSE_NAMES[hId]}
+              {house.name}
             </button>
           ))}
         </div>
-        <div className="text-right flex items-center gap-3">
-          <div className="text-right">
-            <p className="text-[10px] text-amber-800 font-black uppercase tracking-widest">Yield</p>
-            <p className="text-2xl font-black text-amber-500 tracking-tighter tabular-nums">
-              {isYieldVisible ? hStats.revenue.toLocaleString() : '*'.repeat(hStats.revenue.toLocaleString().length)} 
-              <span className="text-xs ml-1">ETB</span>
-            </p>
+        {canSeeYield && (
+          <div className="text-right flex items-center gap-3">
+            <div className="text-right">
+              <p className="text-[10px] text-amber-800 font-black uppercase tracking-widest">Yield</p>
+              <p className="text-2xl font-black text-amber-500 tracking-tighter tabular-nums">
+                {isYieldVisible ? hStats.revenue.toLocaleString() : '*'.repeat(hStats.revenue.toLocaleString().length)} 
+                <span className="text-xs ml-1">ETB</span>
+              </p>
+            </div>
+            <button 
+              onClick={() => setIsYieldVisible(!isYieldVisible)}
+              className={`p-2 rounded-lg transition-all border ${isYieldVisible ? 'bg-amber-500 text-black border-amber-400' : 'text-amber-600 border-amber-900/30 hover:border-amber-500 hover:bg-amber-500/5'}`}
+            >
+              {isYieldVisible ? (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l18 18" />
+                </svg>
+              ) : (
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                </svg>
+              )}
+            </button>
           </div>
-          <button 
-            onClick={() => setIsYieldVisible(!isYieldVisible)}
-            className={`p-2 rounded-lg transition-all border ${isYieldVisible ? 'bg-amber-500 text-black border-amber-400' : 'text-amber-600 border-amber-900/30 hover:border-amber-500 hover:bg-amber-500/5'}`}
-          >
-            {isYieldVisible ? (
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l18 18" />
-              </svg>
-            ) : (
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-              </svg>
-            )}
+        )}
+      </div>
+
+      {shift && (
+        <div className="flex-none mb-4 mx-2 px-4 py-2 rounded-xl border border-amber-900/30 bg-zinc-900/60 flex items-center justify-between text-[9px] font-black uppercase tracking-widest">
+          <span className="text-amber-600">
+            On duty • {shift.workerName} • since {new Date(shift.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+            {shift.provisional && ' • Offline clock-in, not yet confirmed'}
+          </span>
+          <button onClick={() => setIsClosingShift(true)} className="text-amber-800 hover:text-amber-500 transition-all">
+            Close Shift
           </button>
         </div>
-      </div>
+      )}
 
-      <div className="flex-grow grid grid-cols-2 gap-4 h-full pb-6 overflow-y-auto custom-scrollbar">
-        {currentHouseTVs.map((tv) => {
-          const tvEntries = games.filter(g => g.tvId === tv.id && g.timestamp >= dayStart);
-          const price = customPrices[tv.id] ?? tv.pricePerGame;
-          let counter = 0;
-          return (
-            <div key={tv.id} className="bg-zinc-900/60 border border-amber-900/20 rounded-[2rem] flex flex-col overflow-hidden shadow-xl hover:border-amber-500/30 transition-all duration-500">
-              <div className="bg-black/60 px-5 py-4 border-b border-amber-900/20 flex justify-between items-center">
-                <h3 className="text-amber-500 font-black text-xs uppercase tracking-widest">{tv.name}</h3>
-                <span className="text-[10px] text-amber-700 font-black tabular-nums">{tvEntries.filter(e => !e.isSeparator).length} Games</span>
-              </div>
-              <div className="flex-grow p-4 overflow-y-auto">
-                <div className="grid grid-cols-3 gap-2">
-                  {tvEntries.map((e) => {
-                    if (e.isSeparator) { counter = 0; return <div key={e.id} className="col-span-3 h-[1px] bg-amber-900/30 my-2" /> }
-                    counter++;
-                    return (
-                      <div key={e.id} className="aspect-square bg-amber-500 rounded-xl flex items-center justify-center text-black font-black text-sm shadow-md animate-in zoom-in duration-300">
-                        {counter}
-                      </div>
-                    )
-                  })}
-                  <div className="col-span-3 grid grid-cols-2 gap-3 mt-2">
-                    <button 
-                      onClick={() => handleAddGame(tv.id, price)} 
-                      className="h-16 bg-amber-500/5 border-2 border-dashed border-amber-500/40 rounded-2xl text-amber-500 font-black text-3xl hover:bg-amber-500/10 hover:border-amber-500 active:scale-90 transition-all shadow-sm"
-                    >
-                      +
-                    </button>
-                    <button 
-                      onClick={() => handleAddSeparator(tv.id)} 
-                      className="h-16 border-2 border-dashed border-amber-900/20 rounded-2xl text-[9px] font-black text-amber-900 hover:text-amber-700 hover:border-amber-700 uppercase tracking-widest transition-all"
-                    >
-                      R
-                    </button>
+      {!shift ? (
+        <ClockInPanel houseId={activeHouse} houseName={getHouseName(venue, activeHouse)} onClockedIn={setShift} />
+      ) : (
+        <div className="flex-grow grid grid-cols-2 gap-4 h-full pb-6 overflow-y-auto custom-scrollbar">
+          {currentHouseTVs.map((tv) => {
+            const tvEntries = games.filter(g => g.tvId === tv.id && g.timestamp >= dayStart && !voidedIds.has(g.id));
+            const running = runningGames.get(tv.id);
+            let counter = 0;
+            return (
+              <div key={tv.id} className="bg-zinc-900/60 border border-amber-900/20 rounded-[2rem] flex flex-col overflow-hidden shadow-xl hover:border-amber-500/30 transition-all duration-500">
+                <div className="bg-black/60 px-5 py-4 border-b border-amber-900/20 flex justify-between items-center">
+                  <h3 className="text-amber-500 font-black text-xs uppercase tracking-widest">{tv.name}</h3>
+                  {running ? (
+                    <span className="text-[10px] text-green-500 font-black tabular-nums animate-pulse">▶ {formatElapsed(now - running.timestamp)}</span>
+                  ) : (
+                    <span className="text-[10px] text-amber-700 font-black tabular-nums">{tvEntries.filter(e => !e.isSeparator).length} Games</span>
+                  )}
+                </div>
+                <div className="flex-grow p-4 overflow-y-auto">
+                  <div className="grid grid-cols-3 gap-2">
+                    {tvEntries.map((e) => {
+                      if (e.isSeparator) { counter = 0; return <div key={e.id} className="col-span-3 h-[1px] bg-amber-900/30 my-2" /> }
+                      counter++;
+                      const isPendingVoid = pendingVoidIds.has(e.id);
+                      return (
+                        <div 
+                          key={e.id} 
+                          onPointerDown={() => !isPendingVoid && startLongPress(e)}
+                          onPointerUp={cancelLongPress}
+                          onPointerLeave={cancelLongPress}
+                          onContextMenu={(ev) => ev.preventDefault()}
+                          className={`aspect-square rounded-xl flex items-center justify-center font-black text-sm shadow-md animate-in zoom-in duration-300 select-none ${isPendingVoid ? 'bg-zinc-800 text-amber-700 line-through border border-dashed border-amber-700' : e.id === running?.id ? 'bg-green-500 text-black' : 'bg-amber-500 text-black'}`}
+                        >
+                          {counter}
+                        </div>
+                      )
+                    })}
+                    {undoable?.tvId === tv.id && (
+                      <button 
+                        onClick={handleUndo} 
+                        className="col-span-3 mt-2 py-2 bg-red-600/10 border border-red-600/40 rounded-xl text-red-500 text-[9px] font-black uppercase tracking-widest active:scale-95 transition-all animate-in fade-in"
+                      >
+                        Undo Last Game
+                      </button>
+                    )}
+                    {running && (
+                      <button
+                        onClick={() => handleFinishGame(tv.id)}
+                        className="col-span-3 mt-2 py-3 bg-green-500/10 border border-green-500/40 rounded-xl text-green-500 text-[9px] font-black uppercase tracking-widest active:scale-95 transition-all"
+                      >
+                        Finish Game • {formatElapsed(now - running.timestamp)}
+                      </button>
+                    )}
+                    <div className="col-span-3 grid grid-cols-2 gap-3 mt-2">
+                      <button 
+                        onClick={() => handleAddGame(tv)} 
+                        className="h-16 bg-amber-500/5 border-2 border-dashed border-amber-500/40 rounded-2xl text-amber-500 font-black text-3xl hover:bg-amber-500/10 hover:border-amber-500 active:scale-90 transition-all shadow-sm"
+                      >
+                        +
+                      </button>
+                      <button 
+                        onClick={() => handleAddSeparator(tv.id)} 
+                        className="h-16 border-2 border-dashed border-amber-900/20 rounded-2xl text-[9px] font-black text-amber-900 hover:text-amber-700 hover:border-amber-700 uppercase tracking-widest transition-all"
+                      >
+                        R
+                      </button>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          );
-        })}
-      </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
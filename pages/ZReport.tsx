@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { VenueSettings, ZReport as ZReportData, ZReportSummary } from '../types';
+import { getZReports, getZReport, generateZReport, subscribeSettings, getCachedSettings } from '../services/storage';
+import { getBusinessDayKey } from '../shared/businessDay';
+
+const smallButtonClass = 'px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all disabled:opacity-30';
+
+const formatDifference = (n: number) => `${n > 0 ? '+' : ''}${n.toLocaleString()}`;
+
+const ZReport: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [settings, setSettings] = useState<VenueSettings>(getCachedSettings);
+  const [archive, setArchive] = useState<ZReportSummary[]>([]);
+  const [report, setReport] = useState<ZReportData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Closing time falls inside the business day being closed, so that is the
+  // day to open with.
+  const day = searchParams.get('day') || getBusinessDayKey(Date.now(), settings);
+
+  useEffect(() => subscribeSettings(setSettings), []);
+  useEffect(() => { getZReports().then(setArchive); }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getZReport(day).then(found => {
+      if (cancelled) return;
+      setReport(found);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [day]);
+
+  const handleGenerate = async (replace: boolean) => {
+    setIsGenerating(true);
+    const result = await generateZReport(day, replace);
+    setIsGenerating(false);
+    if (result.report) {
+      setReport(result.report);
+      setError(null);
+      getZReports().then(setArchive);
+    } else {
+      setError(result.error || 'Report failed');
+    }
+  };
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleTimeString([], { timeZone: settings.timeZone, hour: '2-digit', minute: '2-digit', hour12: false });
+  const formatDateTime = (time: number) =>
+    new Date(time).toLocaleString([], { timeZone: settings.timeZone, dateStyle: 'medium', timeStyle: 'short', hour12: false });
+
+  return (
+    <div className="space-y-6 max-w-5xl mx-auto animate-in fade-in duration-700 pb-12 print:max-w-none print:pb-0">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 print:hidden">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-3xl font-black text-amber-500 uppercase tracking-tighter">Z-Report</h2>
+          <p className="text-amber-800 text-[10px] font-bold uppercase tracking-[0.2em]">End of business day • Archived when generated</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            type="date"
+            value={day}
+            onChange={(e) => e.target.value && setSearchParams({ day: e.target.value })}
+            className="bg-zinc-900 border border-amber-900/20 rounded-xl px-3 py-2 text-[10px] font-black text-amber-500 uppercase tracking-widest focus:outline-none focus:border-amber-500 [color-scheme:dark]"
+          />
+          <Link to="/admin" className="px-4 py-2 rounded-xl border border-amber-900/30 text-amber-500 text-[10px] font-black uppercase tracking-widest hover:border-amber-500 transition-all">
+            Back
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-600/10 border border-red-600/40 rounded-2xl text-red-500 text-[10px] font-black uppercase tracking-widest print:hidden">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_14rem] gap-6 print:block">
+        <div>
+          {isLoading ? (
+            <p className="text-amber-900 text-[10px] font-black uppercase tracking-widest text-center py-12">Loading...</p>
+          ) : !report ? (
+            <div className="bg-zinc-900 border border-amber-900/20 p-12 rounded-[2.5rem] text-center space-y-6">
+              <p className="text-amber-800 text-[10px] font-black uppercase tracking-widest">No report has been generated for {day}</p>
+              <button onClick={() => handleGenerate(false)} disabled={isGenerating} className={`${smallButtonClass} bg-amber-500 text-black`}>
+                {isGenerating ? 'Generating...' : 'Generate Z-Report'}
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4 print:hidden">
+                <button onClick={() => handleGenerate(true)} disabled={isGenerating} className={`${smallButtonClass} bg-zinc-800 text-amber-500`}>
+                  {isGenerating ? 'Generating...' : 'Regenerate'}
+                </button>
+                <button onClick={() => window.print()} className={`${smallButtonClass} bg-amber-500 text-black`}>
+                  Print / PDF
+                </button>
+              </div>
+
+              <article className="bg-white text-black p-10 rounded-[2rem] space-y-8 print:p-0 print:rounded-none">
+                <header className="flex justify-between items-start border-b-2 border-black pb-4">
+                  <div>
+                    <h1 className="text-2xl font-black uppercase tracking-tighter">Z-Report • {report.day}</h1>
+                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600">
+                      {formatDateTime(report.from)} → {formatDateTime(report.to)}
+                    </p>
+                  </div>
+                  <div className="text-right text-[10px] font-bold uppercase tracking-widest text-zinc-600">
+                    <p>Generated {formatDateTime(report.generatedAt)}</p>
+                    <p>By {report.generatedBy}</p>
+                    {report.partial && <p className="text-red-600 font-black">Day still open when generated</p>}
+                  </div>
+                </header>
+
+                <section className="grid grid-cols-4 gap-4">
+                  {[
+                    ['Revenue', `${report.totals.revenue.toLocaleString()} ETB`],
+                    ['Games', report.totals.games.toLocaleString()],
+                    ['Sessions', report.totals.sessions.toLocaleString()],
+                    ['Busiest Hour', report.busiestHour ? `${String(report.busiestHour.hour).padStart(2, '0')}:00 (${report.busiestHour.games})` : '—'],
+                  ].map(([label, value]) => (
+                    <div key={label} className="border border-zinc-300 rounded-xl p-3">
+                      <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500">{label}</p>
+                      <p className="text-lg font-black tabular-nums">{value}</p>
+                    </div>
+                  ))}
+                </section>
+
+                <section>
+                  <h2 className="text-xs font-black uppercase tracking-widest mb-2">By House</h2>
+                  <table className="w-full text-xs tabular-nums">
+                    <thead>
+                      <tr className="border-b border-black text-[9px] uppercase tracking-widest text-left">
+                        <th className="py-1">House</th><th className="text-right">Games</th><th className="text-right">Sessions</th><th className="text-right">Revenue (ETB)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.houses.map(h => (
+                        <tr key={h.houseId} className="border-b border-zinc-200">
+                          <td className="py-1 font-bold">{h.name}</td><td className="text-right">{h.games}</td><td className="text-right">{h.sessions}</td><td className="text-right font-bold">{h.revenue.toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+
+                <section>
+                  <h2 className="text-xs font-black uppercase tracking-widest mb-2">By TV</h2>
+                  <table className="w-full text-xs tabular-nums">
+                    <thead>
+                      <tr className="border-b border-black text-[9px] uppercase tracking-widest text-left">
+                        <th className="py-1">TV</th><th>House</th><th className="text-right">Games</th><th className="text-right">Sessions</th><th className="text-right">Revenue (ETB)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.tvs.map(tv => (
+                        <tr key={tv.tvId} className="border-b border-zinc-200">
+                          <td className="py-1 font-bold">{tv.name}</td><td>{tv.houseName}</td><td className="text-right">{tv.games}</td><td className="text-right">{tv.sessions}</td><td className="text-right font-bold">{tv.revenue.toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+
+                <section>
+                  <h2 className="text-xs font-black uppercase tracking-widest mb-2">Cash Reconciliation</h2>
+                  {report.reconciliations.length === 0 ? (
+                    <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">No shifts closed</p>
+                  ) : (
+                    <table className="w-full text-xs tabular-nums">
+                      <thead>
+                        <tr className="border-b border-black text-[9px] uppercase tracking-widest text-left">
+                          <th className="py-1">Staff</th><th>House</th><th className="text-right">Expected</th><th className="text-right">Counted</th><th className="text-right">Short / Over</th><th className="pl-4">Note</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.reconciliations.map((r, i) => (
+                          <tr key={i} className="border-b border-zinc-200 align-top">
+                            <td className="py-1 font-bold">{r.workerName}</td><td>{r.houseName}</td><td className="text-right">{r.expected.toLocaleString()}</td><td className="text-right">{r.counted.toLocaleString()}</td>
+                            <td className={`text-right font-bold ${r.difference < 0 ? 'text-red-600' : ''}`}>{formatDifference(r.difference)}</td><td className="pl-4 text-zinc-600">{r.note || ''}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+
+                <section className="grid grid-cols-2 gap-8">
+                  <div>
+                    <h2 className="text-xs font-black uppercase tracking-widest mb-2">Low-Yield Alerts ({report.yieldAlerts.length})</h2>
+                    {report.yieldAlerts.length === 0 && <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">None</p>}
+                    {report.yieldAlerts.map((a, i) => (
+                      <p key={i} className="text-xs tabular-nums"><span className="font-bold">{formatTime(a.timestamp)}</span> {a.houseName}</p>
+                    ))}
+                  </div>
+                  <div>
+                    <h2 className="text-xs font-black uppercase tracking-widest mb-2">Video Sessions ({report.videoSessions.length})</h2>
+                    {report.videoSessions.length === 0 && <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">None</p>}
+                    {report.videoSessions.map((v, i) => (
+                      <p key={i} className="text-xs tabular-nums"><span className="font-bold">{formatTime(v.timestamp)}</span> {v.houseName} • {Math.round(v.duration / 1000)}s</p>
+                    ))}
+                  </div>
+                </section>
+              </article>
+            </>
+          )}
+        </div>
+
+        <aside className="bg-zinc-900 border border-amber-900/20 p-6 rounded-[2rem] space-y-2 self-start print:hidden">
+          <h4 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-3">Archive</h4>
+          {archive.length === 0 && <p className="text-[9px] text-amber-900 font-black uppercase tracking-widest">Nothing archived yet</p>}
+          {archive.map(r => (
+            <button
+              key={r.day}
+              onClick={() => setSearchParams({ day: r.day })}
+              className={`w-full flex justify-between items-center px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${r.day === day ? 'bg-amber-500 text-black' : 'text-amber-500 hover:bg-amber-500/10'}`}
+            >
+              <span>{r.day}</span>
+              <span className="tabular-nums">{r.totals.revenue.toLocaleString()}</span>
+            </button>
+          ))}
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default ZReport;
@@ -1,6 +1,24 @@
 import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { openStore } from './server/store.js';
+import { SCHEMA_VERSION, DEFAULT_STATE, migrate } from './server/migrations.js';
+import { createLedger, validateEntry, DEFAULT_PAGE, MAX_PAGE } from './server/ledger.js';
+import { createStream } from './server/stream.js';
+import { createVenue } from './server/venue.js';
+import { createAlerts } from './server/alerts.js';
+import { createPricing, describeRule, ruleHouseId } from './server/pricing.js';
+import { resolvePrice } from './shared/pricing.js';
+import { createAuth } from './server/auth.js';
+import { createStaff } from './server/staff.js';
+import { createSettings } from './server/settings.js';
+import { createReports } from './server/reports.js';
+import { createExport } from './server/export.js';
+import { createZReports } from './server/zReports.js';
+import { createCustomerSessions } from './server/customerSessions.js';
+import { createAnomalies } from './server/anomalies.js';
+import { createWebhooks } from './server/webhooks.js';
+import { createVideo } from './server/video.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -11,153 +29,564 @@ const PORT = process.env.PORT || 3001;
 app.use(express.json({ limit: '10mb' }));
 app.use(express.static(path.join(__dirname, 'dist')));
 
-let games = [];
-let prices = {};
-let thresholds = { house1: 2, house2: 2 };
-let audioQueue = []; // Circular buffer for audio chunks
-const MAX_AUDIO_QUEUE = 10;
-
-let videoSession = { 
-  houseId: null, 
-  status: 'idle', 
-  audioStatus: 'idle',
-  audioFrame: null,
-  audioFrames: [], // Send multiple recent frames to help admin catch up
-  frame: null, 
-  quality: 'medium',
-  lastRequestTime: 0,
-  lastRequestedHouseId: null,
-  lastOnlineSignalTime: 0
-};
-let houseHeartbeats = { house1: 0, house2: 0 };
-let events = [];
-let sessionStartTime = 0;
-
-app.get('/api/games', (req, res) => res.json(games));
-app.post('/api/games', (req, res) => {
-  if (req.body.games) {
-    games = req.body.games;
-    res.status(200).json({ success: true });
-  } else {
-    res.status(400).json({ error: 'Invalid data' });
+// The ledger, venue configuration and event log survive restarts; everything below
+// (video, audio, heartbeats) is live state that is fine to lose.
+const store = openStore({
+  dir: process.env.DATA_DIR || path.join(__dirname, 'data'),
+  defaults: DEFAULT_STATE,
+  version: SCHEMA_VERSION,
+  migrate,
+});
+
+// The epoch changes whenever the ledger is wiped so phones holding an older
+// copy in localStorage discard it instead of merging it back in.
+if (!store.get('epoch')) store.set('epoch', Date.now().toString(36));
+
+const ledger = createLedger(store, {
+  getHouseOf: (tvId) => venue.get().tvs.find(tv => tv.id === tvId)?.houseId,
+  getShift: (id) => staff.getShift(id),
+});
+const stream = createStream();
+const venue = createVenue(store, {
+  isTVInUse: (tvId) => ledger.all().some(g => g.tvId === tvId),
+  pushEvent: (event) => pushEvent(event),
+});
+const pricing = createPricing(store, { getVenue: venue.get });
+const settings = createSettings(store);
+const auth = createAuth(store);
+const staff = createStaff(store, { hasHouse: venue.hasHouse });
+const reports = createReports(store, { ledger, getVenue: venue.get, getSettings: settings.get });
+const customerSessions = createCustomerSessions({ ledger, getVenue: venue.get });
+const anomalies = createAnomalies(store, {
+  ledger,
+  getVenue: venue.get,
+  getSettings: settings.get,
+  listShifts: staff.listShifts,
+  getWorkers: staff.listWorkers,
+});
+const zReports = createZReports(store, { reports, staff, getVenue: venue.get, getSettings: settings.get });
+const exporter = createExport({ ledger, reports, getVenue: venue.get, getSettings: settings.get, getWorkers: staff.listWorkers });
+const webhooks = createWebhooks(store, { onChange: () => stream.broadcast('webhook-deliveries', null) });
+const { requireRole } = auth;
+
+const initialPassword = auth.ensureOwner(process.env.OWNER_PASSWORD);
+if (initialPassword) {
+  console.log(`Created owner account. Sign in as "owner" with password: ${initialPassword}`);
+}
+
+let houseHeartbeats = {};
+
+// STUN/TURN servers handed to both ends, as a JSON array of RTCIceServer.
+const parseIceServers = (value) => {
+  if (!value) return [{ urls: 'stun:stun.l.google.com:19302' }];
+  try {
+    const servers = JSON.parse(value);
+    if (Array.isArray(servers)) return servers;
+  } catch (e) {}
+  console.warn('Ignoring ICE_SERVERS: expected a JSON array');
+  return [];
+};
+const iceServers = parseIceServers(process.env.ICE_SERVERS);
+
+const pushEvent = (event) => {
+  const stored = {
+    id: Math.random().toString(36).substr(2, 9),
+    timestamp: Date.now(),
+    ...event
+  };
+  store.append('events', [stored]);
+  stream.broadcast('events', stored);
+  webhooks.emit(stored.type, stored);
+};
+
+const video = createVideo({ getVenue: venue.get, pushEvent });
+const publishVideo = () => stream.broadcast('video', video.list());
+setInterval(() => {
+  if (video.sweep()) publishVideo();
+}, 5000);
+
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const getHouseStatus = () => {
+  const now = Date.now();
+  const status = {};
+  for (const house of venue.get().houses) {
+    status[house.id] = (now - (houseHeartbeats[house.id] || 0)) < HEARTBEAT_TIMEOUT_MS;
   }
+  return status;
+};
+
+// Heartbeats only tell us when a counter comes online; going offline is the
+// absence of one, so check for it on a timer.
+let lastHouseStatus = getHouseStatus();
+const publishHouseStatus = () => {
+  const status = getHouseStatus();
+  const houses = new Set([...Object.keys(status), ...Object.keys(lastHouseStatus)]);
+  if ([...houses].some(h => status[h] !== lastHouseStatus[h])) {
+    lastHouseStatus = status;
+    stream.broadcast('house-status', status);
+  }
+};
+setInterval(publishHouseStatus, 2000);
+
+const alerts = createAlerts(store, {
+  ledger,
+  getVenue: venue.get,
+  getSettings: settings.get,
+  getHouseStatus,
+  getHeartbeat: (houseId) => houseHeartbeats[houseId] || 0,
+  pushEvent,
 });
-app.delete('/api/games', (req, res) => {
-  games = [];
+setInterval(() => {
+  if (alerts.check()) stream.broadcast('alerts', alerts.listOpen());
+}, 30000);
+setInterval(() => webhooks.deliverDue(), 10000);
+
+const queryNumber = (value, fallback) => (value === undefined || isNaN(Number(value)) ? fallback : Number(value));
+
+// Reports carry no payload on the stream; subscribers re-query their range.
+// Every game logged changes them, so on a busy floor dashboards are told at
+// most once per REPORTS_PUSH_MS rather than re-running every query per tap.
+const REPORTS_PUSH_MS = 5000;
+let reportsPush = null;
+const reportsChanged = () => {
+  if (reportsPush) return;
+  reportsPush = setTimeout(() => {
+    reportsPush = null;
+    stream.broadcast('reports', null);
+  }, REPORTS_PUSH_MS);
+};
+const ledgerChanged = () => {
+  stream.broadcast('games', { cursor: ledger.head() });
+  reportsChanged();
+};
+
+// Appends to the ledger and announces whatever was new.
+const appendGames = (entries) => {
+  const head = ledger.head();
+  const result = ledger.append(entries);
+  if (result.added) {
+    ledgerChanged();
+    for (const entry of new Set(result.entries.filter(e => e.seq > head))) webhooks.emit('game_logged', entry);
+  }
+  return result;
+};
+
+const voidApproved = (tombstone) => {
+  reportsChanged();
+  webhooks.emit('game_voided', { void: tombstone, game: ledger.get(tombstone.gameId) });
+};
+
+app.post('/api/auth/login', (req, res) => {
+  const result = auth.login(req.body.username, req.body.password, req.ip);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.status(200).json(result.session);
+});
+
+// Everything else under /api needs a session; routes that change
+// configuration or destroy data additionally check the role.
+app.use('/api', auth.requireSession);
+
+app.get('/api/auth/me', (req, res) => res.json(req.user));
+app.post('/api/auth/logout', (req, res) => {
+  auth.logout(req.token);
   res.status(200).json({ success: true });
 });
 
-app.get('/api/prices', (req, res) => res.json(prices));
-app.post('/api/prices', (req, res) => {
-  if (req.body.prices) {
-    prices = req.body.prices;
-    res.status(200).json({ success: true });
-  } else {
-    res.status(400).json({ error: 'Invalid data' });
+const sendUserResult = (res, result) => {
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.status(200).json(auth.listUsers());
+};
+
+app.get('/api/users', requireRole('owner'), (req, res) => res.json(auth.listUsers()));
+app.post('/api/users', requireRole('owner'), (req, res) => sendUserResult(res, auth.addUser(req.body)));
+app.put('/api/users/:id', requireRole('owner'), (req, res) => sendUserResult(res, auth.updateUser(req.params.id, req.body)));
+app.delete('/api/users/:id', requireRole('owner'), (req, res) => sendUserResult(res, auth.removeUser(req.params.id)));
+
+// Attendants clock in on a counter device with their PIN. Wrong PINs answer
+// 403 rather than 401 so the device's own session isn't dropped.
+const sendWorkerResult = (res, result) => {
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.status(200).json(staff.listWorkers());
+};
+
+app.get('/api/workers', (req, res) => res.json(staff.listWorkers()));
+app.post('/api/workers', requireRole('owner'), (req, res) => sendWorkerResult(res, staff.addWorker(req.body)));
+app.put('/api/workers/:id', requireRole('owner'), (req, res) => sendWorkerResult(res, staff.updateWorker(req.params.id, req.body)));
+
+app.get('/api/shifts', requireRole('manager'), (req, res) => {
+  res.json(staff.listShifts({ from: queryNumber(req.query.from, -Infinity), to: queryNumber(req.query.to, Infinity) }));
+});
+app.post('/api/shifts/clock-in', (req, res) => {
+  const result = staff.clockIn(req.body, req.user.id);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  if (result.created) stream.broadcast('shifts', result.shift);
+  res.status(result.created ? 201 : 200).json(result.shift);
+});
+app.post('/api/shifts/:id/close', (req, res) => {
+  const result = staff.closeShift(req.params.id, req.body, ledger.shiftRevenue(req.params.id), req.user);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  stream.broadcast('shifts', result.shift);
+  stream.broadcast('reconciliations', result.reconciliation);
+  res.status(201).json(result.reconciliation);
+});
+app.get('/api/reconciliations', requireRole('manager'), (req, res) => {
+  res.json(staff.listReconciliations({ from: queryNumber(req.query.from, -Infinity), to: queryNumber(req.query.to, Infinity) }));
+});
+
+// Totals for a range of business days, grouped by one of GROUPINGS and
+// optionally split again by a second.
+app.get('/api/reports', requireRole('manager'), (req, res) => {
+  const result = reports.report({
+    from: queryNumber(req.query.from, NaN),
+    to: queryNumber(req.query.to, NaN),
+    groupBy: req.query.groupBy,
+    thenBy: req.query.thenBy,
+  });
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.json(result.report);
+});
+
+// Customer sessions marked with R: how many games and how long each group
+// of players stays, per house, TV and starting price.
+app.get('/api/reports/sessions', requireRole('manager'), (req, res) => {
+  const result = customerSessions.analyze({ from: queryNumber(req.query.from, NaN), to: queryNumber(req.query.to, NaN) });
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.json(result.analysis);
+});
+
+// Patterns in the ledger that may point at games going unrecorded.
+app.get('/api/anomalies', requireRole('manager'), (req, res) => {
+  const result = anomalies.analyze({ from: queryNumber(req.query.from, NaN), to: queryNumber(req.query.to, NaN) });
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.json(result.anomalies);
+});
+
+// Downloads for the accountant: one table as CSV, or every table as an
+// .xlsx workbook.
+app.get('/api/export', requireRole('manager'), (req, res) => {
+  const result = exporter.build({
+    from: queryNumber(req.query.from, NaN),
+    to: queryNumber(req.query.to, NaN),
+    format: req.query.format,
+    table: req.query.table,
+  });
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  const { filename, contentType, body } = result.file;
+  res.set('Content-Type', contentType);
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(body);
+});
+
+app.get('/api/z-reports', requireRole('manager'), (req, res) => res.json(zReports.list()));
+app.get('/api/z-reports/:day', requireRole('manager'), (req, res) => {
+  const result = zReports.get(req.params.day);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.json(result.report);
+});
+app.post('/api/z-reports', requireRole('manager'), (req, res) => {
+  const result = zReports.generate(req.body.day, { replace: req.body.replace === true }, req.user);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.status(result.created ? 201 : 200).json(result.report);
+});
+
+app.get('/api/stream', stream.handler);
+
+// With no query this returns the whole ledger for bundles that predate the
+// cursor API. Otherwise it is a paged change feed: `since` is the cursor from
+// the previous response, `from`/`to` optionally bound entry timestamps.
+app.get('/api/games', (req, res) => {
+  res.set('X-Ledger-Epoch', store.get('epoch'));
+  const { since, from, to, limit } = req.query;
+  if (since === undefined && from === undefined && to === undefined) {
+    return res.json(ledger.all());
   }
+  res.json(ledger.list({
+    since: queryNumber(since, 0),
+    from: queryNumber(from, -Infinity),
+    to: queryNumber(to, Infinity),
+    limit: Math.min(MAX_PAGE, Math.max(1, queryNumber(limit, DEFAULT_PAGE))),
+  }));
 });
+// Entries by id wherever they fall, for clients that hold something about a
+// game they haven't synced (a void of an older game, say). Unknown ids are
+// left out.
+app.get('/api/games/lookup', (req, res) => {
+  const ids = String(req.query.ids || '').split(',').filter(Boolean).slice(0, MAX_PAGE);
+  res.json(ids.map(id => ledger.get(id)).filter(Boolean));
+});
+const checkEntry = (entry) => validateEntry(entry, { hasTV: venue.hasTV });
 
-app.get('/api/thresholds', (req, res) => res.json(thresholds));
-app.post('/api/thresholds', (req, res) => {
-  thresholds = { ...thresholds, ...req.body };
-  res.status(200).json(thresholds);
+app.post('/api/games/entry', (req, res) => {
+  const error = checkEntry(req.body.entry);
+  if (error) return res.status(400).json({ error });
+  const { entries, added } = appendGames([req.body.entry]);
+  res.status(added ? 201 : 200).json({ entry: entries[0] });
+});
+// Each entry is judged on its own: the valid ones are stored and the rest
+// come back in `rejected` with the reason, so one bad entry doesn't hold up
+// the games queued behind it.
+app.post('/api/games/batch', (req, res) => {
+  const { entries } = req.body;
+  if (!Array.isArray(entries)) return res.status(400).json({ error: 'Invalid entries' });
+  const rejected = [];
+  const valid = entries.filter((entry) => {
+    const error = checkEntry(entry);
+    if (error) rejected.push({ id: typeof entry?.id === 'string' ? entry.id : null, error });
+    return !error;
+  });
+  res.status(200).json({ ...appendGames(valid), rejected });
+});
+app.get('/api/voids', (req, res) => res.json(ledger.voids()));
+app.post('/api/voids', (req, res) => {
+  const { id, gameId, reason, source } = req.body;
+  if (typeof id !== 'string' || typeof gameId !== 'string') {
+    return res.status(400).json({ error: 'Invalid void' });
+  }
+  const result = ledger.requestVoid({ id, gameId, reason, source });
+  if (result.error) return res.status(404).json({ error: result.error });
+  if (result.created) stream.broadcast('voids', result.void);
+  if (result.created && result.void.status === 'approved') voidApproved(result.void);
+  res.status(result.created ? 201 : 200).json(result.void);
+});
+app.post('/api/voids/:id/resolve', requireRole('manager'), (req, res) => {
+  const { status } = req.body;
+  if (status !== 'approved' && status !== 'rejected') {
+    return res.status(400).json({ error: 'Invalid status' });
+  }
+  const result = ledger.resolveVoid(req.params.id, status);
+  if (result.error) return res.status(409).json({ error: result.error });
+  stream.broadcast('voids', result.void);
+  if (status === 'approved') voidApproved(result.void);
+  res.status(200).json(result.void);
+});
+app.get('/api/game-finishes', (req, res) => {
+  res.json(ledger.finishes({
+    from: queryNumber(req.query.from, -Infinity),
+    to: queryNumber(req.query.to, Infinity),
+  }));
+});
+app.post('/api/game-finishes', (req, res) => {
+  const { gameId, endedAt } = req.body;
+  if (typeof gameId !== 'string') return res.status(400).json({ error: 'Invalid finish' });
+  const result = ledger.finishGame({ gameId, endedAt });
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  if (result.created) {
+    stream.broadcast('finishes', result.finish);
+    reportsChanged();
+    webhooks.emit('game_finished', { finish: result.finish, game: ledger.get(gameId) });
+  }
+  res.status(result.created ? 201 : 200).json(result.finish);
 });
 
-app.post('/api/heartbeat', (req, res) => {
-  const { houseId } = req.body;
-  if (houseId && houseHeartbeats[houseId] !== undefined) {
-    houseHeartbeats[houseId] = Date.now();
+// Legacy whole-array sync from older cached bundles. Treated as a batch
+// append so a stale phone can no longer overwrite other devices' games.
+app.post('/api/games', (req, res) => {
+  if (Array.isArray(req.body.games)) {
+    appendGames(req.body.games.filter(entry => !checkEntry(entry)));
     res.status(200).json({ success: true });
   } else {
-    res.status(400).json({ error: 'Invalid houseId' });
+    res.status(400).json({ error: 'Invalid data' });
   }
 });
+app.delete('/api/games', requireRole('owner'), (req, res) => {
+  ledger.clear();
+  anomalies.clearActivity();
+  store.set('epoch', Date.now().toString(36));
+  ledgerChanged();
+  stream.broadcast('voids', null);
+  stream.broadcast('finishes', null);
+  res.status(200).json({ success: true });
+});
 
-app.get('/api/house-status', (req, res) => {
+// Current price per TV, for bundles that predate price rules.
+app.get('/api/prices', (req, res) => {
+  const rules = pricing.list();
   const now = Date.now();
-  const status = {
-    house1: (now - houseHeartbeats.house1) < 10000,
-    house2: (now - houseHeartbeats.house2) < 10000
-  };
-  res.json(status);
+  const { timeZone } = settings.get();
+  res.json(Object.fromEntries(venue.get().tvs.map(tv => [tv.id, resolvePrice(rules, tv, now, timeZone).price])));
 });
 
-app.get('/api/video-session', (req, res) => {
-  // Update the broadcast session object with current queue
-  videoSession.audioFrames = audioQueue;
-  res.json(videoSession);
+// Like the venue routes, every change answers with the full rule list.
+const sendPricingResult = (res, result, action) => {
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  const config = venue.get();
+  pushEvent({
+    type: 'price_change',
+    houseId: ruleHouseId(result.rule, config),
+    detail: `${action}: ${describeRule(result.rule, config, settings.get())}`,
+  });
+  stream.broadcast('prices', pricing.list());
+  res.status(200).json(pricing.list());
+};
+
+app.get('/api/price-rules', (req, res) => res.json(pricing.list()));
+app.post('/api/price-rules', requireRole('owner'), (req, res) => sendPricingResult(res, pricing.add(req.body), 'Scheduled'));
+app.delete('/api/price-rules/:id', requireRole('owner'), (req, res) => {
+  const result = pricing.end(req.params.id);
+  sendPricingResult(res, result, result.removed ? 'Cancelled' : 'Ended');
 });
 
-app.post('/api/video-session', (req, res) => {
-  const oldSession = { ...videoSession };
-  videoSession = { ...videoSession, ...req.body };
-  
-  const now = Date.now();
+const venueChanged = () => {
+  stream.broadcast('venue', venue.get());
+  publishHouseStatus();
+  reportsChanged();
+};
 
-  if (req.body.status === 'requested' && oldSession.status !== 'requested') {
-    videoSession.lastRequestTime = now;
-    videoSession.lastRequestedHouseId = req.body.houseId;
-    events.push({
-      id: Math.random().toString(36).substr(2, 9),
-      type: 'video_request',
-      houseId: videoSession.houseId,
-      timestamp: now
-    });
-  }
+// Every mutating venue route answers with the full configuration so editors
+// can simply replace their copy.
+const sendVenueResult = (res, result) => {
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  venueChanged();
+  res.status(200).json(venue.get());
+};
 
-  if (req.body.status === 'active' && oldSession.status !== 'active') {
-    sessionStartTime = now;
-  }
+app.get('/api/venue', (req, res) => res.json(venue.get()));
+app.post('/api/venue/houses', requireRole('owner'), (req, res) => sendVenueResult(res, venue.addHouse(req.body)));
+app.put('/api/venue/houses/:id', requireRole('owner'), (req, res) => sendVenueResult(res, venue.updateHouse(req.params.id, req.body)));
+app.delete('/api/venue/houses/:id', requireRole('owner'), (req, res) => sendVenueResult(res, venue.removeHouse(req.params.id)));
+app.post('/api/venue/tvs', requireRole('owner'), (req, res) => sendVenueResult(res, venue.addTV(req.body)));
+app.put('/api/venue/tvs/:id', requireRole('owner'), (req, res) => sendVenueResult(res, venue.updateTV(req.params.id, req.body)));
+app.delete('/api/venue/tvs/:id', requireRole('owner'), (req, res) => sendVenueResult(res, venue.removeTV(req.params.id)));
 
-  if (req.body.status === 'idle' && oldSession.status === 'active') {
-    const duration = now - sessionStartTime;
-    events.push({
-      id: Math.random().toString(36).substr(2, 9),
-      type: 'video_session_ended',
-      houseId: oldSession.houseId,
-      timestamp: now,
-      duration: duration
-    });
-  }
+app.get('/api/settings', (req, res) => res.json(settings.get()));
+app.put('/api/settings', requireRole('owner'), (req, res) => {
+  const result = settings.update(req.body);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  stream.broadcast('settings', result.settings);
+  reportsChanged();
+  res.status(200).json(result.settings);
+});
+
+// Like price rules, every change answers with the full rule list.
+const sendAlertRulesResult = (res, result) => {
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  stream.broadcast('alert-rules', alerts.listRules());
+  res.status(200).json(alerts.listRules());
+};
+
+app.get('/api/alert-rules', requireRole('manager'), (req, res) => res.json(alerts.listRules()));
+app.post('/api/alert-rules', requireRole('manager'), (req, res) => sendAlertRulesResult(res, alerts.addRule(req.body)));
+app.delete('/api/alert-rules/:id', requireRole('manager'), (req, res) => sendAlertRulesResult(res, alerts.removeRule(req.params.id)));
+
+// Open alerts only; cleared ones live on in the audit log.
+const sendAlertResult = (res, result) => {
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  stream.broadcast('alerts', alerts.listOpen());
+  res.status(200).json(alerts.listOpen());
+};
+
+app.get('/api/alerts', requireRole('manager'), (req, res) => res.json(alerts.listOpen()));
+app.post('/api/alerts/:id/acknowledge', requireRole('manager'), (req, res) => sendAlertResult(res, alerts.acknowledge(req.params.id, req.user)));
+app.post('/api/alerts/:id/snooze', requireRole('manager'), (req, res) => sendAlertResult(res, alerts.snooze(req.params.id, req.body.minutes)));
+
+// Webhook subscriptions carry their signing secrets, so they stay owner-only.
+const sendWebhooksResult = (res, result) => {
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  stream.broadcast('webhooks', null);
+  res.status(200).json(webhooks.list());
+};
+
+app.get('/api/webhooks', requireRole('owner'), (req, res) => res.json(webhooks.list()));
+app.post('/api/webhooks', requireRole('owner'), (req, res) => sendWebhooksResult(res, webhooks.add(req.body)));
+app.put('/api/webhooks/:id', requireRole('owner'), (req, res) => sendWebhooksResult(res, webhooks.update(req.params.id, req.body)));
+app.delete('/api/webhooks/:id', requireRole('owner'), (req, res) => sendWebhooksResult(res, webhooks.remove(req.params.id)));
+app.post('/api/webhooks/:id/test', requireRole('owner'), (req, res) => {
+  const result = webhooks.test(req.params.id);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.status(202).json(result.delivery);
+});
+
+app.get('/api/webhook-deliveries', requireRole('owner'), (req, res) => {
+  res.json(webhooks.listDeliveries({ webhookId: req.query.webhookId }));
+});
+app.post('/api/webhook-deliveries/:id/retry', requireRole('owner'), (req, res) => {
+  const result = webhooks.retry(req.params.id);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.status(202).json(result.delivery);
+});
 
-  if (req.body.lastOnlineSignalTime && req.body.lastOnlineSignalTime !== oldSession.lastOnlineSignalTime) {
-    events.push({
-      id: Math.random().toString(36).substr(2, 9),
-      type: 'counter_online',
-      houseId: req.body.houseId || oldSession.lastRequestedHouseId,
-      timestamp: now
-    });
+app.post('/api/heartbeat', (req, res) => {
+  const { houseId } = req.body;
+  if (houseId && venue.hasHouse(houseId)) {
+    houseHeartbeats[houseId] = Date.now();
+    publishHouseStatus();
+    res.status(200).json({ success: true });
+  } else {
+    res.status(400).json({ error: 'Invalid houseId' });
   }
+});
+
+app.get('/api/house-status', (req, res) => res.json(getHouseStatus()));
 
-  res.status(200).json(videoSession);
+// Any signed-in device takes part: counters send, owners and managers watch.
+app.get('/api/video-sessions', (req, res) => res.json(video.list()));
+app.get('/api/video-sessions/:houseId', (req, res) => {
+  const result = video.get(req.params.houseId, String(req.query.viewer || ''), req.user);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.json(result.session);
+});
+app.post('/api/video-sessions/:houseId', (req, res) => {
+  const result = video.update(req.params.houseId, req.body);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  publishVideo();
+  res.status(200).json(result.session);
+});
+
+const sendViewerResult = (res, result) => {
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  if (result.changed) publishVideo();
+  res.status(200).json(result.session);
+};
+app.put('/api/video-sessions/:houseId/viewers/:viewerId', (req, res) => {
+  const { watching, listening } = req.body;
+  sendViewerResult(res, video.setViewer(req.params.houseId, req.params.viewerId, { watching, listening }, req.user));
+});
+app.delete('/api/video-sessions/:houseId/viewers/:viewerId', (req, res) => {
+  sendViewerResult(res, video.removeViewer(req.params.houseId, req.params.viewerId, req.user));
 });
 
+// Events devices may report; the same types the server raises itself.
+const SESSION_EVENT_TYPES = ['video_request', 'yield_alert', 'counter_online', 'video_session_ended', 'price_change', 'tv_idle', 'counter_offline'];
 app.post('/api/events', (req, res) => {
   const { type, houseId } = req.body;
-  const now = Date.now();
-  events.push({
-    id: Math.random().toString(36).substr(2, 9),
-    type,
-    houseId,
-    timestamp: now
-  });
+  if (!SESSION_EVENT_TYPES.includes(type)) return res.status(400).json({ error: 'Unknown event type' });
+  if (!venue.hasHouse(houseId)) return res.status(400).json({ error: 'Invalid houseId' });
+  pushEvent({ type, houseId });
   res.status(200).json({ success: true });
 });
 
-app.get('/api/events', (req, res) => res.json(events.slice(-100)));
+app.get('/api/events', requireRole('manager'), (req, res) => res.json(store.get('events').slice(-100)));
 
 app.post('/api/video-frame', (req, res) => {
-  videoSession.frame = req.body.frame;
+  const { houseId, frame, motion } = req.body;
+  if (!venue.hasHouse(houseId)) return res.status(404).json({ error: 'Unknown house' });
+  // Frameless posts carry only the motion score while video goes peer to peer
+  if (typeof frame === 'string' && video.recordFrame(houseId, frame)) {
+    stream.broadcast('video-frame', { houseId, frame }, (user, viewerId) => video.isWatching(houseId, viewerId, user));
+  }
+  anomalies.recordActivity(houseId, motion);
   res.status(200).json({ success: true });
 });
 
+app.get('/api/video-ice-servers', (req, res) => res.json(iceServers));
+
+app.get('/api/video-signals', (req, res) => {
+  const result = video.listSignals(req.query.rtcId, req.user);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  res.json(result.signals);
+});
+app.post('/api/video-signals', (req, res) => {
+  const result = video.addSignal(req.body, req.user);
+  if (result.error) return res.status(result.status).json({ error: result.error });
+  stream.broadcast('video-signal', result.signal, (user) => video.isSignalFor(result.signal, user));
+  res.status(201).json(result.signal);
+});
+
 app.post('/api/audio-frame', (req, res) => {
-  const frame = {
-    id: Date.now(),
-    data: req.body.audioFrame
-  };
-  audioQueue.push(frame);
-  if (audioQueue.length > MAX_AUDIO_QUEUE) audioQueue.shift();
+  const { houseId, audioFrame } = req.body;
+  if (!venue.hasHouse(houseId)) return res.status(404).json({ error: 'Unknown house' });
+  const frame = video.recordAudio(houseId, audioFrame);
+  if (frame) stream.broadcast('audio-frame', frame, (user, viewerId) => video.isListening(houseId, viewerId, user));
   res.status(200).json({ success: true });
 });
 
@@ -167,4 +596,9 @@ app.get('*', (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+});
+
+process.on('SIGTERM', () => {
+  store.compact();
+  process.exit(0);
 });
\ No newline at end of file
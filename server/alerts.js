@@ -0,0 +1,276 @@
+import { getBusinessDayStart, getOpenedAt, getZonedParts } from '../shared/businessDay.js';
+import { getTVFloorStatus } from '../shared/floor.js';
+import { getScheduledMinimum, getYieldRule } from '../shared/alerts.js';
+
+export const ALERT_RULE_TYPES = ['low_yield', 'tv_idle', 'counter_offline'];
+
+// Rules raise these events in the audit log; low yield keeps the type the
+// dashboard used to record.
+const EVENT_TYPES = { low_yield: 'yield_alert', tv_idle: 'tv_idle', counter_offline: 'counter_offline' };
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const MAX_SNOOZE_MINUTES = 12 * 60;
+
+const cleanSchedule = (schedule) => {
+  if (!Array.isArray(schedule) || schedule.length === 0) return null;
+  const steps = schedule.map(step => ({ fromHour: Number(step?.fromHour), minimum: Number(step?.minimum) }));
+  const valid = steps.every(step =>
+    Number.isInteger(step.fromHour) && step.fromHour >= 0 && step.fromHour <= 23
+    && Number.isInteger(step.minimum) && step.minimum >= 0);
+  if (!valid || new Set(steps.map(step => step.fromHour)).size !== steps.length) return null;
+  return steps.sort((a, b) => a.fromHour - b.fromHour);
+};
+
+export const validateAlertRule = (input, venue) => {
+  if (!ALERT_RULE_TYPES.includes(input.type)) return { error: `Type must be one of ${ALERT_RULE_TYPES.join(', ')}` };
+  const targetId = input.targetId === undefined || input.targetId === null || input.targetId === '' ? null : String(input.targetId);
+  if (targetId !== null) {
+    const exists = input.type === 'tv_idle'
+      ? venue.tvs.some(tv => tv.id === targetId)
+      : venue.houses.some(h => h.id === targetId);
+    if (!exists) return { error: input.type === 'tv_idle' ? 'Unknown TV' : 'Unknown house' };
+  }
+
+  const cooldownMinutes = input.cooldownMinutes === undefined ? 0 : Number(input.cooldownMinutes);
+  if (!Number.isInteger(cooldownMinutes) || cooldownMinutes < 0 || cooldownMinutes > 24 * 60) {
+    return { error: 'Cooldown must be from 0 to 1440 minutes' };
+  }
+
+  if (input.type === 'low_yield') {
+    const schedule = cleanSchedule(input.schedule);
+    if (!schedule) return { error: 'Schedule needs at least one step, each with its own hour (0-23) and a minimum' };
+    return { rule: { type: input.type, targetId, schedule, cooldownMinutes } };
+  }
+  const minutes = Number(input.minutes);
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > 24 * 60) return { error: 'Minutes must be from 1 to 1440' };
+  return { rule: { type: input.type, targetId, minutes, cooldownMinutes } };
+};
+
+// Alert rules, evaluated here on a timer rather than in whichever dashboard
+// happens to be open, so an alert fires once however many owners are
+// watching and its state survives a restart.
+//
+// Each rule and target pair holds at most one open alert. It is raised when
+// the condition starts to hold, unless the same pair raised less than the
+// rule's cooldown ago, and cleared when the condition stops holding. Owners
+// can acknowledge an open alert, or snooze it, after which it is raised
+// again if the condition still holds. Every raise is recorded as an event.
+//
+// Low yield compares a house's games in the last hour with the minimum its
+// schedule sets for the current hour, once the venue has been open an hour.
+// A TV's quiet time counts from the latest of its last game, the start of the
+// business day and the moment its counter came online, so a counter that was
+// off doesn't make every TV look idle the moment it comes back. A counter's
+// offline time counts from its last heartbeat, but never from before the
+// venue opened or this server started.
+export const createAlerts = (store, { ledger, getVenue, getSettings, getHouseStatus, getHeartbeat, pushEvent }) => {
+  const startedAt = Date.now();
+  const onlineSince = new Map(); // houseId -> first check that saw it online
+
+  const listRules = () => store.get('alertRules');
+
+  const addRule = (input) => {
+    const { rule, error } = validateAlertRule(input, getVenue());
+    if (error) return { error, status: 400 };
+    // Only one yield rule per target can apply, so a second would never fire.
+    if (rule.type === 'low_yield' && listRules().some(r => r.type === 'low_yield' && r.targetId === rule.targetId)) {
+      return { error: 'That target already has a low-yield rule', status: 409 };
+    }
+    const stored = { id: Math.random().toString(36).substr(2, 9), ...rule, createdAt: Date.now() };
+    store.append('alertRules', [stored]);
+    return { rule: stored };
+  };
+
+  const removeRule = (id) => {
+    const rule = listRules().find(r => r.id === id);
+    if (!rule) return { error: 'Unknown rule', status: 404 };
+    store.set('alertRules', listRules().filter(r => r.id !== id));
+    return { rule };
+  };
+
+  const listOpen = () => store.get('alerts')
+    .filter(a => a.status !== 'cleared')
+    .sort((a, b) => b.raisedAt - a.raisedAt);
+
+  const findOpen = (id) => {
+    const alert = store.get('alerts').find(a => a.id === id);
+    if (!alert) return { error: 'Unknown alert', status: 404 };
+    if (alert.status === 'cleared') return { error: 'Alert has already cleared', status: 409 };
+    return { alert };
+  };
+
+  const acknowledge = (id, user) => {
+    const { alert, error, status } = findOpen(id);
+    if (error) return { error, status };
+    store.update('alerts', id, { status: 'acknowledged', acknowledgedBy: user.name, acknowledgedAt: Date.now() });
+    return { alert };
+  };
+
+  const snooze = (id, minutes) => {
+    const { alert, error, status } = findOpen(id);
+    if (error) return { error, status };
+    const duration = Number(minutes);
+    if (!Number.isInteger(duration) || duration < 1 || duration > MAX_SNOOZE_MINUTES) {
+      return { error: `Snooze must be from 1 to ${MAX_SNOOZE_MINUTES} minutes`, status: 400 };
+    }
+    store.update('alerts', id, { status: 'snoozed', snoozedUntil: Date.now() + duration * MINUTE_MS });
+    return { alert };
+  };
+
+  const dayEntries = (now, settings) => {
+    const dayStart = getBusinessDayStart(now, settings);
+    const voided = new Set(ledger.voids().filter(v => v.status === 'approved').map(v => v.gameId));
+    const entries = ledger.list({ from: Math.min(dayStart, now - HOUR_MS), limit: Infinity }).entries
+      .filter(entry => !voided.has(entry.id))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return { dayStart, entries };
+  };
+
+  const lowYield = (rules, { now, settings, venue, entries, openedAt }) => {
+    if (rules.length === 0 || openedAt === null || openedAt > now - HOUR_MS) return [];
+    const hour = getZonedParts(now, settings.timeZone).hour;
+    const houseOf = new Map(venue.tvs.map(tv => [tv.id, tv.houseId]));
+    const counts = new Map();
+    for (const entry of entries) {
+      if (entry.isSeparator || entry.timestamp < now - HOUR_MS) continue;
+      const houseId = houseOf.get(entry.tvId);
+      counts.set(houseId, (counts.get(houseId) || 0) + 1);
+    }
+    const found = [];
+    for (const house of venue.houses.filter(h => h.active)) {
+      const rule = getYieldRule(rules, house.id);
+      const minimum = rule && getScheduledMinimum(rule.schedule, hour);
+      const games = counts.get(house.id) || 0;
+      if (minimum === null || games >= minimum) continue;
+      found.push({
+        rule,
+        target: house.id,
+        houseId: house.id,
+        detail: `${house.name}: ${games} ${games === 1 ? 'game' : 'games'} in the last hour, minimum ${minimum}`,
+      });
+    }
+    return found;
+  };
+
+  const idleTVs = (rules, { now, venue, status, entries, dayStart }) => {
+    if (rules.length === 0) return [];
+    const finishedIds = new Set(ledger.finishes({ from: dayStart }).map(f => f.gameId));
+    const byTV = new Map();
+    for (const entry of entries) {
+      if (entry.timestamp < dayStart) continue;
+      if (!byTV.has(entry.tvId)) byTV.set(entry.tvId, []);
+      byTV.get(entry.tvId).push(entry);
+    }
+
+    const found = [];
+    for (const rule of rules) {
+      const tvs = venue.tvs.filter(tv => tv.active && !tv.outOfService && (rule.targetId === null || tv.id === rule.targetId));
+      for (const tv of tvs) {
+        if (!status[tv.houseId]) continue;
+        const floor = getTVFloorStatus(tv, byTV.get(tv.id) || [], { now, finishedIds });
+        if (floor.state !== 'idle') continue;
+        const quietFor = now - Math.max(floor.lastGameAt ?? 0, dayStart, onlineSince.get(tv.houseId));
+        if (quietFor < rule.minutes * MINUTE_MS) continue;
+        found.push({
+          rule,
+          target: tv.id,
+          houseId: tv.houseId,
+          tvId: tv.id,
+          detail: `${tv.name}: no game for ${Math.round(quietFor / MINUTE_MS)} min`,
+        });
+      }
+    }
+    return found;
+  };
+
+  const offlineCounters = (rules, { now, venue, status, openedAt }) => {
+    if (openedAt === null) return [];
+    const found = [];
+    for (const rule of rules) {
+      const houses = venue.houses.filter(h => h.active && (rule.targetId === null || h.id === rule.targetId));
+      for (const house of houses) {
+        if (status[house.id]) continue;
+        const offlineFor = now - Math.max(getHeartbeat(house.id), startedAt, openedAt);
+        if (offlineFor < rule.minutes * MINUTE_MS) continue;
+        found.push({
+          rule,
+          target: house.id,
+          houseId: house.id,
+          detail: `${house.name}: counter offline for ${Math.round(offlineFor / MINUTE_MS)} min`,
+        });
+      }
+    }
+    return found;
+  };
+
+  const raise = (alert, now) => pushEvent({
+    type: EVENT_TYPES[alert.type],
+    houseId: alert.houseId,
+    ...(alert.tvId ? { tvId: alert.tvId } : {}),
+    alertId: alert.id,
+    detail: alert.detail,
+    timestamp: now,
+  });
+
+  // Returns whether any alert changed, so the caller knows to broadcast.
+  const check = (now = Date.now()) => {
+    const settings = getSettings();
+    const venue = getVenue();
+    const status = getHouseStatus();
+    for (const house of venue.houses) {
+      if (!status[house.id]) onlineSince.delete(house.id);
+      else if (!onlineSince.has(house.id)) onlineSince.set(house.id, now);
+    }
+
+    const rules = listRules();
+    const context = { now, settings, venue, status, openedAt: getOpenedAt(now, settings), ...dayEntries(now, settings) };
+    const found = [
+      ...lowYield(rules.filter(r => r.type === 'low_yield'), context),
+      ...idleTVs(rules.filter(r => r.type === 'tv_idle'), context),
+      ...offlineCounters(rules.filter(r => r.type === 'counter_offline'), context),
+    ];
+
+    const alerts = store.get('alerts');
+    const open = new Map(alerts.filter(a => a.status !== 'cleared').map(a => [a.key, a]));
+    const lastRaised = new Map();
+    for (const a of alerts) lastRaised.set(a.key, Math.max(lastRaised.get(a.key) || 0, a.raisedAt));
+
+    let changed = false;
+    const holding = new Set();
+    for (const { rule, target, ...condition } of found) {
+      const key = `${rule.id}|${target}`;
+      holding.add(key);
+      const existing = open.get(key);
+      if (existing) {
+        if (existing.status === 'snoozed' && existing.snoozedUntil <= now) {
+          store.update('alerts', existing.id, { status: 'active', detail: condition.detail });
+          raise({ ...existing, detail: condition.detail }, now);
+          changed = true;
+        }
+        continue;
+      }
+      if (now - (lastRaised.get(key) || 0) < rule.cooldownMinutes * MINUTE_MS) continue;
+      const alert = {
+        id: Math.random().toString(36).substr(2, 9),
+        ruleId: rule.id,
+        type: rule.type,
+        key,
+        ...condition,
+        raisedAt: now,
+        status: 'active',
+      };
+      store.append('alerts', [alert]);
+      raise(alert, now);
+      changed = true;
+    }
+    for (const alert of open.values()) {
+      if (holding.has(alert.key)) continue;
+      store.update('alerts', alert.id, { status: 'cleared', clearedAt: now });
+      changed = true;
+    }
+    return changed;
+  };
+
+  return { listRules, addRule, removeRule, listOpen, acknowledge, snooze, check };
+};
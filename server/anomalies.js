@@ -0,0 +1,309 @@
+import { addBusinessDays, getBusinessDate, getBusinessDayStart } from '../shared/businessDay.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// No real match is over this quickly, so a game followed by the next one on
+// the same TV sooner than this was never played out.
+const MIN_GAME_MS = 5 * MINUTE_MS;
+
+// Camera activity is sampled at most once a minute per house. Samples closer
+// together than ACTIVITY_JOIN_MS form one stretch of activity, and a stretch
+// with no game logged in the house for CAMERA_GAP_MS is flagged.
+const MOTION_THRESHOLD = 0.04;
+const ACTIVITY_JOIN_MS = 5 * MINUTE_MS;
+const CAMERA_GAP_MS = 20 * MINUTE_MS;
+
+// A shift is flagged when its last BURST_WINDOW_MS holds at least
+// BURST_MIN_GAMES games and BURST_FACTOR times its usual rate.
+const BURST_WINDOW_MS = 10 * MINUTE_MS;
+const BURST_MIN_GAMES = 4;
+const BURST_FACTOR = 3;
+
+// A TV's day is compared with the same weekday over the previous
+// HISTORY_WEEKS weeks, ignoring days the whole venue logged nothing. It needs
+// MIN_HISTORY_DAYS of those averaging MIN_USUAL_GAMES to be judged, and is
+// flagged when it is DEVIATION or more off the average either way.
+const HISTORY_WEEKS = 4;
+const MIN_HISTORY_DAYS = 2;
+const MIN_USUAL_GAMES = 5;
+const DEVIATION = 0.5;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const formatMinutes = (ms) => `${Math.round(ms / MINUTE_MS)} min`;
+const plural = (n, word) => `${n} ${n === 1 ? word : `${word}s`}`;
+
+// Heuristics over the game ledger that point owners at possible
+// under-reporting. None of them proves anything on its own; each finding
+// carries the entries behind it so the owner can judge.
+//
+// - fast_games: games on one TV logged closer together than a match takes.
+// - camera_gap: the counter's camera saw movement for a stretch while no game
+//   was logged in its house. The camera only runs while an owner is watching.
+// - shift_end_burst: an attendant logged a pile of games in the last minutes
+//   of their shift, as if catching up on ones they hadn't recorded.
+// - weekday_deviation: a TV's day far from its usual for that weekday.
+//
+// Findings are worked out per business day, and those for days that have
+// ended are kept. A day is scanned again only once something is logged,
+// voided or finished on it or on an earlier day, as its weekday comparison
+// reaches back over the weeks before it, once a shift covering it is synced
+// or closed, or once the venue, the settings or a worker's name changes.
+export const createAnomalies = (store, { ledger, getVenue, getSettings, listShifts, getWorkers }) => {
+  const lastSample = new Map(); // houseId -> time of the last stored sample
+  const cache = new Map(); // business day start -> findings that day
+  let cachedFor = '';
+  let seenSeq = 0;
+  let seenFinishes = 0;
+  let seenVoided = new Set();
+  let seenShifts = new Map(); // shift id -> endedAt
+
+  // Called with each video frame's motion score while the counter streams.
+  const recordActivity = (houseId, motion, at = Date.now()) => {
+    if (!houseId || !(Number(motion) >= MOTION_THRESHOLD)) return;
+    if (at - (lastSample.get(houseId) || 0) < MINUTE_MS) return;
+    lastSample.set(houseId, at);
+    store.append('cameraActivity', [{ id: Math.random().toString(36).substr(2, 9), houseId, at }]);
+  };
+
+  const clearActivity = () => {
+    lastSample.clear();
+    store.set('cameraActivity', []);
+  };
+
+  const fastGames = (byTV, houseOf, finishedAt, workerName) => {
+    const found = [];
+    for (const [tvId, entries] of byTV) {
+      const games = entries.filter(g => !g.isSeparator);
+      let run = [];
+      const flush = () => {
+        if (run.length > 0) {
+          const last = run[run.length - 1];
+          const end = finishedAt.get(last.id) ?? last.timestamp;
+          found.push({
+            type: 'fast_games',
+            houseId: houseOf(tvId),
+            tvId,
+            workerId: run[0].workerId,
+            workerName: workerName(run[0].workerId),
+            from: run[0].timestamp,
+            to: end,
+            detail: run.length === 1
+              ? `Game finished after ${formatMinutes(end - last.timestamp)}`
+              : `${plural(run.length, 'game')} logged within ${formatMinutes(end - run[0].timestamp)}`,
+            entries: run,
+          });
+        }
+        run = [];
+      };
+      games.forEach((game, i) => {
+        const next = games[i + 1];
+        const end = finishedAt.get(game.id) ?? next?.timestamp;
+        if (end !== undefined && end - game.timestamp < MIN_GAME_MS) {
+          if (run.length === 0) run.push(game);
+          if (next) run.push(next);
+        } else {
+          flush();
+        }
+      });
+      flush();
+    }
+    return found;
+  };
+
+  const cameraGaps = (venue, games, { from, to }) => {
+    const found = [];
+    const samples = store.get('cameraActivity')
+      .filter(s => s.at >= from && s.at < to)
+      .sort((a, b) => a.at - b.at);
+    for (const house of venue.houses) {
+      const tvIds = new Set(venue.tvs.filter(tv => tv.houseId === house.id).map(tv => tv.id));
+      const houseGames = games.filter(g => !g.isSeparator && tvIds.has(g.tvId));
+      const stretches = [];
+      for (const sample of samples.filter(s => s.houseId === house.id)) {
+        const last = stretches[stretches.length - 1];
+        if (last && sample.at - last.end <= ACTIVITY_JOIN_MS) last.end = sample.at + MINUTE_MS;
+        else stretches.push({ start: sample.at, end: sample.at + MINUTE_MS });
+      }
+      for (const stretch of stretches) {
+        const before = houseGames.filter(g => g.timestamp < stretch.start).pop();
+        const inside = houseGames.filter(g => g.timestamp >= stretch.start && g.timestamp < stretch.end);
+        const after = houseGames.find(g => g.timestamp >= stretch.end);
+        // Quiet spells inside the stretch, each bounded by the games around it
+        const bounds = [before, ...inside, after];
+        for (let i = 0; i < bounds.length - 1; i++) {
+          const quietFrom = Math.max(stretch.start, bounds[i]?.timestamp ?? -Infinity);
+          const quietTo = Math.min(stretch.end, bounds[i + 1]?.timestamp ?? Infinity);
+          if (quietTo - quietFrom < CAMERA_GAP_MS) continue;
+          found.push({
+            type: 'camera_gap',
+            houseId: house.id,
+            from: quietFrom,
+            to: quietTo,
+            detail: `${house.name}: ${formatMinutes(quietTo - quietFrom)} of movement on camera with no game logged`,
+            entries: [bounds[i], bounds[i + 1]].filter(Boolean),
+          });
+        }
+      }
+    }
+    return found;
+  };
+
+  const shiftEndBursts = (games, { from, to }) => {
+    const found = [];
+    const shifts = listShifts({ from, to }).filter(s => s.endedAt !== undefined && s.endedAt >= from && s.endedAt < to);
+    for (const shift of shifts) {
+      const logged = games.filter(g => g.shiftId === shift.id && !g.isSeparator);
+      const tail = logged.filter(g => g.timestamp >= shift.endedAt - BURST_WINDOW_MS);
+      const usualRate = logged.length / Math.max(shift.endedAt - shift.startedAt, BURST_WINDOW_MS);
+      if (tail.length < BURST_MIN_GAMES || tail.length < BURST_FACTOR * usualRate * BURST_WINDOW_MS) continue;
+      found.push({
+        type: 'shift_end_burst',
+        houseId: shift.houseId,
+        workerId: shift.workerId,
+        workerName: shift.workerName,
+        from: tail[0].timestamp,
+        to: shift.endedAt,
+        detail: `${shift.workerName} logged ${tail.length} of ${plural(logged.length, 'game')} in the last ${formatMinutes(BURST_WINDOW_MS)} of the shift`,
+        entries: tail,
+      });
+    }
+    return found;
+  };
+
+  const weekdayDeviations = (venue, games, settings, { from, to }) => {
+    const found = [];
+    const dayOf = new Map(); // day start -> games that day
+    for (const game of games) {
+      if (game.isSeparator) continue;
+      const day = getBusinessDayStart(game.timestamp, settings);
+      if (!dayOf.has(day)) dayOf.set(day, []);
+      dayOf.get(day).push(game);
+    }
+    const now = Date.now();
+    for (let day = getBusinessDayStart(from, settings); day < to; day = addBusinessDays(day, 1, settings)) {
+      // Today isn't over, so it would always look short
+      if (addBusinessDays(day, 1, settings) > now) break;
+      const history = [];
+      for (let week = 1; week <= HISTORY_WEEKS; week++) {
+        const past = addBusinessDays(day, -7 * week, settings);
+        if (dayOf.has(past)) history.push(dayOf.get(past));
+      }
+      if (history.length < MIN_HISTORY_DAYS) continue;
+
+      const { year, month, day: date } = getBusinessDate(day, settings);
+      const weekday = WEEKDAY_NAMES[new Date(Date.UTC(year, month - 1, date)).getUTCDay()];
+      for (const tv of venue.tvs.filter(t => t.active && !t.outOfService)) {
+        const usual = history.reduce((sum, games) => sum + games.filter(g => g.tvId === tv.id).length, 0) / history.length;
+        const entries = (dayOf.get(day) || []).filter(g => g.tvId === tv.id);
+        if (usual < MIN_USUAL_GAMES || Math.abs(entries.length - usual) < DEVIATION * usual) continue;
+        found.push({
+          type: 'weekday_deviation',
+          houseId: tv.houseId,
+          tvId: tv.id,
+          from: day,
+          to: addBusinessDays(day, 1, settings),
+          detail: `${plural(entries.length, 'game')} against ${Math.round(usual)} on a usual ${weekday}`,
+          entries,
+        });
+      }
+    }
+    return found;
+  };
+
+  // Drops the kept days that anything stored since the last scan may change.
+  const invalidate = (venue, settings, voided) => {
+    const signature = JSON.stringify([store.get('epoch'), venue, settings, getWorkers().map(w => [w.id, w.name])]);
+    if (signature !== cachedFor) {
+      cache.clear();
+      cachedFor = signature;
+      seenSeq = 0;
+      seenFinishes = 0;
+      seenVoided = new Set();
+      seenShifts = new Map();
+    }
+    const fresh = ledger.list({ since: seenSeq, limit: Infinity });
+    const finishes = store.get('finishes');
+    const timeOf = (gameId) => ledger.get(gameId)?.timestamp ?? -Infinity;
+    let earliest = Infinity;
+    for (const game of fresh.entries) earliest = Math.min(earliest, game.timestamp);
+    for (const finish of finishes.slice(seenFinishes)) earliest = Math.min(earliest, timeOf(finish.gameId));
+    for (const gameId of voided) {
+      if (!seenVoided.has(gameId)) earliest = Math.min(earliest, timeOf(gameId));
+    }
+    // Offline clock-ins arrive late, and closing a shift sets its end
+    const shifts = listShifts();
+    for (const shift of shifts) {
+      if (!seenShifts.has(shift.id) || seenShifts.get(shift.id) !== shift.endedAt) earliest = Math.min(earliest, shift.startedAt);
+    }
+    seenSeq = fresh.cursor;
+    seenFinishes = finishes.length;
+    seenVoided = voided;
+    seenShifts = new Map(shifts.map(s => [s.id, s.endedAt]));
+    for (const day of cache.keys()) {
+      if (addBusinessDays(day, 1, settings) > earliest) cache.delete(day);
+    }
+  };
+
+  const scan = ({ from, to }, venue, settings, voided) => {
+    // Weekday history reaches back before the range
+    const historyFrom = from - (HISTORY_WEEKS * 7 + 1) * DAY_MS;
+    const all = ledger.list({ from: historyFrom, to, limit: Infinity }).entries
+      .filter(g => !voided.has(g.id))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const games = all.filter(g => g.timestamp >= from);
+
+    const byTV = new Map();
+    for (const game of games) {
+      if (!byTV.has(game.tvId)) byTV.set(game.tvId, []);
+      byTV.get(game.tvId).push(game);
+    }
+    const houseOf = (tvId) => venue.tvs.find(tv => tv.id === tvId)?.houseId || '';
+    const finishedAt = new Map(ledger.finishes({ from }).map(f => [f.gameId, f.endedAt]));
+    const workers = new Map(getWorkers().map(w => [w.id, w.name]));
+    const workerName = (id) => (id ? workers.get(id) : undefined);
+
+    return [
+      ...fastGames(byTV, houseOf, finishedAt, workerName),
+      ...cameraGaps(venue, games, { from, to }),
+      ...shiftEndBursts(games, { from, to }),
+      ...weekdayDeviations(venue, all, settings, { from, to }),
+    ].map(a => ({ id: `${a.type}-${a.tvId || a.houseId}-${a.from}`, ...a }));
+  };
+
+  // Scans whole business days, but only returns findings that start in
+  // [from, to).
+  const analyze = ({ from, to }, now = Date.now()) => {
+    if (!Number.isFinite(from) || !Number.isFinite(to) || to <= from) {
+      return { error: 'from and to must be timestamps with from before to', status: 400 };
+    }
+    const venue = getVenue();
+    const settings = getSettings();
+    const voided = new Set(ledger.voids().filter(v => v.status === 'approved').map(v => v.gameId));
+    invalidate(venue, settings, voided);
+
+    const days = [];
+    for (let day = getBusinessDayStart(from, settings); day < to; day = addBusinessDays(day, 1, settings)) days.push(day);
+    const missing = days.filter(day => !cache.has(day));
+    const found = new Map(days.map(day => [day, cache.get(day) || []]));
+    if (missing.length > 0) {
+      const scanFrom = missing[0];
+      const scanTo = addBusinessDays(missing[missing.length - 1], 1, settings);
+      const scanned = scan({ from: scanFrom, to: scanTo }, venue, settings, voided);
+      for (const day of missing) {
+        const end = addBusinessDays(day, 1, settings);
+        const findings = scanned.filter(a => a.from >= day && a.from < end);
+        found.set(day, findings);
+        if (end <= now) cache.set(day, findings);
+      }
+    }
+
+    const anomalies = [...found.values()].flat()
+      .filter(a => a.from >= from && a.from < to)
+      .sort((a, b) => b.from - a.from);
+    return { anomalies };
+  };
+
+  return { analyze, recordActivity, clearActivity };
+};
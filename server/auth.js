@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+
+// Ordered by privilege: a route open to a role is open to every role after it.
+export const ROLES = ['counter', 'manager', 'owner'];
+
+export const hasRole = (user, role) => ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+
+const HOUR_MS = 60 * 60 * 1000;
+// Counter phones stay paired for a season; people sign in for a working day.
+const SESSION_TTL_MS = { counter: 90 * 24 * HOUR_MS, manager: 12 * HOUR_MS, owner: 12 * HOUR_MS };
+
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Failure counts kept at most, oldest dropped first, so a flood of made-up
+// usernames can't grow them without bound.
+const MAX_TRACKED_KEYS = 10000;
+
+export const hashPassword = (password, salt = crypto.randomBytes(16).toString('hex')) => ({
+  salt,
+  hash: crypto.scryptSync(password, salt, 64).toString('hex'),
+});
+
+export const verifyPassword = (password, user) => {
+  const { hash } = hashPassword(password, user.salt);
+  return crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(user.hash, 'hex'));
+};
+
+// Counts failed attempts per key and locks a key out after `maxFailures` in a
+// row. A key is forgotten once its lockout, or `lockoutMs` since its last
+// failure, has passed.
+export const createAttemptLimiter = ({ maxFailures, lockoutMs }) => {
+  const failures = new Map(); // key -> { count, lastAt, lockedUntil }, oldest first
+
+  const prune = (now) => {
+    for (const [key, f] of failures) {
+      if (Math.max(f.lockedUntil, f.lastAt + lockoutMs) <= now) failures.delete(key);
+    }
+    for (const key of failures.keys()) {
+      if (failures.size <= MAX_TRACKED_KEYS) break;
+      failures.delete(key);
+    }
+  };
+
+  const isLocked = (key, now = Date.now()) => (failures.get(key)?.lockedUntil || 0) > now;
+
+  const fail = (key, now = Date.now()) => {
+    prune(now);
+    const count = (failures.get(key)?.count || 0) + 1;
+    failures.delete(key);
+    failures.set(key, { count, lastAt: now, lockedUntil: count >= maxFailures ? now + lockoutMs : 0 });
+  };
+
+  const succeed = (key) => {
+    failures.delete(key);
+  };
+
+  return { isLocked, fail, succeed };
+};
+
+// Unknown usernames are checked against this so they take as long to refuse
+// as a wrong password, and can't be told apart by timing.
+const DECOY_CREDENTIALS = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+// Only a digest of each token is stored, so a copy of the data directory
+// can't be used to take over live sessions.
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const publicUser = ({ salt, hash, ...user }) => user;
+
+const validatePassword = (password) =>
+  typeof password === 'string' && password.length >= 4 ? null : 'Password must be at least 4 characters';
+
+export const createAuth = (store) => {
+  const users = () => store.get('users');
+  const sessions = () => store.get('sessions');
+  const loginLimiter = createAttemptLimiter({ maxFailures: MAX_FAILED_LOGINS, lockoutMs: LOCKOUT_MS });
+
+  const activeOwners = () => users().filter(u => u.role === 'owner' && u.active);
+
+  // A fresh install gets a single owner account. The password comes from the
+  // environment or is generated and printed once.
+  const ensureOwner = (password) => {
+    if (users().length > 0) return null;
+    const initial = password || crypto.randomBytes(6).toString('base64url');
+    store.append('users', [{
+      id: Math.random().toString(36).substr(2, 9),
+      username: 'owner',
+      name: 'Owner',
+      role: 'owner',
+      active: true,
+      createdAt: Date.now(),
+      ...hashPassword(initial),
+    }]);
+    return password ? null : initial;
+  };
+
+  // Failures lock a username out only for the address (`clientAddress`) they
+  // came from, so wrong passwords from elsewhere can't keep the owner out.
+  const login = (username, password, clientAddress) => {
+    const key = String(username || '').trim().toLowerCase();
+    const attemptKey = `${clientAddress}|${key}`;
+    const now = Date.now();
+    if (loginLimiter.isLocked(attemptKey, now)) {
+      return { error: 'Too many attempts, try again later', status: 429 };
+    }
+    const user = users().find(u => u.username === key);
+    const matches = verifyPassword(typeof password === 'string' ? password : '', user || DECOY_CREDENTIALS);
+    if (!user || !user.active || typeof password !== 'string' || !matches) {
+      loginLimiter.fail(attemptKey, now);
+      return { error: 'Invalid username or password', status: 401 };
+    }
+    loginLimiter.succeed(attemptKey);
+
+    const live = sessions().filter(s => s.expiresAt > now);
+    if (live.length !== sessions().length) store.set('sessions', live);
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = now + SESSION_TTL_MS[user.role];
+    store.append('sessions', [{ tokenHash: hashToken(token), userId: user.id, createdAt: now, expiresAt }]);
+    return { session: { token, user: publicUser(user), expiresAt } };
+  };
+
+  const logout = (token) => {
+    const tokenHash = hashToken(token);
+    store.set('sessions', sessions().filter(s => s.tokenHash !== tokenHash));
+  };
+
+  const revokeUserSessions = (userId) => {
+    if (sessions().some(s => s.userId === userId)) {
+      store.set('sessions', sessions().filter(s => s.userId !== userId));
+    }
+  };
+
+  const authenticate = (token) => {
+    if (!token) return null;
+    const tokenHash = hashToken(token);
+    const session = sessions().find(s => s.tokenHash === tokenHash);
+    if (!session || session.expiresAt <= Date.now()) return null;
+    const user = users().find(u => u.id === session.userId);
+    return user && user.active ? publicUser(user) : null;
+  };
+
+  const listUsers = () => users().map(publicUser);
+
+  const addUser = ({ username, name, role, password }) => {
+    const key = typeof username === 'string' ? username.trim().toLowerCase() : '';
+    if (!/^[a-z0-9_-]{2,32}$/.test(key)) return { error: 'Username must be 2-32 letters, digits, - or _', status: 400 };
+    if (users().some(u => u.username === key)) return { error: 'Username already taken', status: 409 };
+    if (!ROLES.includes(role)) return { error: 'Invalid role', status: 400 };
+    const passwordError = validatePassword(password);
+    if (passwordError) return { error: passwordError, status: 400 };
+    const user = {
+      id: Math.random().toString(36).substr(2, 9),
+      username: key,
+      name: typeof name === 'string' && name.trim() ? name.trim() : key,
+      role,
+      active: true,
+      createdAt: Date.now(),
+      ...hashPassword(password),
+    };
+    store.append('users', [user]);
+    return { user: publicUser(user) };
+  };
+
+  const updateUser = (id, changes) => {
+    const user = users().find(u => u.id === id);
+    if (!user) return { error: 'Unknown user', status: 404 };
+    const patch = {};
+    if (typeof changes.name === 'string' && changes.name.trim()) patch.name = changes.name.trim();
+    if (changes.role !== undefined) {
+      if (!ROLES.includes(changes.role)) return { error: 'Invalid role', status: 400 };
+      patch.role = changes.role;
+    }
+    if (typeof changes.active === 'boolean') patch.active = changes.active;
+    if (changes.password !== undefined) {
+      const passwordError = validatePassword(changes.password);
+      if (passwordError) return { error: passwordError, status: 400 };
+      Object.assign(patch, hashPassword(changes.password));
+    }
+    const losesOwner = user.role === 'owner' && user.active && (patch.role && patch.role !== 'owner' || patch.active === false);
+    if (losesOwner && activeOwners().length === 1) {
+      return { error: 'Keep at least one active owner', status: 409 };
+    }
+    store.update('users', id, patch);
+    // Any change to who someone is or what they may do signs them out.
+    if (patch.role || patch.active === false || patch.hash) revokeUserSessions(id);
+    return { user: publicUser({ ...user, ...patch }) };
+  };
+
+  const removeUser = (id) => {
+    const user = users().find(u => u.id === id);
+    if (!user) return { error: 'Unknown user', status: 404 };
+    if (user.role === 'owner' && user.active && activeOwners().length === 1) {
+      return { error: 'Keep at least one active owner', status: 409 };
+    }
+    store.set('users', users().filter(u => u.id !== id));
+    revokeUserSessions(id);
+    return { user: publicUser(user) };
+  };
+
+  // Express middleware. EventSource can't set headers, so the stream passes
+  // the token as a query parameter instead.
+  const tokenFrom = (req) => {
+    const header = req.get('Authorization') || '';
+    if (header.startsWith('Bearer ')) return header.slice(7);
+    return typeof req.query.token === 'string' ? req.query.token : null;
+  };
+
+  const requireSession = (req, res, next) => {
+    req.token = tokenFrom(req);
+    req.user = authenticate(req.token);
+    if (!req.user) return res.status(401).json({ error: 'Sign in required' });
+    next();
+  };
+
+  const requireRole = (role) => (req, res, next) => {
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ error: 'Not allowed for your role' });
+    }
+    next();
+  };
+
+  return {
+    ensureOwner, login, logout,
+    listUsers, addUser, updateUser, removeUser,
+    requireSession, requireRole,
+  };
+};
@@ -0,0 +1,126 @@
+// Customer sessions, as marked by the attendant: every game on a TV up to the
+// next R separator belongs to one group of players. A session is closed by
+// its R; games after the last R in the range are still being played and are
+// counted as open, but left out of the averages and distributions.
+//
+// Duration runs from the first game's tap to the R that closed the session.
+
+export const LENGTH_BUCKETS = [
+  { label: '1', max: 1 },
+  { label: '2', max: 2 },
+  { label: '3', max: 3 },
+  { label: '4-5', max: 5 },
+  { label: '6-8', max: 8 },
+  { label: '9+', max: Infinity },
+];
+
+const MINUTE_MS = 60 * 1000;
+export const DURATION_BUCKETS = [
+  { label: '<15m', max: 15 * MINUTE_MS },
+  { label: '15-30m', max: 30 * MINUTE_MS },
+  { label: '30-60m', max: 60 * MINUTE_MS },
+  { label: '1-2h', max: 120 * MINUTE_MS },
+  { label: '2h+', max: Infinity },
+];
+
+const histogram = (buckets, values) => {
+  const counts = buckets.map(() => 0);
+  for (const value of values) counts[buckets.findIndex(b => value <= b.max)]++;
+  return counts;
+};
+
+const summarize = (sessions, openSessions) => {
+  const closed = sessions.length;
+  const total = (field) => sessions.reduce((sum, s) => sum + s[field], 0);
+  return {
+    sessions: closed,
+    openSessions,
+    avgGames: closed ? total('games') / closed : 0,
+    avgRevenue: closed ? total('revenue') / closed : 0,
+    avgDurationMs: closed ? total('duration') / closed : 0,
+    lengths: histogram(LENGTH_BUCKETS, sessions.map(s => s.games)),
+    durations: histogram(DURATION_BUCKETS, sessions.map(s => s.duration)),
+  };
+};
+
+export const createCustomerSessions = ({ ledger, getVenue }) => {
+  const analyze = ({ from, to }) => {
+    if (!Number.isFinite(from) || !Number.isFinite(to) || to <= from) {
+      return { error: 'from and to must be timestamps with from before to', status: 400 };
+    }
+    const venue = getVenue();
+    const voided = new Set(ledger.voids().filter(v => v.status === 'approved').map(v => v.gameId));
+    const byTV = new Map();
+    for (const game of ledger.list({ from, to, limit: Infinity }).entries) {
+      if (voided.has(game.id)) continue;
+      if (!byTV.has(game.tvId)) byTV.set(game.tvId, []);
+      byTV.get(game.tvId).push(game);
+    }
+
+    const sessions = []; // { tvId, houseId, games, revenue, duration, price }
+    const open = []; // { tvId, houseId, price } of runs no R has closed yet
+    for (const [tvId, games] of byTV) {
+      // A session belongs to the house its first game was logged in; entries
+      // from before houses were recorded fall back to the TV's house now.
+      const currentHouseId = venue.tvs.find(tv => tv.id === tvId)?.houseId || '';
+      const houseOf = (run) => run[0].houseId || currentHouseId;
+      games.sort((a, b) => a.timestamp - b.timestamp);
+      let run = [];
+      for (const game of games) {
+        if (!game.isSeparator) {
+          run.push(game);
+          continue;
+        }
+        if (run.length > 0) {
+          sessions.push({
+            tvId,
+            houseId: houseOf(run),
+            games: run.length,
+            revenue: run.reduce((sum, g) => sum + g.amount, 0),
+            duration: game.timestamp - run[0].timestamp,
+            // Price the group started on, to compare how long people play at each price.
+            price: run[0].amount,
+          });
+        }
+        run = [];
+      }
+      if (run.length > 0) open.push({ tvId, houseId: houseOf(run), price: run[0].amount });
+    }
+
+    const group = (keyOf, labelOf, compare) => {
+      const closedBy = new Map();
+      const openBy = new Map();
+      for (const s of sessions) {
+        if (!closedBy.has(keyOf(s))) closedBy.set(keyOf(s), []);
+        closedBy.get(keyOf(s)).push(s);
+      }
+      for (const s of open) openBy.set(keyOf(s), (openBy.get(keyOf(s)) || 0) + 1);
+      return [...new Set([...closedBy.keys(), ...openBy.keys()])]
+        .sort(compare)
+        .map(key => ({ key: String(key), label: labelOf(key), ...summarize(closedBy.get(key) || [], openBy.get(key) || 0) }));
+    };
+
+    const byVenueOrder = (ids) => (a, b) => {
+      const rank = (id) => (ids.includes(id) ? ids.indexOf(id) : ids.length);
+      return rank(a) - rank(b);
+    };
+    const houseOrder = [...venue.houses].sort((a, b) => a.sortOrder - b.sortOrder).map(h => h.id);
+    const tvOrder = houseOrder.flatMap(houseId =>
+      venue.tvs.filter(tv => tv.houseId === houseId).sort((a, b) => a.sortOrder - b.sortOrder).map(tv => tv.id));
+
+    return {
+      analysis: {
+        from,
+        to,
+        lengthBuckets: LENGTH_BUCKETS.map(b => b.label),
+        durationBuckets: DURATION_BUCKETS.map(b => b.label),
+        totals: summarize(sessions, open.length),
+        houses: group(s => s.houseId, id => venue.houses.find(h => h.id === id)?.name || id, byVenueOrder(houseOrder)),
+        tvs: group(s => s.tvId, id => venue.tvs.find(tv => tv.id === id)?.name || id, byVenueOrder(tvOrder)),
+        prices: group(s => s.price, price => `${price} ETB`, (a, b) => a - b),
+      },
+    };
+  };
+
+  return { analyze };
+};
@@ -0,0 +1,117 @@
+import { getZonedParts, getBusinessDayKey } from '../shared/businessDay.js';
+import { buildWorkbook } from './xlsx.js';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'];
+export const EXPORT_TABLES = ['games', 'daily', 'tvs'];
+
+const TABLE_NAMES = { games: 'Games', daily: 'Daily by House', tvs: 'By TV' };
+
+// Spreadsheet programs run cells starting with these as formulas, so text
+// that does is quoted with a leading apostrophe.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Excel only reads a CSV as UTF-8 when it starts with a byte-order mark.
+const toCsv = (rows) => '﻿' + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const pad = (n) => String(n).padStart(2, '0');
+
+// Ledger rows and the summaries the accountant asks for, as plain tables.
+// Raw games include voided ones, flagged, so the export can be checked
+// against the counter; the summaries leave them out like the dashboard does.
+export const createExport = ({ ledger, reports, getVenue, getSettings, getWorkers }) => {
+  const gamesTable = ({ from, to }) => {
+    const settings = getSettings();
+    const venue = getVenue();
+    const tvs = new Map(venue.tvs.map(tv => [tv.id, tv]));
+    const houses = new Map(venue.houses.map(h => [h.id, h.name]));
+    const workers = new Map(getWorkers().map(w => [w.id, w.name]));
+    const voided = new Set(ledger.voids().filter(v => v.status === 'approved').map(v => v.gameId));
+    const endedAt = new Map(ledger.finishes().map(f => [f.gameId, f.endedAt]));
+    const entries = ledger.list({ from, to, limit: Infinity }).entries
+      .slice()
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return [
+      ['Business Day', 'Time', 'House', 'TV', 'Price (ETB)', 'Separator', 'Completed', 'Length (s)', 'Worker', 'Voided', 'Entry ID'],
+      ...entries.map(g => {
+        const p = getZonedParts(g.timestamp, settings.timeZone);
+        const tv = tvs.get(g.tvId);
+        const houseId = g.houseId || tv?.houseId;
+        return [
+          getBusinessDayKey(g.timestamp, settings),
+          `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`,
+          houses.get(houseId) || houseId || '',
+          tv?.name || g.tvId,
+          g.amount,
+          g.isSeparator ? 'yes' : 'no',
+          g.completed ? 'yes' : 'no',
+          endedAt.has(g.id) ? Math.round((endedAt.get(g.id) - g.timestamp) / 1000) : '',
+          g.workerId ? workers.get(g.workerId) || g.workerId : '',
+          voided.has(g.id) ? 'yes' : 'no',
+          g.id,
+        ];
+      }),
+    ];
+  };
+
+  const dailyTable = ({ from, to }) => {
+    const { report } = reports.report({ from, to, groupBy: 'day', thenBy: 'house' });
+    return [
+      ['Business Day', 'House', 'Games', 'Sessions', 'Revenue (ETB)'],
+      ...report.rows.map(r => [r.key, r.subLabel, r.games, r.sessions, r.revenue]),
+    ];
+  };
+
+  const tvTable = ({ from, to }) => {
+    const venue = getVenue();
+    const tvs = new Map(venue.tvs.map(tv => [tv.id, tv]));
+    const houses = new Map(venue.houses.map(h => [h.id, h.name]));
+    const { report } = reports.report({ from, to, groupBy: 'tv' });
+    return [
+      ['House', 'TV', 'Games', 'Sessions', 'Revenue (ETB)'],
+      ...report.rows.map(r => {
+        const houseId = tvs.get(r.key)?.houseId;
+        return [houses.get(houseId) || houseId || '', r.label, r.games, r.sessions, r.revenue];
+      }),
+    ];
+  };
+
+  const TABLES = { games: gamesTable, daily: dailyTable, tvs: tvTable };
+
+  // CSV carries one table; a workbook carries all of them, one per sheet.
+  const build = ({ from, to, format, table = 'games' }) => {
+    if (!EXPORT_FORMATS.includes(format)) return { error: `format must be one of ${EXPORT_FORMATS.join(', ')}`, status: 400 };
+    if (format === 'csv' && !EXPORT_TABLES.includes(table)) {
+      return { error: `table must be one of ${EXPORT_TABLES.join(', ')}`, status: 400 };
+    }
+    if (!Number.isFinite(from) || !Number.isFinite(to) || to <= from) {
+      return { error: 'from and to must be timestamps with from before to', status: 400 };
+    }
+    const settings = getSettings();
+    const span = `${getBusinessDayKey(from, settings)}_${getBusinessDayKey(to - 1, settings)}`;
+    if (format === 'csv') {
+      return {
+        file: {
+          filename: `${table}-${span}.csv`,
+          contentType: 'text/csv; charset=utf-8',
+          body: toCsv(TABLES[table]({ from, to })),
+        },
+      };
+    }
+    return {
+      file: {
+        filename: `ledger-${span}.xlsx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        body: buildWorkbook(EXPORT_TABLES.map(t => ({ name: TABLE_NAMES[t], rows: TABLES[t]({ from, to }) }))),
+      },
+    };
+  };
+
+  return { build };
+};
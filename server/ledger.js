@@ -0,0 +1,191 @@
+import { UNDO_WINDOW_MS } from '../shared/ledger.js';
+
+// Append-only games ledger. Every entry carries a client-generated `id` that
+// doubles as its idempotency key: re-sending an entry the server already holds
+// returns the stored copy rather than counting it twice. The server stamps each
+// new entry with a monotonically increasing `seq` so clients can order writes
+// that arrived from different counter phones, with the house its TV is in at
+// that moment, and with `receivedAt`, the server's own time of receipt.
+// Games are credited to the attendant of the shift they name, and only once
+// that shift's clock-in has been accepted here.
+
+// Covers the round trip from the tap to the undo request reaching us.
+const UNDO_GRACE_MS = 5000;
+export const DEFAULT_PAGE = 500;
+export const MAX_PAGE = 2000;
+
+// A phone that was offline may send games logged days ago, but nothing from
+// further back than this or from the future beyond clock drift.
+const MAX_BACKDATE_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 60 * 60 * 1000;
+const MAX_AMOUNT = 100000;
+
+// Returns why an entry can't go in the ledger, or null if it can.
+export const validateEntry = (entry, { hasTV, now = Date.now() }) => {
+  if (!entry || typeof entry.id !== 'string' || entry.id.length === 0) return 'Entry needs an id';
+  if (typeof entry.tvId !== 'string' || !hasTV(entry.tvId)) return 'Unknown TV';
+  if (!Number.isFinite(entry.timestamp) || entry.timestamp < now - MAX_BACKDATE_MS || entry.timestamp > now + MAX_CLOCK_SKEW_MS) {
+    return 'Timestamp out of range';
+  }
+  if (!Number.isFinite(entry.amount) || entry.amount < 0 || entry.amount > MAX_AMOUNT) return 'Amount out of range';
+  return null;
+};
+
+export const createLedger = (store, { getHouseOf, getShift }) => {
+  const index = new Map();
+  const finished = new Map(); // gameId -> finish
+  let nextSeq = 1;
+
+  const reindex = () => {
+    index.clear();
+    finished.clear();
+    nextSeq = 1;
+    for (const entry of store.get('games')) {
+      index.set(entry.id, entry);
+      nextSeq = Math.max(nextSeq, (entry.seq || 0) + 1);
+    }
+    for (const finish of store.get('finishes')) finished.set(finish.gameId, finish);
+  };
+  reindex();
+
+  // Returns the stored version of each entry, in request order, and how many
+  // of them were new.
+  const append = (entries, now = Date.now()) => {
+    const added = [];
+    const result = entries.map((entry) => {
+      const existing = index.get(entry.id);
+      if (existing) return existing;
+      const shift = typeof entry.shiftId === 'string' ? getShift(entry.shiftId) : undefined;
+      const stored = {
+        id: entry.id,
+        tvId: entry.tvId,
+        timestamp: entry.timestamp,
+        completed: entry.completed !== false,
+        amount: entry.amount,
+        ...(getHouseOf(entry.tvId) ? { houseId: getHouseOf(entry.tvId) } : {}),
+        ...(entry.isSeparator ? { isSeparator: true } : {}),
+        ...(shift ? { workerId: shift.workerId, shiftId: shift.id } : {}),
+        seq: nextSeq++,
+        receivedAt: now,
+      };
+      index.set(stored.id, stored);
+      added.push(stored);
+      return stored;
+    });
+    store.append('games', added);
+    return { entries: result, added: added.length };
+  };
+
+  // Voids are tombstones kept alongside the ledger rather than deletions, so
+  // a device still holding the original entry can't bring it back on merge.
+  // An undo sent within UNDO_WINDOW_MS of the tap is applied straight away;
+  // anything else waits for the owner to approve or reject it. The tap time
+  // comes from the phone, so the undo must also follow our receipt of the
+  // entry that closely: a skewed clock or an entry synced late can't stretch
+  // the window. Entries stored before receipt times were kept always wait.
+  const requestVoid = ({ id, gameId, reason, source }) => {
+    const existing = store.get('voids').find(v => v.id === id);
+    if (existing) return { void: existing, created: false };
+
+    const game = index.get(gameId);
+    if (!game) return { error: 'Unknown game' };
+
+    const now = Date.now();
+    const withinWindow = (time) => now - time <= UNDO_WINDOW_MS + UNDO_GRACE_MS;
+    const isUndo = source === 'undo' && typeof game.receivedAt === 'number'
+      && withinWindow(game.receivedAt) && withinWindow(game.timestamp);
+    const tombstone = {
+      id,
+      gameId,
+      reason: String(reason || '').slice(0, 200),
+      source: isUndo ? 'undo' : 'request',
+      status: isUndo ? 'approved' : 'pending',
+      requestedAt: now,
+      ...(isUndo ? { resolvedAt: now } : {}),
+    };
+    store.append('voids', [tombstone]);
+    return { void: tombstone, created: true };
+  };
+
+  const resolveVoid = (id, status) => {
+    const tombstone = store.get('voids').find(v => v.id === id);
+    if (!tombstone) return { error: 'Unknown void' };
+    if (tombstone.status !== 'pending') return { error: 'Void already resolved' };
+    store.update('voids', id, { status, resolvedAt: Date.now() });
+    return { void: tombstone };
+  };
+
+  // A timed game is logged when it starts, with `completed: false`, and is
+  // charged from then on. Its end arrives later; entries never change once
+  // stored, so the end is kept alongside the ledger like a void. The first
+  // finish sent for a game wins.
+  const finishGame = ({ gameId, endedAt }) => {
+    const existing = finished.get(gameId);
+    if (existing) return { finish: existing, created: false };
+    const game = index.get(gameId);
+    if (!game) return { error: 'Unknown game', status: 404 };
+    if (typeof endedAt !== 'number' || endedAt < game.timestamp) return { error: 'Invalid end time', status: 400 };
+    const finish = { gameId, endedAt };
+    finished.set(gameId, finish);
+    store.append('finishes', [finish]);
+    return { finish, created: true };
+  };
+
+  const listFinishes = ({ from = -Infinity, to = Infinity } = {}) =>
+    store.get('finishes').filter(f => f.endedAt >= from && f.endedAt < to);
+
+  // Change feed over the ledger, ordered by `seq`. Returns up to `limit`
+  // entries with seq > since, optionally restricted to a timestamp range.
+  // `cursor` is what the client should send as `since` next time: the last
+  // returned seq while there are more pages, then the ledger head.
+  const list = ({ since = 0, from = -Infinity, to = Infinity, limit = DEFAULT_PAGE }) => {
+    const games = store.get('games');
+    let lo = 0;
+    let hi = games.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (games[mid].seq <= since) lo = mid + 1;
+      else hi = mid;
+    }
+    const entries = [];
+    let i = lo;
+    for (; i < games.length && entries.length < limit; i++) {
+      const g = games[i];
+      if (g.timestamp >= from && g.timestamp < to) entries.push(g);
+    }
+    const hasMore = i < games.length;
+    const cursor = hasMore ? games[i - 1].seq : nextSeq - 1;
+    return { entries, cursor, hasMore };
+  };
+
+  // What the counter should have taken during a shift: its games minus any
+  // approved voids.
+  const shiftRevenue = (shiftId) => {
+    const voided = new Set(store.get('voids').filter(v => v.status === 'approved').map(v => v.gameId));
+    return store.get('games')
+      .filter(g => g.shiftId === shiftId && !voided.has(g.id))
+      .reduce((sum, g) => sum + g.amount, 0);
+  };
+
+  const clear = () => {
+    store.set('games', []);
+    store.set('voids', []);
+    store.set('finishes', []);
+    reindex();
+  };
+
+  return {
+    all: () => store.get('games'),
+    head: () => nextSeq - 1,
+    get: (id) => index.get(id),
+    list,
+    voids: () => store.get('voids'),
+    append,
+    requestVoid,
+    resolveVoid,
+    finishes: listFinishes,
+    finishGame,
+    shiftRevenue,
+    clear,
+  };
+};
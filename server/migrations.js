@@ -0,0 +1,123 @@
+import { DEFAULT_VENUE } from '../shared/venue.js';
+import { DEFAULT_SETTINGS } from '../shared/businessDay.js';
+
+// Schema history for the persisted ledger. Bump SCHEMA_VERSION and add a step
+// to MIGRATIONS whenever a shape in types.ts changes; each step receives the
+// state as written by the previous version and returns the upgraded state.
+export const SCHEMA_VERSION = 5;
+
+// Out of the box every house should log at least two games an hour while
+// the venue is open.
+const DEFAULT_YIELD_RULE = {
+  id: 'default-low-yield',
+  type: 'low_yield',
+  targetId: null,
+  schedule: [{ fromHour: 0, minimum: 2 }],
+  cooldownMinutes: 60,
+  createdAt: 0,
+};
+
+export const DEFAULT_STATE = {
+  games: [],
+  priceRules: [],
+  events: [],
+  voids: [],
+  finishes: [],
+  venue: DEFAULT_VENUE,
+  settings: DEFAULT_SETTINGS,
+  users: [],
+  sessions: [],
+  workers: [],
+  shifts: [],
+  reconciliations: [],
+  zReports: [],
+  alertRules: [DEFAULT_YIELD_RULE],
+  alerts: [],
+  cameraActivity: [],
+  webhooks: [],
+  webhookDeliveries: [],
+  epoch: null,
+};
+
+const MIGRATIONS = {
+  // v0: data written before the store was versioned, e.g. a copy of a
+  // phone's localStorage dropped into the data directory by hand.
+  0: (state) => ({
+    ...state,
+    games: (state.games || [])
+      .filter(g => g && g.id && g.tvId)
+      .map(g => ({
+        ...g,
+        timestamp: Number(g.timestamp) || 0,
+        completed: g.completed !== false,
+        amount: Number(g.amount) || 0,
+      })),
+    prices: state.prices || {},
+    events: state.events || [],
+  }),
+  // v1 -> v2: games gain a server-assigned `seq`. Existing entries are
+  // numbered in timestamp order.
+  1: (state) => ({
+    ...state,
+    games: [...state.games]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((g, i) => ({ ...g, seq: i + 1 })),
+  }),
+  // v2 -> v3: the flat per-TV price map becomes scheduled price rules. Each
+  // old override turns into an all-day TV rule that has always applied.
+  2: ({ prices = {}, ...state }) => ({
+    ...state,
+    priceRules: Object.entries(prices)
+      .filter(([, price]) => Number.isFinite(Number(price)))
+      .map(([tvId, price]) => ({
+        id: `legacy-${tvId}`,
+        scope: 'tv',
+        targetId: tvId,
+        price: Number(price),
+        days: [],
+        effectiveFrom: 0,
+        createdAt: 0,
+      })),
+  }),
+  // v3 -> v4: per-house low-yield thresholds become alert rules with a
+  // single all-day step. Houses without one keep falling back to the
+  // default rule merged in from DEFAULT_STATE, as they did to the default
+  // threshold before.
+  3: ({ thresholds = {}, ...state }) => ({
+    ...state,
+    alertRules: [
+      ...(state.alertRules || []),
+      ...Object.entries(thresholds)
+        .filter(([, minimum]) => Number.isInteger(Number(minimum)) && Number(minimum) >= 0)
+        .map(([houseId, minimum]) => ({
+          id: `legacy-yield-${houseId}`,
+          type: 'low_yield',
+          targetId: houseId,
+          schedule: [{ fromHour: 0, minimum: Number(minimum) }],
+          cooldownMinutes: 60,
+          createdAt: 0,
+        })),
+    ],
+  }),
+  // v4 -> v5: games record the house their TV was in when logged, so moving
+  // a TV later doesn't rewrite past house totals. Existing entries take the
+  // house their TV is in now.
+  4: (state) => {
+    const houseOf = new Map((state.venue || DEFAULT_VENUE).tvs.map(tv => [tv.id, tv.houseId]));
+    return {
+      ...state,
+      games: state.games.map(g => (g.houseId || !houseOf.has(g.tvId) ? g : { ...g, houseId: houseOf.get(g.tvId) })),
+    };
+  },
+};
+
+export const migrate = (state, fromVersion) => {
+  let next = state;
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`No migration from schema version ${v}`);
+    console.log(`Migrating stored data from schema v${v} to v${v + 1}`);
+    next = step(next);
+  }
+  return next;
+};
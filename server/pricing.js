@@ -0,0 +1,101 @@
+import { getZonedParts } from '../shared/businessDay.js';
+
+// Scheduled price rules. Rules are never edited in place once they have taken
+// effect: ending one stamps `effectiveTo`, so the price history stays intact.
+const cleanDays = (days) =>
+  Array.isArray(days)
+    ? [...new Set(days.map(Number).filter(d => Number.isInteger(d) && d >= 0 && d <= 6))].sort((a, b) => a - b)
+    : [];
+
+const cleanHour = (hour, max) => {
+  if (hour === undefined || hour === null || hour === '') return undefined;
+  const h = Number(hour);
+  return Number.isInteger(h) && h >= 0 && h <= max ? h : NaN;
+};
+
+// A rule may start from the beginning of today in any time zone, and be
+// scheduled no more than a couple of years out.
+const MAX_BACKDATE_MS = 2 * 24 * 60 * 60 * 1000;
+const MAX_SCHEDULE_AHEAD_MS = 2 * 365 * 24 * 60 * 60 * 1000;
+
+export const validateRule = (input, venue, now = Date.now()) => {
+  const scope = input.scope === 'house' ? 'house' : input.scope === 'tv' ? 'tv' : null;
+  if (!scope) return { error: 'Scope must be tv or house' };
+  const targetExists = scope === 'tv'
+    ? venue.tvs.some(tv => tv.id === input.targetId)
+    : venue.houses.some(h => h.id === input.targetId);
+  if (!targetExists) return { error: `Unknown ${scope}` };
+
+  const price = Number(input.price);
+  if (!Number.isFinite(price) || price < 0) return { error: 'Invalid price' };
+
+  const startHour = cleanHour(input.startHour, 23);
+  const endHour = cleanHour(input.endHour, 24);
+  if (Number.isNaN(startHour) || Number.isNaN(endHour) || (startHour === undefined) !== (endHour === undefined)) {
+    return { error: 'Hour window needs a start (0-23) and an end (1-24)' };
+  }
+  if (startHour !== undefined && startHour === endHour) return { error: 'Hour window is empty' };
+
+  const effectiveFrom = Number(input.effectiveFrom);
+  if (!Number.isFinite(effectiveFrom) || effectiveFrom < now - MAX_BACKDATE_MS || effectiveFrom > now + MAX_SCHEDULE_AHEAD_MS) {
+    return { error: 'Effective date must be between today and two years from now' };
+  }
+
+  return {
+    rule: {
+      scope,
+      targetId: input.targetId,
+      price,
+      days: cleanDays(input.days),
+      ...(startHour !== undefined ? { startHour, endHour } : {}),
+      effectiveFrom,
+    },
+  };
+};
+
+export const createPricing = (store, { getVenue }) => {
+  const list = () => store.get('priceRules');
+
+  const add = (input) => {
+    const now = Date.now();
+    const { rule, error } = validateRule(input, getVenue(), now);
+    if (error) return { error, status: 400 };
+    const stored = { id: Math.random().toString(36).substr(2, 9), ...rule, createdAt: now };
+    store.append('priceRules', [stored]);
+    return { rule: stored };
+  };
+
+  // A rule that has already applied to games is closed rather than removed.
+  const end = (id) => {
+    const rule = list().find(r => r.id === id);
+    if (!rule) return { error: 'Unknown rule', status: 404 };
+    if (rule.effectiveTo != null) return { error: 'Rule already ended', status: 409 };
+    const now = Date.now();
+    if (rule.effectiveFrom > now) {
+      store.set('priceRules', list().filter(r => r.id !== id));
+      return { rule, removed: true };
+    }
+    store.update('priceRules', id, { effectiveTo: now });
+    return { rule };
+  };
+
+  return { list, add, end };
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const pad = (h) => `${String(h).padStart(2, '0')}:00`;
+
+// One line for the event log, e.g. "TV A1 → 1500 Sun,Sat 06:00–12:00 from 2026-10-24".
+export const describeRule = (rule, venue, settings) => {
+  const target = rule.scope === 'tv'
+    ? venue.tvs.find(tv => tv.id === rule.targetId)?.name ?? rule.targetId
+    : venue.houses.find(h => h.id === rule.targetId)?.name ?? rule.targetId;
+  const days = rule.days.length ? ` ${rule.days.map(d => DAY_NAMES[d]).join(',')}` : '';
+  const hours = rule.startHour != null ? ` ${pad(rule.startHour)}–${pad(rule.endHour)}` : '';
+  const start = getZonedParts(rule.effectiveFrom, settings.timeZone);
+  const from = `${start.year}-${String(start.month).padStart(2, '0')}-${String(start.day).padStart(2, '0')}`;
+  return `${target} → ${rule.price}${days}${hours} from ${from}`;
+};
+
+export const ruleHouseId = (rule, venue) =>
+  rule.scope === 'house' ? rule.targetId : venue.tvs.find(tv => tv.id === rule.targetId)?.houseId;
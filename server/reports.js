@@ -0,0 +1,196 @@
+import {
+  getZonedParts, getBusinessDayKey, getBusinessWeekStart, parseBusinessDayKey,
+} from '../shared/businessDay.js';
+
+export const GROUPINGS = ['house', 'tv', 'worker', 'hour', 'day', 'week', 'month'];
+
+const TIME_GROUPINGS = ['day', 'week', 'month'];
+
+// Totals per business day, kept in memory and brought up to date on each
+// query: new ledger entries are added by seq, newly approved voids are taken
+// back out, and a wipe or a change to the business-day settings rebuilds the
+// lot. Each day holds one cell per TV, worker and hour of the day, which is
+// enough to answer every grouping without going back to the ledger.
+//
+// A session is one customer's run of games on a TV, closed by the attendant
+// tapping R, so sessions count the separators. Timed games count towards the
+// day they started on once they are finished, with `playMs` their summed
+// length, so average duration is playMs / timedGames.
+export const createReports = (store, { ledger, getVenue, getSettings }) => {
+  let days = new Map(); // dayKey -> Map<cellKey, cell>
+  let seenSeq = 0;
+  let voided = new Set();
+  let played = new Map(); // gameId -> duration of finished games counted so far
+  let seenFinishes = 0;
+  let builtFor = '';
+
+  const cellFor = (game, settings) => {
+    const dayKey = getBusinessDayKey(game.timestamp, settings);
+    const hour = getZonedParts(game.timestamp, settings.timeZone).hour;
+    const workerId = game.workerId || '';
+    // Entries from before houses were recorded fall back to the TV's house now
+    const houseId = game.houseId || getVenue().tvs.find(tv => tv.id === game.tvId)?.houseId || '';
+    const key = `${game.tvId}|${houseId}|${workerId}|${hour}`;
+    let day = days.get(dayKey);
+    if (!day) days.set(dayKey, (day = new Map()));
+    let cell = day.get(key);
+    if (!cell) day.set(key, (cell = { tvId: game.tvId, houseId, workerId, hour, games: 0, revenue: 0, sessions: 0, timedGames: 0, playMs: 0 }));
+    return cell;
+  };
+
+  // Games are charged when they start, so a timed game still running counts.
+  const count = (game, settings, sign) => {
+    const cell = cellFor(game, settings);
+    if (game.isSeparator) cell.sessions += sign;
+    else cell.games += sign;
+    cell.revenue += sign * game.amount;
+    if (played.has(game.id)) {
+      cell.timedGames += sign;
+      cell.playMs += sign * played.get(game.id);
+    }
+  };
+
+  const reset = (signature) => {
+    days = new Map();
+    seenSeq = 0;
+    voided = new Set();
+    played = new Map();
+    seenFinishes = 0;
+    builtFor = signature;
+  };
+
+  // Marks move past each entry as it is counted, so nothing is counted twice.
+  // Should anything still throw halfway, the totals are rebuilt next time
+  // rather than trusted.
+  const sync = () => {
+    const settings = getSettings();
+    const signature = `${store.get('epoch')}|${settings.businessDayStartHour}|${settings.timeZone}`;
+    if (signature !== builtFor) reset(signature);
+
+    try {
+      const approved = new Set(ledger.voids().filter(v => v.status === 'approved').map(v => v.gameId));
+      const fresh = ledger.list({ since: seenSeq, limit: Infinity });
+      for (const game of fresh.entries) {
+        if (approved.has(game.id)) voided.add(game.id);
+        else count(game, settings, 1);
+        seenSeq = game.seq;
+      }
+      seenSeq = fresh.cursor;
+      // Finishes only ever name games already in the ledger, so every game they
+      // refer to has been counted above.
+      const finishes = store.get('finishes');
+      for (; seenFinishes < finishes.length; seenFinishes++) {
+        const { gameId, endedAt } = finishes[seenFinishes];
+        const game = ledger.get(gameId);
+        if (!game || game.isSeparator || approved.has(gameId)) continue;
+        played.set(gameId, endedAt - game.timestamp);
+        const cell = cellFor(game, settings);
+        cell.timedGames += 1;
+        cell.playMs += endedAt - game.timestamp;
+      }
+      // Voids of games counted in an earlier sync come off their day here.
+      for (const gameId of approved) {
+        if (voided.has(gameId)) continue;
+        const game = ledger.get(gameId);
+        if (game && game.seq <= seenSeq) count(game, settings, -1);
+        voided.add(gameId);
+      }
+    } catch (e) {
+      reset('');
+      throw e;
+    }
+    return settings;
+  };
+
+  const labelFor = (groupBy, key, venue) => {
+    switch (groupBy) {
+      case 'house': return venue.houses.find(h => h.id === key)?.name || key;
+      case 'tv': return venue.tvs.find(tv => tv.id === key)?.name || key;
+      case 'worker': return key ? store.get('workers').find(w => w.id === key)?.name || key : 'Unassigned';
+      case 'hour': return `${key.padStart(2, '0')}:00`;
+      case 'week': return `Week of ${key}`;
+      default: return key;
+    }
+  };
+
+  // Ranges are widened to whole business days: a day is included when any
+  // part of it falls inside [from, to). `thenBy` optionally splits each group
+  // again, e.g. day then house, giving one row per pair.
+  const report = ({ from, to, groupBy, thenBy }) => {
+    for (const grouping of thenBy === undefined ? [groupBy] : [groupBy, thenBy]) {
+      if (!GROUPINGS.includes(grouping)) return { error: `Groupings must be one of ${GROUPINGS.join(', ')}`, status: 400 };
+    }
+    if (!Number.isFinite(from) || !Number.isFinite(to) || to <= from) {
+      return { error: 'from and to must be timestamps with from before to', status: 400 };
+    }
+    const settings = sync();
+    const venue = getVenue();
+    const firstDay = getBusinessDayKey(from, settings);
+    const lastDay = getBusinessDayKey(to - 1, settings);
+
+    const weekOf = new Map();
+    const weekKey = (dayKey) => {
+      if (!weekOf.has(dayKey)) {
+        weekOf.set(dayKey, getBusinessDayKey(getBusinessWeekStart(parseBusinessDayKey(dayKey, settings), settings), settings));
+      }
+      return weekOf.get(dayKey);
+    };
+
+    const keyFor = (grouping, cell, dayKey) => {
+      switch (grouping) {
+        case 'house': return cell.houseId;
+        case 'tv': return cell.tvId;
+        case 'worker': return cell.workerId;
+        case 'hour': return String(cell.hour);
+        case 'day': return dayKey;
+        case 'week': return weekKey(dayKey);
+        case 'month': return dayKey.slice(0, 7);
+      }
+    };
+
+    const groups = new Map();
+    const totals = { games: 0, revenue: 0, sessions: 0, timedGames: 0, playMs: 0 };
+    for (const [dayKey, day] of days) {
+      if (dayKey < firstDay || dayKey > lastDay) continue;
+      for (const cell of day.values()) {
+        const key = keyFor(groupBy, cell, dayKey);
+        const subKey = thenBy === undefined ? undefined : keyFor(thenBy, cell, dayKey);
+        const groupKey = subKey === undefined ? key : `${key}|${subKey}`;
+        let group = groups.get(groupKey);
+        if (!group) groups.set(groupKey, (group = { key, ...(subKey === undefined ? {} : { subKey }), games: 0, revenue: 0, sessions: 0, timedGames: 0, playMs: 0 }));
+        for (const field of ['games', 'revenue', 'sessions', 'timedGames', 'playMs']) {
+          group[field] += cell[field];
+          totals[field] += cell[field];
+        }
+      }
+    }
+
+    // Time groupings read oldest first and hours from the business-day cutoff;
+    // everything else leads with the biggest earner.
+    const compareBy = (grouping, keyOf) => {
+      if (TIME_GROUPINGS.includes(grouping)) return (a, b) => keyOf(a).localeCompare(keyOf(b));
+      if (grouping === 'hour') {
+        const sinceCutoff = (row) => (Number(keyOf(row)) - settings.businessDayStartHour + 24) % 24;
+        return (a, b) => sinceCutoff(a) - sinceCutoff(b);
+      }
+      const revenueOf = new Map();
+      for (const row of groups.values()) revenueOf.set(keyOf(row), (revenueOf.get(keyOf(row)) || 0) + row.revenue);
+      return (a, b) => revenueOf.get(keyOf(b)) - revenueOf.get(keyOf(a));
+    };
+    const byGroup = compareBy(groupBy, row => row.key);
+    const bySubGroup = thenBy === undefined ? () => 0 : compareBy(thenBy, row => row.subKey);
+
+    const rows = Array.from(groups.values())
+      .filter(g => g.games || g.revenue || g.sessions)
+      .map(g => ({
+        ...g,
+        label: labelFor(groupBy, g.key, venue),
+        ...(thenBy === undefined ? {} : { subLabel: labelFor(thenBy, g.subKey, venue) }),
+      }))
+      .sort((a, b) => byGroup(a, b) || bySubGroup(a, b));
+
+    return { report: { groupBy, ...(thenBy === undefined ? {} : { thenBy }), from, to, firstDay, lastDay, rows, totals } };
+  };
+
+  return { report };
+};
@@ -0,0 +1,41 @@
+import { DEFAULT_SETTINGS, isValidTimeZone } from '../shared/businessDay.js';
+
+// Venue-wide settings. Only the fields below are accepted; anything else in
+// a request is ignored.
+export const createSettings = (store) => {
+  // Fields added after a venue saved its settings take their defaults.
+  const get = () => ({ ...DEFAULT_SETTINGS, ...store.get('settings') });
+
+  const update = (changes) => {
+    const patch = {};
+    if (changes.businessDayStartHour !== undefined) {
+      const hour = Number(changes.businessDayStartHour);
+      if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+        return { error: 'Business day must start on an hour from 0 to 23', status: 400 };
+      }
+      patch.businessDayStartHour = hour;
+    }
+    if (changes.timeZone !== undefined) {
+      if (typeof changes.timeZone !== 'string' || !isValidTimeZone(changes.timeZone)) {
+        return { error: 'Unknown timezone', status: 400 };
+      }
+      patch.timeZone = changes.timeZone;
+    }
+    for (const field of ['openingHour', 'closingHour']) {
+      if (changes[field] === undefined) continue;
+      const hour = Number(changes[field]);
+      if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+        return { error: 'Opening hours must be hours from 0 to 23', status: 400 };
+      }
+      patch[field] = hour;
+    }
+    if (changes.timedGames !== undefined) {
+      if (typeof changes.timedGames !== 'boolean') return { error: 'timedGames must be true or false', status: 400 };
+      patch.timedGames = changes.timedGames;
+    }
+    store.set('settings', { ...get(), ...patch });
+    return { settings: get() };
+  };
+
+  return { get, update };
+};
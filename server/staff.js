@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { hashPassword, verifyPassword, createAttemptLimiter, hasRole } from './auth.js';
+import { OFFLINE_PIN_ITERATIONS } from '../shared/staff.js';
+
+// Attendants and their shifts. Attendants aren't API accounts: they share the
+// counter device's session and prove who they are with a PIN when clocking in.
+const PIN_PATTERN = /^\d{4,6}$/;
+const SHIFT_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+// How far back a clock-in made offline may start, and how far ahead of our
+// clock a phone's may be.
+const MAX_OFFLINE_SHIFT_MS = 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 60 * 60 * 1000;
+const MAX_FAILED_PINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Counters get `pinSalt` so an offline clock-in can queue a hash of the PIN
+// rather than the PIN; `pinCheck` is that hash, kept to check it against.
+export const publicWorker = ({ salt, hash, pinCheck, ...worker }) => worker;
+
+const hashOfflinePin = (pin, pinSalt) =>
+  crypto.pbkdf2Sync(pin, pinSalt, OFFLINE_PIN_ITERATIONS, 32, 'sha256').toString('hex');
+
+const offlinePin = (pin) => {
+  const pinSalt = crypto.randomBytes(16).toString('hex');
+  return { pinSalt, pinCheck: hashOfflinePin(pin, pinSalt) };
+};
+
+const matchesOfflinePin = (pinHash, worker) =>
+  typeof pinHash === 'string' && !!worker.pinCheck && pinHash.length === worker.pinCheck.length &&
+  crypto.timingSafeEqual(Buffer.from(pinHash), Buffer.from(worker.pinCheck));
+
+export const createStaff = (store, { hasHouse }) => {
+  const workers = () => store.get('workers');
+  const shifts = () => store.get('shifts');
+  const pinLimiter = createAttemptLimiter({ maxFailures: MAX_FAILED_PINS, lockoutMs: LOCKOUT_MS });
+
+  const listWorkers = () => workers().map(publicWorker);
+
+  const addWorker = ({ name, pin }) => {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) return { error: 'Name is required', status: 400 };
+    if (!PIN_PATTERN.test(String(pin))) return { error: 'PIN must be 4-6 digits', status: 400 };
+    const worker = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: trimmed,
+      active: true,
+      createdAt: Date.now(),
+      ...hashPassword(String(pin)),
+      ...offlinePin(String(pin)),
+    };
+    store.append('workers', [worker]);
+    return { worker: publicWorker(worker) };
+  };
+
+  const updateWorker = (id, changes) => {
+    const worker = workers().find(w => w.id === id);
+    if (!worker) return { error: 'Unknown worker', status: 404 };
+    const patch = {};
+    if (typeof changes.name === 'string' && changes.name.trim()) patch.name = changes.name.trim();
+    if (typeof changes.active === 'boolean') patch.active = changes.active;
+    if (changes.pin !== undefined) {
+      if (!PIN_PATTERN.test(String(changes.pin))) return { error: 'PIN must be 4-6 digits', status: 400 };
+      Object.assign(patch, hashPassword(String(changes.pin)), offlinePin(String(changes.pin)));
+    }
+    store.update('workers', id, patch);
+    return { worker: publicWorker({ ...worker, ...patch }) };
+  };
+
+  const getShift = (id) => shifts().find(s => s.id === id);
+  const openShiftFor = (workerId) => shifts().find(s => s.workerId === workerId && !s.endedAt);
+
+  const clockOut = (id) => {
+    const shift = shifts().find(s => s.id === id);
+    if (!shift) return { error: 'Unknown shift', status: 404 };
+    if (shift.endedAt) return { shift };
+    const endedAt = Date.now();
+    store.update('shifts', id, { endedAt });
+    return { shift: { ...shift, endedAt }, ended: true };
+  };
+
+  // Clocking in at one house closes any shift the worker left open elsewhere;
+  // clocking in again at the same house resumes the open shift.
+  //
+  // A counter that couldn't reach us clocks in provisionally under a shift id
+  // of its own and sends the clock-in, with when it started, once it can. It
+  // sends the PIN hashed with the worker's `pinSalt` in place of the PIN, and
+  // that is checked then; a replay of that id returns the stored shift.
+  //
+  // Wrong PINs lock the worker out on the counter account (`deviceId`) they
+  // were tried from, so guessing on one phone can't lock them out of another.
+  const clockIn = ({ workerId, pin, pinHash, houseId, id, startedAt }, deviceId) => {
+    const now = Date.now();
+    const attemptKey = `${deviceId}|${workerId}`;
+    if (pinLimiter.isLocked(attemptKey, now)) {
+      return { error: 'Too many wrong PINs, try again later', status: 429 };
+    }
+    const provisional = id !== undefined;
+    const worker = workers().find(w => w.id === workerId);
+    const verified = !!worker && worker.active && (provisional && pin === undefined
+      ? matchesOfflinePin(pinHash, worker)
+      : verifyPassword(String(pin ?? ''), worker));
+    if (!verified) {
+      pinLimiter.fail(attemptKey, now);
+      return { error: 'Wrong worker or PIN', status: 403 };
+    }
+    pinLimiter.succeed(attemptKey);
+    // Workers added before offline clock-in get their PIN hash the first
+    // time they clock in online.
+    if (pin !== undefined && !worker.pinCheck) store.update('workers', worker.id, offlinePin(String(pin)));
+    if (!hasHouse(houseId)) return { error: 'Unknown house', status: 400 };
+    if (provisional) {
+      if (!SHIFT_ID_PATTERN.test(String(id))) return { error: 'Invalid shift id', status: 400 };
+      const existing = getShift(id);
+      if (existing) return existing.workerId === workerId ? { shift: existing } : { error: 'Shift id already used', status: 409 };
+      if (!Number.isFinite(startedAt) || startedAt < now - MAX_OFFLINE_SHIFT_MS || startedAt > now + MAX_CLOCK_SKEW_MS) {
+        return { error: 'Invalid shift start', status: 400 };
+      }
+    }
+    const open = openShiftFor(workerId);
+    if (open && open.houseId === houseId && !provisional) return { shift: open };
+    const closed = open ? clockOut(open.id).shift : null;
+    const shift = {
+      id: provisional ? id : Math.random().toString(36).substr(2, 9),
+      workerId,
+      workerName: worker.name,
+      houseId,
+      startedAt: provisional ? startedAt : now,
+      deviceId,
+    };
+    store.append('shifts', [shift]);
+    return { shift, created: true, closed };
+  };
+
+  // Closing a shift records what the attendant counted against what the
+  // ledger says they took, then clocks them out. A shift is reconciled once,
+  // on the counter it was opened on or by a manager.
+  const closeShift = (id, { cash, mobileMoney, note }, expected, user) => {
+    const shift = shifts().find(s => s.id === id);
+    if (!shift) return { error: 'Unknown shift', status: 404 };
+    if (shift.deviceId !== user.id && !hasRole(user, 'manager')) {
+      return { error: 'Shift was opened on another device', status: 403 };
+    }
+    if (store.get('reconciliations').some(r => r.shiftId === id)) {
+      return { error: 'Shift already closed', status: 409 };
+    }
+    const counted = { cash: Number(cash), mobileMoney: Number(mobileMoney || 0) };
+    if (![counted.cash, counted.mobileMoney].every(n => Number.isFinite(n) && n >= 0)) {
+      return { error: 'Counted amounts must be zero or more', status: 400 };
+    }
+    const ended = clockOut(id).shift;
+    const total = counted.cash + counted.mobileMoney;
+    const reconciliation = {
+      id: Math.random().toString(36).substr(2, 9),
+      shiftId: id,
+      workerId: shift.workerId,
+      workerName: shift.workerName,
+      houseId: shift.houseId,
+      startedAt: shift.startedAt,
+      endedAt: ended.endedAt,
+      expected,
+      cash: counted.cash,
+      mobileMoney: counted.mobileMoney,
+      difference: total - expected,
+      ...(typeof note === 'string' && note.trim() ? { note: note.trim().slice(0, 200) } : {}),
+    };
+    store.append('reconciliations', [reconciliation]);
+    return { reconciliation, shift: ended };
+  };
+
+  const listReconciliations = ({ from = -Infinity, to = Infinity } = {}) =>
+    store.get('reconciliations').filter(r => r.endedAt >= from && r.endedAt < to);
+
+  // Shifts that overlap [from, to).
+  const listShifts = ({ from = -Infinity, to = Infinity } = {}) =>
+    shifts().filter(s => s.startedAt < to && (s.endedAt ?? Infinity) > from);
+
+  return { listWorkers, addWorker, updateWorker, getShift, clockIn, closeShift, listShifts, listReconciliations };
+};
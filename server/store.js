@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+
+// Durable key/value store backed by a JSON snapshot plus an append-only
+// journal. Every mutation is appended to the journal before it is applied in
+// memory, and the journal is folded into a fresh snapshot once it grows past
+// COMPACT_AFTER entries. On startup the snapshot is loaded, migrated to the
+// current schema version and the journal is replayed on top of it.
+//
+// Each snapshot starts a new journal generation and every journal line is
+// stamped with the generation it was written in. Replay skips lines from
+// before the snapshot, so a crash between writing the snapshot and emptying
+// the journal can't apply the same ops twice.
+const SNAPSHOT_FILE = 'snapshot.json';
+const JOURNAL_FILE = 'journal.ndjson';
+const COMPACT_AFTER = 500;
+
+const clone = (value) => JSON.parse(JSON.stringify(value));
+
+const applyOp = (state, op) => {
+  switch (op.op) {
+    case 'set':
+      state[op.key] = op.value;
+      break;
+    case 'append':
+      if (!Array.isArray(state[op.key])) state[op.key] = [];
+      state[op.key].push(...op.items);
+      break;
+    case 'update': {
+      const item = (state[op.key] || []).find(i => i.id === op.id);
+      if (item) Object.assign(item, op.changes);
+      break;
+    }
+    default:
+      console.warn(`Skipping unknown journal op: ${op.op}`);
+  }
+};
+
+export const openStore = ({ dir, defaults, version, migrate }) => {
+  fs.mkdirSync(dir, { recursive: true });
+  const snapshotPath = path.join(dir, SNAPSHOT_FILE);
+  const journalPath = path.join(dir, JOURNAL_FILE);
+
+  let state = clone(defaults);
+  let storedVersion = version;
+  let generation = 0;
+
+  if (fs.existsSync(snapshotPath)) {
+    const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
+    storedVersion = snapshot.version || 0;
+    generation = snapshot.generation || 0;
+    state = { ...state, ...snapshot.state };
+  }
+
+  let journalLength = 0;
+  if (fs.existsSync(journalPath)) {
+    const lines = fs.readFileSync(journalPath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const op = JSON.parse(line);
+        // Already folded into the snapshot
+        if ((op.gen || 0) < generation) continue;
+        applyOp(state, op);
+        journalLength++;
+      } catch (e) {
+        // A torn final line from a crash mid-write is expected; drop it.
+        console.warn('Ignoring unreadable journal line');
+      }
+    }
+  }
+
+  const writeSnapshot = () => {
+    const tmpPath = `${snapshotPath}.tmp`;
+    generation++;
+    fs.writeFileSync(tmpPath, JSON.stringify({ version, generation, savedAt: Date.now(), state }));
+    fs.renameSync(tmpPath, snapshotPath);
+    fs.writeFileSync(journalPath, '');
+    journalLength = 0;
+  };
+
+  // Without a snapshot the journal is the only record of which schema wrote
+  // it; the first versioned release (v1) is the only one that could have.
+  if (!fs.existsSync(snapshotPath) && journalLength > 0) {
+    storedVersion = 1;
+  }
+
+  if (storedVersion > version) {
+    throw new Error(`Stored data is schema v${storedVersion}, newer than this server (v${version})`);
+  }
+  if (storedVersion < version) {
+    state = migrate(state, storedVersion);
+    writeSnapshot();
+  } else if (!fs.existsSync(snapshotPath)) {
+    writeSnapshot();
+  }
+
+  const commit = (op) => {
+    fs.appendFileSync(journalPath, JSON.stringify({ ...op, gen: generation }) + '\n');
+    applyOp(state, op);
+    journalLength++;
+    if (journalLength >= COMPACT_AFTER) writeSnapshot();
+  };
+
+  return {
+    get: (key) => state[key],
+    set: (key, value) => commit({ op: 'set', key, value }),
+    append: (key, items) => {
+      if (items.length > 0) commit({ op: 'append', key, items });
+    },
+    update: (key, id, changes) => commit({ op: 'update', key, id, changes }),
+    compact: writeSnapshot,
+  };
+};
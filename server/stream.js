@@ -0,0 +1,57 @@
+import { hasRole } from './auth.js';
+
+// Server-sent events channel. Clients connect to /api/stream?topics=a,b and
+// only receive the topics they asked for, so counter phones aren't sent video
+// frames meant for the owner. A broadcast may also be limited to the signed-in
+// users, or the video viewers (?viewer=<id>), it is meant for. A comment line
+// is written periodically to keep proxies from closing idle connections.
+const KEEPALIVE_MS = 25000;
+
+// Topics that carry what the REST API only shows to some roles. A client asking
+// for one its role can't read just doesn't get it; the rest are open to every
+// signed-in device, like their routes.
+const TOPIC_ROLES = {
+  events: 'manager',
+  alerts: 'manager',
+  'alert-rules': 'manager',
+  shifts: 'manager',
+  reconciliations: 'manager',
+  reports: 'manager',
+  webhooks: 'owner',
+  'webhook-deliveries': 'owner',
+};
+
+export const createStream = () => {
+  const clients = new Set();
+
+  const handler = (req, res) => {
+    const topics = new Set(String(req.query.topics || '').split(',')
+      .filter(topic => topic && (!TOPIC_ROLES[topic] || hasRole(req.user, TOPIC_ROLES[topic]))));
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write('retry: 3000\n\n');
+
+    const client = { res, topics, user: req.user, viewerId: String(req.query.viewer || '') };
+    clients.add(client);
+    const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+
+    req.on('close', () => {
+      clearInterval(keepalive);
+      clients.delete(client);
+    });
+  };
+
+  const broadcast = (topic, data, isFor = () => true) => {
+    const message = `event: ${topic}\ndata: ${JSON.stringify(data ?? null)}\n\n`;
+    for (const client of clients) {
+      if (client.topics.has(topic) && isFor(client.user, client.viewerId)) client.res.write(message);
+    }
+  };
+
+  return { handler, broadcast };
+};
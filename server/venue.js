@@ -0,0 +1,94 @@
+// Houses and TVs are configured at runtime; shared/venue.js only seeds them. TVs
+// and houses that have ever been used are retired (active: false) instead of
+// deleted so historical games still resolve to a name, house and price.
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+const cleanHouse = (input, existing = {}) => ({
+  ...existing,
+  ...(input.name !== undefined ? { name: String(input.name).trim().slice(0, 40) } : {}),
+  ...(input.sortOrder !== undefined ? { sortOrder: Number(input.sortOrder) || 0 } : {}),
+  ...(input.active !== undefined ? { active: !!input.active } : {}),
+});
+
+const cleanTV = (input, existing = {}) => ({
+  ...existing,
+  ...(input.name !== undefined ? { name: String(input.name).trim().slice(0, 40) } : {}),
+  ...(input.houseId !== undefined ? { houseId: String(input.houseId) } : {}),
+  ...(input.pricePerGame !== undefined ? { pricePerGame: Math.max(0, Number(input.pricePerGame) || 0) } : {}),
+  ...(input.sortOrder !== undefined ? { sortOrder: Number(input.sortOrder) || 0 } : {}),
+  ...(input.active !== undefined ? { active: !!input.active } : {}),
+  ...(input.outOfService !== undefined ? { outOfService: !!input.outOfService } : {}),
+});
+
+export const createVenue = (store, { isTVInUse, pushEvent }) => {
+  const get = () => store.get('venue');
+  const save = (venue) => store.set('venue', venue);
+  const hasHouse = (id) => get().houses.some(h => h.id === id);
+  // Retired TVs still count: phones may be sending games logged before.
+  const hasTV = (id) => get().tvs.some(tv => tv.id === id);
+
+  const addHouse = (input) => {
+    if (!ID_PATTERN.test(input.id || '')) return { error: 'Invalid house id', status: 400 };
+    if (hasHouse(input.id)) return { error: 'House already exists', status: 409 };
+    const house = cleanHouse({ name: input.id, sortOrder: get().houses.length + 1, active: true, ...input }, { id: input.id });
+    if (!house.name) return { error: 'Name is required', status: 400 };
+    save({ ...get(), houses: [...get().houses, house] });
+    return { house };
+  };
+
+  const updateHouse = (id, input) => {
+    const existing = get().houses.find(h => h.id === id);
+    if (!existing) return { error: 'Unknown house', status: 404 };
+    const house = cleanHouse(input, existing);
+    if (!house.name) return { error: 'Name is required', status: 400 };
+    save({ ...get(), houses: get().houses.map(h => (h.id === id ? house : h)) });
+    return { house };
+  };
+
+  const removeHouse = (id) => {
+    if (!hasHouse(id)) return { error: 'Unknown house', status: 404 };
+    if (get().tvs.some(tv => tv.houseId === id)) {
+      return { error: 'House still has TVs; retire it instead', status: 409 };
+    }
+    save({ ...get(), houses: get().houses.filter(h => h.id !== id) });
+    return {};
+  };
+
+  const addTV = (input) => {
+    if (!ID_PATTERN.test(input.id || '')) return { error: 'Invalid TV id', status: 400 };
+    if (get().tvs.some(tv => tv.id === input.id)) return { error: 'TV already exists', status: 409 };
+    const tv = cleanTV({ name: `TV ${input.id}`, pricePerGame: 0, sortOrder: get().tvs.filter(t => t.houseId === input.houseId).length + 1, active: true, ...input }, { id: input.id });
+    if (!hasHouse(tv.houseId)) return { error: 'Unknown house', status: 400 };
+    save({ ...get(), tvs: [...get().tvs, tv] });
+    return { tv };
+  };
+
+  const updateTV = (id, input) => {
+    const existing = get().tvs.find(tv => tv.id === id);
+    if (!existing) return { error: 'Unknown TV', status: 404 };
+    const tv = cleanTV(input, existing);
+    if (!hasHouse(tv.houseId)) return { error: 'Unknown house', status: 400 };
+    save({ ...get(), tvs: get().tvs.map(t => (t.id === id ? tv : t)) });
+    // The base price is what games fall back to without a rule, so changing it
+    // goes in the event log like any price rule.
+    if (tv.pricePerGame !== existing.pricePerGame) {
+      pushEvent({
+        type: 'price_change',
+        houseId: tv.houseId,
+        tvId: id,
+        detail: `Base price: ${tv.name} ${existing.pricePerGame} → ${tv.pricePerGame}`,
+      });
+    }
+    return { tv };
+  };
+
+  const removeTV = (id) => {
+    if (!get().tvs.some(tv => tv.id === id)) return { error: 'Unknown TV', status: 404 };
+    if (isTVInUse(id)) return { error: 'TV has logged games; retire it instead', status: 409 };
+    save({ ...get(), tvs: get().tvs.filter(tv => tv.id !== id) });
+    return {};
+  };
+
+  return { get, hasHouse, hasTV, addHouse, updateHouse, removeHouse, addTV, updateTV, removeTV };
+};
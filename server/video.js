@@ -0,0 +1,242 @@
+const VIDEO_QUALITIES = ['low', 'medium', 'high'];
+const SIGNAL_TYPES = ['offer', 'answer', 'candidate'];
+const VIEWER_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+// Recent audio chunks per house, so a listener that polls can catch up.
+const MAX_AUDIO_QUEUE = 10;
+// Signals are held briefly so an end that (re)connects late can fetch what it
+// missed; a new offer for the same connection starts over.
+const MAX_SIGNALS = 100;
+// Dashboards re-announce themselves while they watch or listen; one that
+// stops (a closed tab, a dropped phone) is let go after this long.
+export const VIEWER_TIMEOUT_MS = 30000;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Live video and audio from the counter phones, one session per house. A
+// session is made of its viewers: every dashboard that watches or listens
+// joins under its own viewer id, so two managers, or one owner with both
+// houses side by side, never tear down each other's view.
+//
+// A house's video is requested when its first viewer starts watching, goes
+// active when the counter picks up, and ends when the last viewer stops.
+// Audio runs while anyone listens, independently of video. Quality belongs to
+// the house, as the counter sends one picture.
+//
+// Frames and audio only go to the viewers watching or listening to that
+// house, and only to the account that joined as the viewer.
+//
+// Each watching viewer gets its own peer connection with the counter, named
+// by the viewer's rtcId; the server only relays its offer, answer and ICE
+// candidates, and only between a counter account and the account that owns
+// the viewer. Frames posted here are the fallback for viewers whose link
+// isn't up.
+//
+// Everything here is live state, lost on restart like the heartbeats.
+export const createVideo = ({ getVenue, pushEvent }) => {
+  const sessions = new Map(); // houseId -> session
+  let signals = [];
+  let signalSeq = 0;
+
+  const hasHouse = (houseId) => getVenue().houses.some(h => h.id === houseId);
+
+  const getSession = (houseId) => {
+    if (!sessions.has(houseId)) {
+      sessions.set(houseId, {
+        houseId,
+        status: 'idle',
+        audioStatus: 'idle',
+        quality: 'medium',
+        lastRequestTime: 0,
+        lastOnlineSignalTime: 0,
+        startedAt: null,
+        viewers: [],
+        frame: null,
+        audioFrames: [],
+      });
+    }
+    return sessions.get(houseId);
+  };
+
+  // As broadcast to clients; frames and audio travel on their own topics.
+  const toPublic = ({ frame, audioFrames, viewers, ...session }) => ({
+    ...session,
+    viewers: viewers.map(({ seenAt, userId, ...viewer }) => viewer),
+  });
+
+  const list = () => getVenue().houses.map(h => toPublic(getSession(h.id)));
+
+  // Whether `user` has `viewerId` watching (or listening to) the house.
+  const isViewing = (houseId, viewerId, user, how) =>
+    !!sessions.get(houseId)?.viewers.some(v => v.id === viewerId && v.userId === user.id && v[how]);
+  const isWatching = (houseId, viewerId, user) => isViewing(houseId, viewerId, user, 'watching');
+  const isListening = (houseId, viewerId, user) => isViewing(houseId, viewerId, user, 'listening');
+
+  const get = (houseId, viewerId, user) => {
+    if (!hasHouse(houseId)) return { error: 'Unknown house', status: 404 };
+    const session = getSession(houseId);
+    return {
+      session: {
+        ...toPublic(session),
+        frame: isWatching(houseId, viewerId, user) ? session.frame : null,
+        audioFrames: isListening(houseId, viewerId, user) ? session.audioFrames : [],
+      },
+    };
+  };
+
+  const dropSignals = (rtcId) => {
+    signals = signals.filter(s => s.rtcId !== rtcId);
+  };
+
+  // Brings status in line with the viewers left and records the lifecycle.
+  const settle = (session, now) => {
+    session.viewers = session.viewers.filter(v => v.watching || v.listening);
+    const watching = session.viewers.some(v => v.watching);
+    if (watching && session.status === 'idle') {
+      session.status = 'requested';
+      session.lastRequestTime = now;
+      pushEvent({ type: 'video_request', houseId: session.houseId, timestamp: now });
+    } else if (!watching && session.status !== 'idle') {
+      if (session.status === 'active') {
+        pushEvent({ type: 'video_session_ended', houseId: session.houseId, timestamp: now, duration: now - session.startedAt });
+      }
+      session.status = 'idle';
+      session.startedAt = null;
+      session.frame = null;
+    }
+    const listening = session.viewers.some(v => v.listening);
+    session.audioStatus = listening ? 'active' : 'idle';
+    if (!listening) session.audioFrames = [];
+  };
+
+  // Joins, updates or keeps alive one viewer. Only reports `changed` when
+  // something clients can see moved, so keep-alives aren't broadcast.
+  const setViewer = (houseId, viewerId, { watching, listening }, user, now = Date.now()) => {
+    if (!hasHouse(houseId)) return { error: 'Unknown house', status: 404 };
+    if (!VIEWER_ID_PATTERN.test(viewerId || '')) return { error: 'Invalid viewer id', status: 400 };
+    const session = getSession(houseId);
+    const before = JSON.stringify(toPublic(session));
+
+    let viewer = session.viewers.find(v => v.id === viewerId);
+    if (viewer && viewer.userId !== user.id) return { error: 'Viewer id belongs to someone else', status: 403 };
+    if (!viewer) {
+      viewer = { id: viewerId, userId: user.id, name: user.name, rtcId: null, watching: false, listening: false, joinedAt: now };
+      session.viewers.push(viewer);
+    }
+    if (watching !== undefined) {
+      if (watching && !viewer.watching) viewer.rtcId = newId();
+      if (!watching && viewer.rtcId) {
+        dropSignals(viewer.rtcId);
+        viewer.rtcId = null;
+      }
+      viewer.watching = !!watching;
+    }
+    if (listening !== undefined) viewer.listening = !!listening;
+    viewer.seenAt = now;
+    settle(session, now);
+
+    const after = toPublic(session);
+    return { session: after, changed: JSON.stringify(after) !== before };
+  };
+
+  const removeViewer = (houseId, viewerId, user) => setViewer(houseId, viewerId, { watching: false, listening: false }, user);
+
+  // Returns whether any session changed, so the caller knows to broadcast.
+  const sweep = (now = Date.now()) => {
+    let changed = false;
+    for (const session of sessions.values()) {
+      const stale = session.viewers.filter(v => now - v.seenAt > VIEWER_TIMEOUT_MS);
+      if (stale.length === 0) continue;
+      for (const viewer of stale) {
+        if (viewer.rtcId) dropSignals(viewer.rtcId);
+      }
+      session.viewers = session.viewers.filter(v => !stale.includes(v));
+      settle(session, now);
+      changed = true;
+    }
+    return changed;
+  };
+
+  // Changes from the counter (picked up, came online) or from a viewer
+  // (quality) that aren't about who is watching.
+  const update = (houseId, changes, now = Date.now()) => {
+    if (!hasHouse(houseId)) return { error: 'Unknown house', status: 404 };
+    const session = getSession(houseId);
+    if (changes.quality !== undefined) {
+      if (!VIDEO_QUALITIES.includes(changes.quality)) return { error: `Quality must be one of ${VIDEO_QUALITIES.join(', ')}`, status: 400 };
+      session.quality = changes.quality;
+    }
+    if (changes.status !== undefined) {
+      if (changes.status !== 'active') return { error: 'Only the counter picking up can change the status', status: 400 };
+      // A pick-up after every viewer left has nothing to join
+      if (session.status === 'requested') {
+        session.status = 'active';
+        session.startedAt = now;
+      }
+    }
+    if (changes.lastOnlineSignalTime !== undefined && changes.lastOnlineSignalTime !== session.lastOnlineSignalTime) {
+      session.lastOnlineSignalTime = Number(changes.lastOnlineSignalTime) || now;
+      pushEvent({ type: 'counter_online', houseId, timestamp: now });
+    }
+    return { session: toPublic(session) };
+  };
+
+  // Returns whether anyone is watching to receive the frame.
+  const recordFrame = (houseId, frame) => {
+    const session = sessions.get(houseId);
+    if (!session || session.status === 'idle') return false;
+    session.frame = frame;
+    return true;
+  };
+
+  // Returns the queued chunk, or null when nobody is listening.
+  const recordAudio = (houseId, data) => {
+    const session = sessions.get(houseId);
+    if (!session || session.audioStatus !== 'active') return null;
+    const frame = { id: Date.now(), houseId, data };
+    session.audioFrames.push(frame);
+    if (session.audioFrames.length > MAX_AUDIO_QUEUE) session.audioFrames.shift();
+    return frame;
+  };
+
+  const viewerWith = (rtcId) => {
+    for (const session of sessions.values()) {
+      const viewer = session.viewers.find(v => v.rtcId === rtcId);
+      if (viewer) return viewer;
+    }
+    return null;
+  };
+
+  // Whether `user` may act as `end` of the connection named by `rtcId`.
+  const isEnd = (rtcId, user, end) =>
+    end === 'counter' ? user.role === 'counter' : viewerWith(rtcId)?.userId === user.id;
+
+  // A signal is for the other end from the one that sent it.
+  const isSignalFor = (signal, user) => isEnd(signal.rtcId, user, signal.from === 'counter' ? 'owner' : 'counter');
+
+  const listSignals = (rtcId, user) => {
+    if (typeof rtcId !== 'string' || !rtcId) return { error: 'rtcId is required', status: 400 };
+    if (!isEnd(rtcId, user, 'counter') && !isEnd(rtcId, user, 'owner')) {
+      return { error: 'Not your video connection', status: 403 };
+    }
+    return { signals: signals.filter(s => s.rtcId === rtcId) };
+  };
+
+  const addSignal = ({ rtcId, from, type, sdp, candidate }, user) => {
+    if ((from !== 'counter' && from !== 'owner') || !SIGNAL_TYPES.includes(type)) {
+      return { error: 'Invalid signal', status: 400 };
+    }
+    if (type === 'candidate' ? typeof candidate !== 'object' || candidate === null : typeof sdp !== 'string') {
+      return { error: 'Invalid signal', status: 400 };
+    }
+    if (!rtcId || !viewerWith(rtcId)) return { error: 'No video session is negotiating under that id', status: 409 };
+    if (!isEnd(rtcId, user, from)) return { error: 'Not your video connection', status: 403 };
+    if (type === 'offer') dropSignals(rtcId);
+    const signal = { seq: ++signalSeq, rtcId, from, type, ...(type === 'candidate' ? { candidate } : { sdp }) };
+    signals.push(signal);
+    if (signals.length > MAX_SIGNALS) signals.shift();
+    return { signal };
+  };
+
+  return { list, get, isWatching, isListening, setViewer, removeViewer, sweep, update, recordFrame, recordAudio, listSignals, addSignal, isSignalFor };
+};
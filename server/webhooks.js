@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+
+export const WEBHOOK_EVENTS = [
+  'game_logged',
+  'game_voided',
+  'game_finished',
+  'yield_alert',
+  'tv_idle',
+  'counter_offline',
+  'counter_online',
+  'video_request',
+  'video_session_ended',
+  'price_change',
+];
+
+// Wait before each retry; a delivery gives up after the last one fails.
+const RETRY_DELAYS_MS = [30, 60, 5 * 60, 15 * 60, 60 * 60].map(s => s * 1000);
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const TIMEOUT_MS = 10000;
+// The log keeps the latest deliveries; older ones are trimmed in batches.
+const MAX_LOG = 200;
+const TRIM_SLACK = 50;
+
+const generateSecret = () => crypto.randomBytes(24).toString('hex');
+
+export const signPayload = (secret, timestamp, body) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+const cleanEvents = (events) => {
+  if (!Array.isArray(events) || events.length === 0) return null;
+  const unique = [...new Set(events)];
+  return unique.every(e => WEBHOOK_EVENTS.includes(e)) ? unique : null;
+};
+
+const cleanUrl = (url) => {
+  try {
+    const parsed = new URL(String(url));
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.toString() : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Outbound webhooks. Each subscription names a URL and the events it wants;
+// every matching event becomes a delivery, POSTed as JSON and signed with the
+// subscription's secret:
+//
+//   X-Webhook-Timestamp: <ms since epoch>
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+//
+// A delivery that times out or gets a non-2xx answer is retried with growing
+// delays, and given up on after MAX_ATTEMPTS. Deliveries are stored, so
+// pending retries survive a restart; `deliverDue` runs on a timer to send them.
+export const createWebhooks = (store, { onChange = () => {}, send = fetch } = {}) => {
+  const inFlight = new Set();
+
+  const list = () => store.get('webhooks');
+  const listDeliveries = ({ webhookId } = {}) => store.get('webhookDeliveries')
+    .filter(d => !webhookId || d.webhookId === webhookId)
+    .slice()
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const add = ({ url, events }) => {
+    const cleanedUrl = cleanUrl(url);
+    if (!cleanedUrl) return { error: 'URL must be an http or https address', status: 400 };
+    const cleanedEvents = cleanEvents(events);
+    if (!cleanedEvents) return { error: `Events must be one or more of ${WEBHOOK_EVENTS.join(', ')}`, status: 400 };
+    const webhook = {
+      id: Math.random().toString(36).substr(2, 9),
+      url: cleanedUrl,
+      events: cleanedEvents,
+      secret: generateSecret(),
+      active: true,
+      createdAt: Date.now(),
+    };
+    store.append('webhooks', [webhook]);
+    return { webhook };
+  };
+
+  const update = (id, changes) => {
+    const webhook = list().find(w => w.id === id);
+    if (!webhook) return { error: 'Unknown webhook', status: 404 };
+    const patch = {};
+    if (changes.url !== undefined) {
+      patch.url = cleanUrl(changes.url);
+      if (!patch.url) return { error: 'URL must be an http or https address', status: 400 };
+    }
+    if (changes.events !== undefined) {
+      patch.events = cleanEvents(changes.events);
+      if (!patch.events) return { error: `Events must be one or more of ${WEBHOOK_EVENTS.join(', ')}`, status: 400 };
+    }
+    if (changes.active !== undefined) {
+      if (typeof changes.active !== 'boolean') return { error: 'active must be true or false', status: 400 };
+      patch.active = changes.active;
+    }
+    if (changes.rotateSecret === true) patch.secret = generateSecret();
+    store.update('webhooks', id, patch);
+    return { webhook: { ...webhook, ...patch } };
+  };
+
+  const remove = (id) => {
+    const webhook = list().find(w => w.id === id);
+    if (!webhook) return { error: 'Unknown webhook', status: 404 };
+    store.set('webhooks', list().filter(w => w.id !== id));
+    return { webhook };
+  };
+
+  const trimLog = () => {
+    const deliveries = store.get('webhookDeliveries');
+    if (deliveries.length <= MAX_LOG + TRIM_SLACK) return;
+    // Pending deliveries are kept whatever their age, so none is lost.
+    const keep = new Set(listDeliveries().slice(0, MAX_LOG).map(d => d.id));
+    store.set('webhookDeliveries', deliveries.filter(d => keep.has(d.id) || d.status === 'pending'));
+  };
+
+  const attempt = async (delivery) => {
+    const webhook = list().find(w => w.id === delivery.webhookId);
+    if (!webhook || inFlight.has(delivery.id)) return;
+    inFlight.add(delivery.id);
+    const timestamp = Date.now();
+    let outcome;
+    try {
+      const response = await send(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'fifa-pro-game-counter',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signPayload(webhook.secret, timestamp, delivery.body)}`,
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      outcome = response.ok
+        ? { ok: true, responseStatus: response.status }
+        : { ok: false, responseStatus: response.status, error: `HTTP ${response.status}` };
+    } catch (e) {
+      outcome = { ok: false, error: e.name === 'TimeoutError' ? 'Timed out' : e.message };
+    } finally {
+      inFlight.delete(delivery.id);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const { ok, ...result } = outcome;
+    const patch = ok
+      ? { status: 'delivered', attempts, lastAttemptAt: timestamp, deliveredAt: Date.now(), nextAttemptAt: null, error: null, ...result }
+      : attempts >= MAX_ATTEMPTS
+        ? { status: 'failed', attempts, lastAttemptAt: timestamp, nextAttemptAt: null, responseStatus: null, ...result }
+        : { status: 'pending', attempts, lastAttemptAt: timestamp, nextAttemptAt: timestamp + RETRY_DELAYS_MS[attempts - 1], responseStatus: null, ...result };
+    store.update('webhookDeliveries', delivery.id, patch);
+    onChange();
+  };
+
+  const enqueue = (webhook, event, data) => {
+    const id = Math.random().toString(36).substr(2, 9);
+    const createdAt = Date.now();
+    const delivery = {
+      id,
+      webhookId: webhook.id,
+      url: webhook.url,
+      event,
+      body: JSON.stringify({ id, event, createdAt, data }),
+      status: 'pending',
+      attempts: 0,
+      createdAt,
+      nextAttemptAt: createdAt,
+    };
+    store.append('webhookDeliveries', [delivery]);
+    trimLog();
+    attempt(delivery);
+    return delivery;
+  };
+
+  // Fire-and-forget: callers never wait on a subscriber's server.
+  const emit = (event, data) => {
+    const targets = list().filter(w => w.active && w.events.includes(event));
+    for (const webhook of targets) enqueue(webhook, event, data);
+    if (targets.length > 0) onChange();
+  };
+
+  const test = (id) => {
+    const webhook = list().find(w => w.id === id);
+    if (!webhook) return { error: 'Unknown webhook', status: 404 };
+    const delivery = enqueue(webhook, 'ping', { message: 'Test delivery' });
+    return { delivery };
+  };
+
+  const retry = (id) => {
+    const delivery = store.get('webhookDeliveries').find(d => d.id === id);
+    if (!delivery) return { error: 'Unknown delivery', status: 404 };
+    if (delivery.status !== 'failed') return { error: 'Only failed deliveries can be retried', status: 409 };
+    if (!list().some(w => w.id === delivery.webhookId)) return { error: 'Its webhook has been deleted', status: 409 };
+    const patch = { status: 'pending', attempts: 0, nextAttemptAt: Date.now() };
+    store.update('webhookDeliveries', id, patch);
+    attempt({ ...delivery, ...patch });
+    return { delivery: { ...delivery, ...patch } };
+  };
+
+  const deliverDue = (now = Date.now()) => {
+    const webhookIds = new Set(list().map(w => w.id));
+    for (const delivery of store.get('webhookDeliveries')) {
+      if (delivery.status !== 'pending' || delivery.nextAttemptAt > now) continue;
+      if (webhookIds.has(delivery.webhookId)) {
+        attempt(delivery);
+      } else {
+        store.update('webhookDeliveries', delivery.id, { status: 'failed', nextAttemptAt: null, error: 'Webhook deleted' });
+        onChange();
+      }
+    }
+  };
+
+  return { list, listDeliveries, add, update, remove, emit, test, retry, deliverDue };
+};
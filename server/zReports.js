@@ -0,0 +1,81 @@
+import { parseBusinessDayKey, addBusinessDays } from '../shared/businessDay.js';
+
+// End-of-day Z-reports. Each one is a snapshot of a business day taken when
+// it was generated and kept as is, so reopening an old report shows what was
+// printed at the time even if games are voided or TVs renamed later. A day
+// holds one report; generating it again only replaces it when asked to.
+export const createZReports = (store, { reports, staff, getVenue, getSettings }) => {
+  const list = () => store.get('zReports')
+    .map(({ day, generatedAt, generatedBy, partial, totals }) => ({ day, generatedAt, generatedBy, partial, totals }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+
+  const get = (day) => {
+    const report = store.get('zReports').find(r => r.day === day);
+    return report ? { report } : { error: 'No report for that day', status: 404 };
+  };
+
+  const build = (day, from, to, user) => {
+    const venue = getVenue();
+    const houseName = (houseId) => venue.houses.find(h => h.id === houseId)?.name || houseId;
+    const summary = (groupBy) => reports.report({ from, to, groupBy }).report;
+
+    const byHouse = summary('house');
+    const byTV = summary('tv');
+    const busiest = summary('hour').rows.reduce((best, row) => (!best || row.games > best.games ? row : best), null);
+    const events = store.get('events').filter(e => e.timestamp >= from && e.timestamp < to);
+    const now = Date.now();
+
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      day,
+      from,
+      to,
+      generatedAt: now,
+      generatedBy: user.name,
+      // Generated before the day was over, so later games are missing.
+      partial: now < to,
+      totals: byHouse.totals,
+      houses: byHouse.rows.map(({ key, label, games, sessions, revenue }) => ({ houseId: key, name: label, games, sessions, revenue })),
+      tvs: byTV.rows.map(({ key, label, games, sessions, revenue }) => ({
+        tvId: key,
+        name: label,
+        houseName: houseName(venue.tvs.find(tv => tv.id === key)?.houseId),
+        games,
+        sessions,
+        revenue,
+      })),
+      busiestHour: busiest && busiest.games > 0 ? { hour: Number(busiest.key), games: busiest.games } : null,
+      yieldAlerts: events
+        .filter(e => e.type === 'yield_alert')
+        .map(e => ({ houseName: houseName(e.houseId), timestamp: e.timestamp })),
+      videoSessions: events
+        .filter(e => e.type === 'video_session_ended')
+        .map(e => ({ houseName: houseName(e.houseId), timestamp: e.timestamp, duration: e.duration || 0 })),
+      reconciliations: staff.listReconciliations({ from, to }).map(r => ({
+        workerName: r.workerName,
+        houseName: houseName(r.houseId),
+        expected: r.expected,
+        counted: r.cash + r.mobileMoney,
+        difference: r.difference,
+        ...(r.note ? { note: r.note } : {}),
+      })),
+    };
+  };
+
+  const generate = (day, { replace = false } = {}, user) => {
+    const settings = getSettings();
+    const from = typeof day === 'string' ? parseBusinessDayKey(day, settings) : null;
+    if (from === null) return { error: 'Day must be a YYYY-MM-DD date', status: 400 };
+    if (from > Date.now()) return { error: 'That business day has not started yet', status: 400 };
+
+    const existing = store.get('zReports').find(r => r.day === day);
+    if (existing && !replace) return { report: existing, created: false };
+
+    const report = build(day, from, addBusinessDays(from, 1, settings), user);
+    if (existing) store.set('zReports', store.get('zReports').map(r => (r.day === day ? report : r)));
+    else store.append('zReports', [report]);
+    return { report, created: true };
+  };
+
+  return { list, get, generate };
+};
@@ -0,0 +1,11 @@
+import { GameEntry, GameVoid } from '../types';
+
+// Ids of games whose void has been approved. Pending and rejected voids leave
+// the game counted.
+export const getVoidedIds = (voids: GameVoid[]): Set<string> =>
+  new Set(voids.filter(v => v.status === 'approved').map(v => v.gameId));
+
+export const excludeVoided = (games: GameEntry[], voids: GameVoid[]): GameEntry[] => {
+  const voided = getVoidedIds(voids);
+  return voided.size === 0 ? games : games.filter(g => !voided.has(g.id));
+};
@@ -0,0 +1,79 @@
+import { DateRange, VenueSettings } from '../types';
+import {
+  getBusinessDayStart, addBusinessDays, getBusinessWeekStart, getBusinessMonthStart,
+  getBusinessDayKey, parseBusinessDayKey,
+} from '../shared/businessDay';
+
+export type RangePreset = 'today' | 'yesterday' | 'week' | 'lastWeek' | 'month' | 'lastMonth';
+
+// Either a preset, which moves with the clock, or a fixed run of business
+// days given by their inclusive `YYYY-MM-DD` keys.
+export type RangeSelection = { preset: RangePreset } | { from: string; to: string };
+
+export const RANGE_PRESETS: { id: RangePreset; label: string }[] = [
+  { id: 'today', label: 'Today' },
+  { id: 'yesterday', label: 'Yesterday' },
+  { id: 'week', label: 'This Week' },
+  { id: 'lastWeek', label: 'Last Week' },
+  { id: 'month', label: 'This Month' },
+  { id: 'lastMonth', label: 'Last Month' },
+];
+
+const DEFAULT_SELECTION: RangeSelection = { preset: 'today' };
+
+const resolvePreset = (preset: RangePreset, settings: VenueSettings, now: number): DateRange => {
+  const today = getBusinessDayStart(now, settings);
+  switch (preset) {
+    case 'today':
+      return { start: today, end: addBusinessDays(now, 1, settings) };
+    case 'yesterday':
+      return { start: addBusinessDays(now, -1, settings), end: today };
+    case 'week':
+      return { start: getBusinessWeekStart(now, settings), end: addBusinessDays(now, 1, settings) };
+    case 'lastWeek': {
+      const thisWeek = getBusinessWeekStart(now, settings);
+      return { start: addBusinessDays(thisWeek, -7, settings), end: thisWeek };
+    }
+    case 'month':
+      return { start: getBusinessMonthStart(now, settings), end: addBusinessDays(now, 1, settings) };
+    case 'lastMonth': {
+      const thisMonth = getBusinessMonthStart(now, settings);
+      return { start: getBusinessMonthStart(thisMonth - 1, settings), end: thisMonth };
+    }
+  }
+};
+
+// A custom range whose days can't be parsed, or that ends before it starts,
+// falls back to today rather than showing an empty dashboard.
+export const resolveRange = (selection: RangeSelection, settings: VenueSettings, now: number = Date.now()): DateRange => {
+  if ('preset' in selection) return resolvePreset(selection.preset, settings, now);
+  const start = parseBusinessDayKey(selection.from, settings);
+  const last = parseBusinessDayKey(selection.to, settings);
+  if (start === null || last === null || last < start) return resolvePreset('today', settings, now);
+  return { start, end: addBusinessDays(last, 1, settings) };
+};
+
+// The inclusive business-day keys a range covers, for date inputs and labels.
+export const getRangeKeys = (range: DateRange, settings: VenueSettings) => ({
+  from: getBusinessDayKey(range.start, settings),
+  to: getBusinessDayKey(range.end - 1, settings),
+});
+
+export const getRangeLabel = (selection: RangeSelection) => {
+  if ('preset' in selection) return RANGE_PRESETS.find(p => p.id === selection.preset)!.label;
+  return selection.from === selection.to ? selection.from : `${selection.from} → ${selection.to}`;
+};
+
+// Ranges live in the URL (`?range=yesterday` or `?from=…&to=…`) so a report
+// can be bookmarked or shared.
+export const parseRangeQuery = (params: URLSearchParams): RangeSelection => {
+  const preset = params.get('range');
+  if (RANGE_PRESETS.some(p => p.id === preset)) return { preset: preset as RangePreset };
+  const from = params.get('from');
+  const to = params.get('to');
+  if (from && to) return { from, to };
+  return DEFAULT_SELECTION;
+};
+
+export const toRangeQuery = (selection: RangeSelection): Record<string, string> =>
+  'preset' in selection ? { range: selection.preset } : { from: selection.from, to: selection.to };
@@ -1,10 +1,168 @@
 
-import { GameEntry, VideoSession, HouseThresholds, SessionEvent } from '../types';
+import { GameEntry, GameFinish, GameVoid, VoidStatus, VideoSession, SessionEvent, SyncState, AudioFrame, VenueConfig, HouseConfig, TVConfig, PriceRule, AlertRule, Alert, AuthSession, UserAccount, UserRole, Worker, Shift, ShiftReconciliation, VenueSettings, DateRange, Report, ReportGrouping, ExportFormat, ExportTable, ZReport, ZReportSummary, SessionAnalysis, Anomaly, Webhook, WebhookDelivery, WebhookEventType, VideoSignal, VideoSignalRole, VideoQuality, HouseId } from '../types';
+import { DEFAULT_VENUE } from '../shared/venue';
+import { DEFAULT_SETTINGS } from '../shared/businessDay';
+import { OFFLINE_PIN_ITERATIONS } from '../shared/staff';
 
 const STORAGE_KEY = 'fifa_game_counter_data';
-const PRICES_KEY = 'fifa_tv_prices';
+const PRICE_RULES_KEY = 'fifa_price_rules';
+const EPOCH_KEY = 'fifa_ledger_epoch';
+const VOIDS_KEY = 'fifa_game_voids';
+const FINISHES_KEY = 'fifa_game_finishes';
+const OUTBOX_KEY = 'fifa_sync_outbox';
+const SYNC_STATE_KEY = 'fifa_sync_state';
+const CURSOR_KEY = 'fifa_games_cursor';
+const VENUE_KEY = 'fifa_venue_config';
+const AUTH_KEY = 'fifa_auth_session';
+const SHIFTS_KEY = 'fifa_open_shifts';
+const WORKERS_KEY = 'fifa_workers';
+const SETTINGS_KEY = 'fifa_venue_settings';
 const API_BASE = '/api';
 
+// --- Session --------------------------------------------------------------
+// The token issued at sign-in is kept in localStorage and sent with every
+// API request. A 401 from any endpoint means it expired or was revoked, so
+// the session is dropped and guards fall back to the sign-in screen.
+
+const sessionListeners = new Set<(session: AuthSession | null) => void>();
+
+const loadSession = (): AuthSession | null => {
+  const data = localStorage.getItem(AUTH_KEY);
+  const session: AuthSession | null = data ? JSON.parse(data) : null;
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+let session = loadSession();
+
+const setSession = (next: AuthSession | null) => {
+  session = next;
+  if (next) localStorage.setItem(AUTH_KEY, JSON.stringify(next));
+  else localStorage.removeItem(AUTH_KEY);
+  sessionListeners.forEach(listener => listener(next));
+};
+
+export const getSession = (): AuthSession | null => session;
+
+export const hasRole = (roles: UserRole[]) => !!session && roles.includes(session.user.role);
+
+export const subscribeSession = (listener: (session: AuthSession | null) => void) => {
+  sessionListeners.add(listener);
+  listener(session);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+};
+
+const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+  if (session) headers.Authorization = `Bearer ${session.token}`;
+  const response = await fetch(`${API_BASE}${path}`, { ...init, headers });
+  if (response.status === 401 && session) setSession(null);
+  return response;
+};
+
+export const login = async (username: string, password: string): Promise<{ session?: AuthSession; error?: string }> => {
+  try {
+    const response = await fetch(`${API_BASE}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Sign-in failed' };
+    setSession(data);
+    drainOutbox();
+    return { session: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+// Queued games stay in the outbox; they go up once someone signs in again.
+export const logout = async () => {
+  try {
+    await apiFetch('/auth/logout', { method: 'POST' });
+  } catch (e) {}
+  setSession(null);
+};
+
+export const getUsers = async (): Promise<UserAccount[]> => {
+  try {
+    const response = await apiFetch('/users');
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+const sendUserChange = async (method: string, path: string, body?: unknown): Promise<{ users?: UserAccount[]; error?: string }> => {
+  try {
+    const response = await apiFetch(`/users${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    return { users: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const addUser = (user: { username: string; name?: string; role: UserRole; password: string }) => sendUserChange('POST', '', user);
+export const updateUser = (id: string, changes: Partial<Pick<UserAccount, 'name' | 'role' | 'active'>> & { password?: string }) => sendUserChange('PUT', `/${encodeURIComponent(id)}`, changes);
+export const deleteUser = (id: string) => sendUserChange('DELETE', `/${encodeURIComponent(id)}`);
+
+export const getWebhooks = async (): Promise<Webhook[]> => {
+  try {
+    const response = await apiFetch('/webhooks');
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+const sendWebhookChange = async (method: string, path: string, body?: unknown): Promise<{ webhooks?: Webhook[]; error?: string }> => {
+  try {
+    const response = await apiFetch(`/webhooks${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    return { webhooks: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const addWebhook = (webhook: { url: string; events: WebhookEventType[] }) => sendWebhookChange('POST', '', webhook);
+export const updateWebhook = (id: string, changes: Partial<Pick<Webhook, 'url' | 'events' | 'active'>> & { rotateSecret?: boolean }) => sendWebhookChange('PUT', `/${encodeURIComponent(id)}`, changes);
+export const deleteWebhook = (id: string) => sendWebhookChange('DELETE', `/${encodeURIComponent(id)}`);
+
+export const getWebhookDeliveries = async (): Promise<WebhookDelivery[]> => {
+  try {
+    const response = await apiFetch('/webhook-deliveries');
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+// Test sends and retries are queued; the outcome shows up in the delivery log.
+const sendDeliveryRequest = async (path: string): Promise<{ delivery?: WebhookDelivery; error?: string }> => {
+  try {
+    const response = await apiFetch(path, { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    return { delivery: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const testWebhook = (id: string) => sendDeliveryRequest(`/webhooks/${encodeURIComponent(id)}/test`);
+export const retryWebhookDelivery = (id: string) => sendDeliveryRequest(`/webhook-deliveries/${encodeURIComponent(id)}/retry`);
+
 const getLocalGames = (): GameEntry[] => {
   const data = localStorage.getItem(STORAGE_KEY);
   return data ? JSON.parse(data) : [];
@@ -14,123 +172,824 @@ const setLocalGames = (games: GameEntry[]) => {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(games));
 };
 
-const getLocalPrices = (): Record<string, number> => {
-  const data = localStorage.getItem(PRICES_KEY);
-  return data ? JSON.parse(data) : {};
-};
-
-const setLocalPrices = (prices: Record<string, number>) => {
-  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
-};
-
+// The server copy wins: it carries the `seq` assigned on write.
 const mergeGames = (local: GameEntry[], remote: GameEntry[]): GameEntry[] => {
   const map = new Map<string, GameEntry>();
-  remote.forEach(g => map.set(g.id, g));
   local.forEach(g => map.set(g.id, g));
+  remote.forEach(g => map.set(g.id, g));
   return Array.from(map.values()).sort((a, b) => a.timestamp - b.timestamp);
 };
 
-export const getStoredGames = async (): Promise<GameEntry[]> => {
-  const localGames = getLocalGames();
+const getLocalVoids = (): GameVoid[] => {
+  const data = localStorage.getItem(VOIDS_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const setLocalVoids = (voids: GameVoid[]) => {
+  localStorage.setItem(VOIDS_KEY, JSON.stringify(voids));
+};
+
+const mergeVoids = (local: GameVoid[], remote: GameVoid[]): GameVoid[] => {
+  const map = new Map<string, GameVoid>();
+  local.forEach(v => map.set(v.id, v));
+  remote.forEach(v => map.set(v.id, v));
+  return Array.from(map.values()).sort((a, b) => a.requestedAt - b.requestedAt);
+};
+
+const getLocalFinishes = (): GameFinish[] => {
+  const data = localStorage.getItem(FINISHES_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const setLocalFinishes = (finishes: GameFinish[]) => {
+  localStorage.setItem(FINISHES_KEY, JSON.stringify(finishes));
+};
+
+// Keyed by game: the server keeps the first finish it was sent, so its copy wins.
+const mergeFinishes = (local: GameFinish[], remote: GameFinish[]): GameFinish[] => {
+  const map = new Map<string, GameFinish>();
+  local.forEach(f => map.set(f.gameId, f));
+  remote.forEach(f => map.set(f.gameId, f));
+  return Array.from(map.values()).sort((a, b) => a.endedAt - b.endedAt);
+};
+
+// --- Outbox ---------------------------------------------------------------
+// Every ledger mutation made on this device is queued in localStorage and
+// sent in order, one at a time. A failed send is retried with exponential
+// backoff; the queue survives reloads and is drained again on startup and
+// whenever the browser comes back online. Entry and void ids are generated on
+// the device and double as idempotency keys, so re-sending something that may
+// already have landed is always safe.
+
+type OutboxItem =
+  | { id: string; kind: 'game'; entry: GameEntry; queuedAt: number }
+  | { id: string; kind: 'void'; tombstone: GameVoid; queuedAt: number }
+  | { id: string; kind: 'finish'; finish: GameFinish; queuedAt: number }
+  | { id: string; kind: 'shift'; shift: Shift; pinHash: string; queuedAt: number };
+
+type SendResult = 'sent' | 'retry' | 'rejected';
+
+// One entry of a batch the server refused, with its reason.
+interface RefusedEntry {
+  id: string | null;
+  error: string;
+}
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60000;
+const MAX_BATCH = 50;
+
+const getOutbox = (): OutboxItem[] => {
+  const data = localStorage.getItem(OUTBOX_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const setOutbox = (items: OutboxItem[]) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+};
+
+const loadSyncState = (): SyncState => {
+  const data = localStorage.getItem(SYNC_STATE_KEY);
+  const saved = data ? JSON.parse(data) : {};
+  const outbox = getOutbox();
+  return {
+    pending: outbox.length,
+    pendingGames: outbox.filter(i => i.kind === 'game').length,
+    lastSyncAt: saved.lastSyncAt ?? null,
+    lastError: saved.lastError ?? null,
+    nextRetryAt: null,
+    dropped: saved.dropped ?? 0,
+  };
+};
+
+let syncState: SyncState = loadSyncState();
+const syncListeners = new Set<(state: SyncState) => void>();
+let draining: Promise<void> | null = null;
+let failedAttempts = 0;
+let retryTimer: number | null = null;
+
+const updateSyncState = (changes: Partial<SyncState>) => {
+  const outbox = getOutbox();
+  syncState = {
+    ...syncState,
+    ...changes,
+    pending: outbox.length,
+    pendingGames: outbox.filter(i => i.kind === 'game').length,
+  };
+  localStorage.setItem(SYNC_STATE_KEY, JSON.stringify({ lastSyncAt: syncState.lastSyncAt, lastError: syncState.lastError, dropped: syncState.dropped }));
+  syncListeners.forEach(listener => listener(syncState));
+};
+
+export const getSyncState = (): SyncState => syncState;
+
+// Called once the worker has seen that some of their changes were refused.
+export const acknowledgeDropped = () => updateSyncState({ dropped: 0 });
+
+export const subscribeSyncState = (listener: (state: SyncState) => void) => {
+  syncListeners.add(listener);
+  listener(syncState);
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
+
+const postJson = async (path: string, body: unknown): Promise<Response> =>
+  apiFetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(5000),
+  });
+
+// Consecutive game entries go up together through the batch endpoint; a void,
+// finish or clock-in is always sent on its own so it can never overtake the
+// game it refers to, or the games that refer to it.
+const takeBatch = (outbox: OutboxItem[]): OutboxItem[] => {
+  if (outbox[0].kind !== 'game') return [outbox[0]];
+  const end = outbox.findIndex(i => i.kind !== 'game');
+  return outbox.slice(0, end === -1 ? MAX_BATCH : Math.min(end, MAX_BATCH));
+};
+
+// A game batch counts as sent even when the server refused some of its
+// entries; those come back in `refused` so only they are dropped.
+const sendOutboxBatch = async (batch: OutboxItem[]): Promise<{ result: SendResult; error?: string; refused?: Set<string> }> => {
+  const head = batch[0];
   try {
-    const response = await fetch(`${API_BASE}/games`, {
-      headers: { 'Cache-Control': 'no-cache' },
-      signal: AbortSignal.timeout(3000)
-    });
+    const response = head.kind === 'game'
+      ? await postJson('/games/batch', { entries: batch.flatMap(i => i.kind === 'game' ? [i.entry] : []) })
+      : head.kind === 'void'
+        ? await postJson('/voids', head.tombstone)
+        : head.kind === 'finish'
+          ? await postJson('/game-finishes', head.finish)
+          : await postJson('/shifts/clock-in', {
+            workerId: head.shift.workerId,
+            pinHash: head.pinHash,
+            houseId: head.shift.houseId,
+            id: head.shift.id,
+            startedAt: head.shift.startedAt,
+          });
+
     if (response.ok) {
-      const remoteGames: GameEntry[] = await response.json();
-      const merged = mergeGames(localGames, remoteGames);
-      if (merged.length > remoteGames.length) {
-        await pushGamesToServer(merged);
+      if (head.kind === 'game') {
+        const data: { entries: GameEntry[]; rejected: RefusedEntry[] } = await response.json();
+        setLocalGames(mergeGames(getLocalGames(), data.entries));
+        if (data.rejected.length > 0) {
+          return {
+            result: 'sent',
+            error: `Server rejected ${data.rejected.length === 1 ? 'a game' : `${data.rejected.length} games`}: ${data.rejected[0].error}`,
+            refused: new Set(data.rejected.flatMap(r => r.id === null ? [] : [r.id])),
+          };
+        }
+      } else if (head.kind === 'void') {
+        const stored: GameVoid = await response.json();
+        setLocalVoids(mergeVoids(getLocalVoids(), [stored]));
+      } else if (head.kind === 'finish') {
+        const stored: GameFinish = await response.json();
+        setLocalFinishes(mergeFinishes(getLocalFinishes(), [stored]));
+      } else {
+        const stored: Shift = await response.json();
+        if (getOpenShift(stored.houseId)?.id === stored.id) setOpenShift(stored.houseId, stored);
       }
-      setLocalGames(merged);
-      return merged;
+      return { result: 'sent' };
+    }
+    // A clock-in refused for its PIN will be refused every time.
+    if (head.kind === 'shift' && response.status === 403) {
+      return { result: 'rejected', error: 'Offline clock-in refused: wrong worker or PIN' };
+    }
+    // Not signed in (or no longer allowed): keep the items until someone is.
+    if (response.status === 401 || response.status === 403) {
+      return { result: 'retry', error: 'Sign in to sync' };
+    }
+    // The server understood the request and refused it; retrying won't help.
+    if (response.status >= 400 && response.status < 500) {
+      return { result: 'rejected', error: `Server rejected ${head.kind} (${response.status})` };
+    }
+    return { result: 'retry', error: `Server error ${response.status}` };
+  } catch (e) {
+    return { result: 'retry', error: navigator.onLine ? 'Server unreachable' : 'Device offline' };
+  }
+};
+
+// The server will never take these, so the device stops counting them too.
+const discardLocally = (items: OutboxItem[]) => {
+  const games = new Set(items.flatMap(i => i.kind === 'game' ? [i.id] : []));
+  const voids = new Set(items.flatMap(i => i.kind === 'void' ? [i.id] : []));
+  const finishes = new Set(items.flatMap(i => i.kind === 'finish' ? [i.finish.gameId] : []));
+  setLocalGames(getLocalGames().filter(g => !games.has(g.id)));
+  setLocalVoids(getLocalVoids().filter(v => !voids.has(v.id)));
+  setLocalFinishes(getLocalFinishes().filter(f => !finishes.has(f.gameId)));
+  items.forEach(i => i.kind === 'shift' && getOpenShift(i.shift.houseId)?.id === i.id && setOpenShift(i.shift.houseId, null));
+};
+
+const scheduleRetry = () => {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** failedAttempts) * (0.8 + Math.random() * 0.4);
+  failedAttempts++;
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    drainOutbox();
+  }, delay);
+  updateSyncState({ nextRetryAt: Date.now() + delay });
+};
+
+const drain = async () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  while (true) {
+    const outbox = getOutbox();
+    if (outbox.length === 0) break;
+    const batch = takeBatch(outbox);
+    const { result, error, refused } = await sendOutboxBatch(batch);
+    if (result === 'retry') {
+      updateSyncState({ lastError: error || null });
+      scheduleRetry();
+      return;
+    }
+    // Re-read: new items may have been queued while the request was in flight.
+    const sentIds = new Set(batch.map(i => i.id));
+    setOutbox(getOutbox().filter(i => !sentIds.has(i.id)));
+    failedAttempts = 0;
+    const dropped = result === 'rejected' ? batch : batch.filter(i => refused?.has(i.id));
+    if (dropped.length === 0) {
+      updateSyncState({ lastSyncAt: Date.now(), lastError: null, nextRetryAt: null });
+    } else {
+      discardLocally(dropped);
+      updateSyncState({
+        ...(result === 'sent' ? { lastSyncAt: Date.now() } : {}),
+        lastError: error || null,
+        nextRetryAt: null,
+        dropped: syncState.dropped + dropped.length,
+      });
     }
+  }
+};
+
+// A caller that finds a drain under way gets that drain's promise. It re-reads
+// the queue between batches, so it also sends whatever the caller just queued.
+export const drainOutbox = (): Promise<void> => {
+  if (!draining) {
+    draining = drain().finally(() => {
+      draining = null;
+    });
+  }
+  return draining;
+};
+
+const enqueue = (item: OutboxItem) => {
+  setOutbox([...getOutbox(), item]);
+  updateSyncState({});
+  drainOutbox();
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    failedAttempts = 0;
+    drainOutbox();
+  });
+  drainOutbox();
+}
+
+// --- Ledger -----------------------------------------------------------------
+
+interface GamesPage {
+  entries: GameEntry[];
+  cursor: number;
+  hasMore: boolean;
+}
+
+const fetchGamesPage = async (params: Record<string, number>): Promise<{ page: GamesPage; epoch: string | null }> => {
+  const query = new URLSearchParams(Object.entries(params).map(([k, v]) => [k, String(v)]));
+  const response = await apiFetch(`/games?${query}`, {
+    headers: { 'Cache-Control': 'no-cache' },
+    signal: AbortSignal.timeout(5000)
+  });
+  if (!response.ok) throw new Error(`Games feed returned ${response.status}`);
+  return { page: await response.json(), epoch: response.headers.get('X-Ledger-Epoch') };
+};
+
+// Incremental sync: only entries the server stored since our last cursor are
+// downloaded. The local copy is then trimmed to entries at or after
+// `retainSince` (plus anything still waiting in the outbox) so the device
+// never holds more than the window it displays. Older ranges are fetched on
+// demand with getGameHistory and are not kept locally.
+export const getStoredGames = async (retainSince = 0): Promise<GameEntry[]> => {
+  const localGames = getLocalGames();
+  try {
+    const savedCursor = localStorage.getItem(CURSOR_KEY);
+    let cursor = savedCursor ? Number(savedCursor) : 0;
+    let games = localGames;
+
+    if (savedCursor === null) {
+      // First sync on this build: the server may never have seen games logged
+      // by an older one. Re-sending is idempotent, so queue everything.
+      const queuedIds = new Set(getOutbox().map(i => i.id));
+      localGames
+        .filter(g => !queuedIds.has(g.id))
+        .forEach(entry => enqueue({ id: entry.id, kind: 'game', entry, queuedAt: Date.now() }));
+    }
+
+    // A fresh device only needs the retained window, not the full history.
+    const initialFrom = cursor === 0 && retainSince > 0 ? { from: retainSince } : {};
+    while (true) {
+      const { page, epoch } = await fetchGamesPage({ since: cursor, ...initialFrom });
+      const localEpoch = localStorage.getItem(EPOCH_KEY);
+      if (epoch) localStorage.setItem(EPOCH_KEY, epoch);
+      // The server ledger was wiped since this device last synced; our copy is
+      // stale. The epoch is the wipe time, so changes queued after it are kept
+      // and sent to the new ledger, and only what predates it is thrown away.
+      if (epoch && localEpoch && epoch !== localEpoch) {
+        const wipedAt = parseInt(epoch, 36);
+        const kept = getOutbox().filter(i => i.queuedAt >= wipedAt);
+        const keptGames = new Set(kept.flatMap(i => i.kind === 'game' ? [i.id] : []));
+        const keptVoids = new Set(kept.flatMap(i => i.kind === 'void' ? [i.id] : []));
+        const keptFinishes = new Set(kept.flatMap(i => i.kind === 'finish' ? [i.finish.gameId] : []));
+        setOutbox(kept);
+        updateSyncState({ lastError: null });
+        setLocalVoids(getLocalVoids().filter(v => keptVoids.has(v.id)));
+        setLocalFinishes(getLocalFinishes().filter(f => keptFinishes.has(f.gameId)));
+        setLocalGames(getLocalGames().filter(g => keptGames.has(g.id)));
+        localStorage.removeItem(CURSOR_KEY);
+        return getStoredGames(retainSince);
+      }
+      games = mergeGames(games, page.entries);
+      cursor = page.cursor;
+      if (!page.hasMore) break;
+    }
+
+    const queuedIds = new Set(getOutbox().map(i => i.id));
+    const retained = games.filter(g => g.timestamp >= retainSince || queuedIds.has(g.id));
+    setLocalGames(retained);
+    localStorage.setItem(CURSOR_KEY, String(cursor));
+    return retained;
   } catch (error) {
     console.warn('Sync attempt failed:', error);
   }
   return localGames;
 };
 
-const pushGamesToServer = async (games: GameEntry[]) => {
+// Pages through the server ledger for [from, to) without touching the local
+// copy. Used by the owner dashboard for periods older than the retained window.
+export const getGameHistory = async (from: number, to: number): Promise<GameEntry[]> => {
+  let games: GameEntry[] = [];
+  let cursor = 0;
+  try {
+    while (true) {
+      const { page } = await fetchGamesPage({ since: cursor, from, to, limit: 2000 });
+      games = games.concat(page.entries);
+      cursor = page.cursor;
+      if (!page.hasMore) break;
+    }
+  } catch (error) {
+    console.warn('History fetch failed:', error);
+  }
+  return games.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Looks games up by id in batches, for ones outside the synced day.
+const LOOKUP_BATCH = 100;
+export const getGamesById = async (ids: string[]): Promise<GameEntry[]> => {
+  let games: GameEntry[] = [];
   try {
-    await fetch(`${API_BASE}/games`, {
+    for (let i = 0; i < ids.length; i += LOOKUP_BATCH) {
+      const batch = ids.slice(i, i + LOOKUP_BATCH).map(encodeURIComponent).join(',');
+      const response = await apiFetch(`/games/lookup?ids=${batch}`);
+      if (!response.ok) break;
+      games = games.concat(await response.json());
+    }
+  } catch (e) {
+    console.warn('Game lookup failed:', e);
+  }
+  return games;
+};
+
+export const addGameEntry = (entry: GameEntry) => {
+  setLocalGames(mergeGames(getLocalGames(), [entry]));
+  enqueue({ id: entry.id, kind: 'game', entry, queuedAt: Date.now() });
+};
+
+export const getVoids = async (): Promise<GameVoid[]> => {
+  const localVoids = getLocalVoids();
+  try {
+    const response = await apiFetch('/voids', { headers: { 'Cache-Control': 'no-cache' } });
+    if (response.ok) {
+      const remoteVoids: GameVoid[] = await response.json();
+      const merged = mergeVoids(getLocalVoids(), remoteVoids);
+      setLocalVoids(merged);
+      return merged;
+    }
+  } catch (e) {}
+  return localVoids;
+};
+
+export const requestVoid = async (gameId: string, reason: string, source: GameVoid['source']): Promise<GameVoid> => {
+  const tombstone: GameVoid = {
+    id: Math.random().toString(36).substr(2, 9),
+    gameId,
+    reason,
+    source,
+    status: 'pending',
+    requestedAt: Date.now(),
+  };
+  setLocalVoids(mergeVoids(getLocalVoids(), [tombstone]));
+  enqueue({ id: tombstone.id, kind: 'void', tombstone, queuedAt: Date.now() });
+  await drainOutbox();
+  return getLocalVoids().find(v => v.id === tombstone.id) || tombstone;
+};
+
+export const resolveVoid = async (id: string, status: Exclude<VoidStatus, 'pending'>): Promise<GameVoid | null> => {
+  try {
+    const response = await apiFetch(`/voids/${id}/resolve`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ games }),
+      body: JSON.stringify({ status }),
     });
-    return true;
-  } catch (e) {
-    return false;
-  }
+    if (response.ok) {
+      const resolved: GameVoid = await response.json();
+      setLocalVoids(mergeVoids(getLocalVoids(), [resolved]));
+      return resolved;
+    }
+  } catch (e) {}
+  return null;
 };
 
-export const saveGames = async (games: GameEntry[]) => {
-  setLocalGames(games);
-  await pushGamesToServer(games);
+// Ends a timed game. The outbox item is keyed by the game, so a second tap
+// before the first has synced is dropped here rather than sent twice.
+export const finishGame = (gameId: string, endedAt = Date.now()) => {
+  if (getLocalFinishes().some(f => f.gameId === gameId)) return;
+  const finish: GameFinish = { gameId, endedAt };
+  setLocalFinishes(mergeFinishes(getLocalFinishes(), [finish]));
+  enqueue({ id: `finish-${gameId}`, kind: 'finish', finish, queuedAt: Date.now() });
+};
+
+// Finishes that ended at or after `since`. Like games, the local copy is
+// trimmed to that window plus anything still waiting to be sent.
+export const getFinishes = async (since = 0): Promise<GameFinish[]> => {
+  const queuedIds = new Set(getOutbox().map(i => i.id));
+  const retain = (finishes: GameFinish[]) =>
+    finishes.filter(f => f.endedAt >= since || queuedIds.has(`finish-${f.gameId}`));
+  try {
+    const response = await apiFetch(`/game-finishes?from=${since}`, { headers: { 'Cache-Control': 'no-cache' } });
+    if (response.ok) {
+      const remoteFinishes: GameFinish[] = await response.json();
+      const merged = retain(mergeFinishes(getLocalFinishes(), remoteFinishes));
+      setLocalFinishes(merged);
+      return merged;
+    }
+  } catch (e) {}
+  return retain(getLocalFinishes());
 };
 
 export const clearAllData = async () => {
   localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(CURSOR_KEY);
+  localStorage.removeItem(VOIDS_KEY);
+  localStorage.removeItem(FINISHES_KEY);
+  setOutbox([]);
+  updateSyncState({ lastError: null, nextRetryAt: null, dropped: 0 });
   try {
-    await fetch(`${API_BASE}/games`, { method: 'DELETE' });
+    await apiFetch('/games', { method: 'DELETE' });
   } catch (error) {}
 };
 
-export const getTVPrices = async (): Promise<Record<string, number>> => {
-  const localPrices = getLocalPrices();
+// Rules are cached like the venue so a counter that boots offline still
+// charges the scheduled price.
+export const getPriceRules = async (): Promise<PriceRule[]> => {
   try {
-    const response = await fetch(`${API_BASE}/prices`);
+    const response = await apiFetch('/price-rules');
     if (response.ok) {
-      const remotePrices = await response.json();
-      const merged = { ...remotePrices, ...localPrices };
-      setLocalPrices(merged);
-      return merged;
+      const rules: PriceRule[] = await response.json();
+      localStorage.setItem(PRICE_RULES_KEY, JSON.stringify(rules));
+      return rules;
     }
-  } catch (error) {}
-  return localPrices;
+  } catch (e) {}
+  return getCachedPriceRules();
+};
+
+export const getCachedPriceRules = (): PriceRule[] => {
+  const data = localStorage.getItem(PRICE_RULES_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const sendPriceRuleChange = async (method: string, path: string, body?: unknown): Promise<{ rules?: PriceRule[]; error?: string }> => {
+  try {
+    const response = await apiFetch(`/price-rules${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    localStorage.setItem(PRICE_RULES_KEY, JSON.stringify(data));
+    return { rules: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const addPriceRule = (rule: Omit<PriceRule, 'id' | 'createdAt' | 'effectiveTo'>) => sendPriceRuleChange('POST', '', rule);
+export const endPriceRule = (id: string) => sendPriceRuleChange('DELETE', `/${encodeURIComponent(id)}`);
+
+// Cached so a counter that loses the server can still clock someone in.
+export const getWorkers = async (): Promise<Worker[]> => {
+  try {
+    const response = await apiFetch('/workers');
+    if (response.ok) {
+      const workers: Worker[] = await response.json();
+      localStorage.setItem(WORKERS_KEY, JSON.stringify(workers));
+      return workers;
+    }
+  } catch (e) {}
+  const data = localStorage.getItem(WORKERS_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const sendWorkerChange = async (method: string, path: string, body: unknown): Promise<{ workers?: Worker[]; error?: string }> => {
+  try {
+    const response = await apiFetch(`/workers${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    return { workers: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const addWorker = (worker: { name: string; pin: string }) => sendWorkerChange('POST', '', worker);
+export const updateWorker = (id: string, changes: Partial<Pick<Worker, 'name' | 'active'>> & { pin?: string }) => sendWorkerChange('PUT', `/${encodeURIComponent(id)}`, changes);
+
+// The shift open at each house on this device, so a reload doesn't clock the
+// attendant out.
+const getOpenShifts = (): Record<string, Shift> => {
+  const data = localStorage.getItem(SHIFTS_KEY);
+  return data ? JSON.parse(data) : {};
+};
+
+const setOpenShift = (houseId: string, shift: Shift | null) => {
+  const { [houseId]: _, ...others } = getOpenShifts();
+  localStorage.setItem(SHIFTS_KEY, JSON.stringify(shift ? { ...others, [houseId]: shift } : others));
+};
+
+export const getOpenShift = (houseId: string): Shift | null => getOpenShifts()[houseId] || null;
+
+// Matches the server's check of a PIN sent with an offline clock-in.
+const hashOfflinePin = async (pin: string, pinSalt: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(pinSalt), iterations: OFFLINE_PIN_ITERATIONS },
+    key,
+    256
+  );
+  return Array.from(new Uint8Array(bits), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Clocking in here ends the worker's shift at any other house.
+const openShiftHere = (shift: Shift) => {
+  Object.entries(getOpenShifts()).forEach(([h, open]) => open.workerId === shift.workerId && setOpenShift(h, null));
+  setOpenShift(shift.houseId, shift);
 };
 
-export const saveTVPrices = async (prices: Record<string, number>) => {
-  setLocalPrices(prices);
+// Without the server the shift opens provisionally and the clock-in waits in
+// the outbox, ahead of the games logged under it, with the PIN hashed rather
+// than stored. The server checks it when it arrives; if it refuses, the shift
+// is dropped and its games are kept without a worker.
+export const clockIn = async (workerId: string, pin: string, houseId: string): Promise<{ shift?: Shift; error?: string }> => {
+  let response: Response;
   try {
-    await fetch(`${API_BASE}/prices`, {
+    response = await postJson('/shifts/clock-in', { workerId, pin, houseId });
+  } catch (e) {
+    const worker = (await getWorkers()).find(w => w.id === workerId);
+    // Secure pages only have crypto.subtle
+    if (!worker?.pinSalt || !crypto.subtle) return { error: 'Server unreachable' };
+    const pinHash = await hashOfflinePin(pin, worker.pinSalt);
+    const shift: Shift = {
+      id: Math.random().toString(36).substr(2, 9),
+      workerId,
+      workerName: worker.name,
+      houseId,
+      startedAt: Date.now(),
+      provisional: true,
+    };
+    openShiftHere(shift);
+    enqueue({ id: shift.id, kind: 'shift', shift, pinHash, queuedAt: Date.now() });
+    return { shift };
+  }
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) return { error: data.error || 'Clock-in failed' };
+  openShiftHere(data);
+  return { shift: data };
+};
+
+// Ends the shift with the attendant's cash count. The server works out the
+// expected takings from the ledger, so every game must be synced first.
+export const closeShift = async (
+  houseId: string,
+  counts: { cash: number; mobileMoney: number; note?: string }
+): Promise<{ reconciliation?: ShiftReconciliation; error?: string }> => {
+  const open = getOpenShift(houseId);
+  if (!open) return { error: 'No open shift' };
+  await drainOutbox();
+  if (getOutbox().length > 0) return { error: 'Games not yet synced • connect and try again' };
+  try {
+    const response = await apiFetch(`/shifts/${encodeURIComponent(open.id)}/close`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prices }),
+      body: JSON.stringify(counts),
     });
-  } catch (error) {}
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Could not close shift' };
+    setOpenShift(houseId, null);
+    return { reconciliation: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const getReconciliations = async (from: number, to: number = Date.now()): Promise<ShiftReconciliation[]> => {
+  try {
+    const response = await apiFetch(`/reconciliations?from=${from}&to=${to}`);
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+export const getShifts = async (from: number, to: number = Date.now()): Promise<Shift[]> => {
+  try {
+    const response = await apiFetch(`/shifts?from=${from}&to=${to}`);
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+export const getReport = async (range: DateRange, groupBy: ReportGrouping): Promise<Report | null> => {
+  try {
+    const response = await apiFetch(`/reports?from=${range.start}&to=${range.end}&groupBy=${groupBy}`);
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return null;
+};
+
+// Fetched rather than linked so the request carries the session header, then
+// handed to the browser as a download under the server's filename.
+export const downloadExport = async (range: DateRange, format: ExportFormat, table: ExportTable = 'games'): Promise<{ error?: string }> => {
+  try {
+    const response = await apiFetch(`/export?from=${range.start}&to=${range.end}&format=${format}&table=${table}`);
+    if (!response.ok) return { error: (await response.json().catch(() => ({}))).error || 'Export failed' };
+    const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] || `export.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return {};
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const getSessionAnalysis = async (range: DateRange): Promise<SessionAnalysis | null> => {
+  try {
+    const response = await apiFetch(`/reports/sessions?from=${range.start}&to=${range.end}`);
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return null;
 };
 
-export const getThresholds = async (): Promise<HouseThresholds> => {
+export const getAnomalies = async (range: DateRange): Promise<Anomaly[] | null> => {
   try {
-    const response = await fetch(`${API_BASE}/thresholds`);
+    const response = await apiFetch(`/anomalies?from=${range.start}&to=${range.end}`);
     if (response.ok) return await response.json();
   } catch (e) {}
-  return { house1: 2, house2: 2 };
+  return null;
 };
 
-export const saveThresholds = async (thresholds: HouseThresholds) => {
+export const getZReports = async (): Promise<ZReportSummary[]> => {
   try {
-    await fetch(`${API_BASE}/thresholds`, {
+    const response = await apiFetch('/z-reports');
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+export const getZReport = async (day: string): Promise<ZReport | null> => {
+  try {
+    const response = await apiFetch(`/z-reports/${day}`);
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return null;
+};
+
+// Returns the archived report for the day if there is one, unless `replace`.
+export const generateZReport = async (day: string, replace = false): Promise<{ report?: ZReport; error?: string }> => {
+  try {
+    const response = await apiFetch('/z-reports', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(thresholds),
+      body: JSON.stringify({ day, replace }),
     });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Report failed' };
+    return { report: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+// The last configuration seen is cached so a counter phone that boots offline
+// still renders its own TVs rather than the built-in defaults.
+export const getVenue = async (): Promise<VenueConfig> => {
+  try {
+    const response = await apiFetch('/venue');
+    if (response.ok) {
+      const venue: VenueConfig = await response.json();
+      localStorage.setItem(VENUE_KEY, JSON.stringify(venue));
+      return venue;
+    }
   } catch (e) {}
+  return getCachedVenue();
+};
+
+export const getCachedVenue = (): VenueConfig => {
+  const data = localStorage.getItem(VENUE_KEY);
+  return data ? JSON.parse(data) : DEFAULT_VENUE;
+};
+
+const sendVenueChange = async (method: string, path: string, body?: unknown): Promise<{ venue?: VenueConfig; error?: string }> => {
+  try {
+    const response = await apiFetch(`/venue${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    localStorage.setItem(VENUE_KEY, JSON.stringify(data));
+    return { venue: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const addHouse = (house: Partial<HouseConfig> & { id: string }) => sendVenueChange('POST', '/houses', house);
+export const updateHouse = (id: string, changes: Partial<HouseConfig>) => sendVenueChange('PUT', `/houses/${encodeURIComponent(id)}`, changes);
+export const deleteHouse = (id: string) => sendVenueChange('DELETE', `/houses/${encodeURIComponent(id)}`);
+export const addTV = (tv: Partial<TVConfig> & { id: string; houseId: string }) => sendVenueChange('POST', '/tvs', tv);
+export const updateTV = (id: string, changes: Partial<TVConfig>) => sendVenueChange('PUT', `/tvs/${encodeURIComponent(id)}`, changes);
+export const deleteTV = (id: string) => sendVenueChange('DELETE', `/tvs/${encodeURIComponent(id)}`);
+
+// Cached for the same reason as the venue: a counter that boots offline must
+// still know when its business day started.
+export const getSettings = async (): Promise<VenueSettings> => {
+  try {
+    const response = await apiFetch('/settings');
+    if (response.ok) {
+      const settings: VenueSettings = await response.json();
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      return settings;
+    }
+  } catch (e) {}
+  return getCachedSettings();
+};
+
+export const getCachedSettings = (): VenueSettings => {
+  const data = localStorage.getItem(SETTINGS_KEY);
+  return data ? { ...DEFAULT_SETTINGS, ...JSON.parse(data) } : DEFAULT_SETTINGS;
+};
+
+export const saveSettings = async (changes: Partial<VenueSettings>): Promise<{ settings?: VenueSettings; error?: string }> => {
+  try {
+    const response = await apiFetch('/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(data));
+    return { settings: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
 };
 
 export const getHouseStatus = async (): Promise<Record<string, boolean>> => {
   try {
-    const response = await fetch(`${API_BASE}/house-status`);
+    const response = await apiFetch('/house-status');
     if (response.ok) return await response.json();
   } catch (e) {}
-  return { house1: false, house2: false };
+  return {};
 };
 
 export const sendHeartbeat = async (houseId: string) => {
   try {
-    await fetch(`${API_BASE}/heartbeat`, {
+    await apiFetch('/heartbeat', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ houseId }),
@@ -138,58 +997,427 @@ export const sendHeartbeat = async (houseId: string) => {
   } catch (e) {}
 };
 
-export const getVideoSession = async (): Promise<VideoSession> => {
+// Every tab views under its own id, so two tabs or two managers watching the
+// same house are separate viewers of it.
+export const videoViewerId = Math.random().toString(36).substr(2, 9);
+
+export const getVideoSessions = async (): Promise<VideoSession[]> => {
+  try {
+    const response = await apiFetch('/video-sessions');
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+// Includes the latest frame and audio, for polling when the stream is down;
+// the server only sends them while this tab watches or listens.
+export const getVideoSession = async (houseId: HouseId): Promise<VideoSession | null> => {
   try {
-    const response = await fetch(`${API_BASE}/video-session`);
+    const response = await apiFetch(`/video-sessions/${encodeURIComponent(houseId)}?viewer=${videoViewerId}`);
     if (response.ok) return await response.json();
   } catch (e) {}
-  return { houseId: null, status: 'idle' };
+  return null;
 };
 
-export const updateVideoSession = async (session: Partial<VideoSession>) => {
+export const updateVideoSession = async (houseId: HouseId, changes: { quality?: VideoQuality; status?: 'active'; lastOnlineSignalTime?: number }) => {
   try {
-    await fetch(`${API_BASE}/video-session`, {
+    await apiFetch(`/video-sessions/${encodeURIComponent(houseId)}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(session),
+      body: JSON.stringify(changes),
     });
   } catch (e) {}
 };
 
-export const sendVideoFrame = async (frame: string) => {
+// Joins, changes or keeps alive this tab's view of a house. The server lets a
+// viewer go once it stops repeating this, so call it on a timer while viewing.
+export const setVideoViewer = async (houseId: HouseId, view: { watching?: boolean; listening?: boolean }): Promise<VideoSession | null> => {
   try {
-    await fetch(`${API_BASE}/video-frame`, {
+    const response = await apiFetch(`/video-sessions/${encodeURIComponent(houseId)}/viewers/${videoViewerId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(view),
+    });
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return null;
+};
+
+export const leaveVideoSession = async (houseId: HouseId) => {
+  try {
+    await apiFetch(`/video-sessions/${encodeURIComponent(houseId)}/viewers/${videoViewerId}`, { method: 'DELETE' });
+  } catch (e) {}
+};
+
+// `frame` is null while the video itself travels over a peer connection and
+// only the motion score needs reporting.
+export const sendVideoFrame = async (houseId: HouseId, frame: string | null, motion: number) => {
+  try {
+    await apiFetch('/video-frame', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ frame }),
+      body: JSON.stringify({ houseId, frame, motion }),
     });
   } catch (e) {}
 };
 
-export const sendAudioFrame = async (audioFrame: string) => {
+export const sendVideoSignal = async (signal: Omit<VideoSignal, 'seq'>): Promise<VideoSignal | null> => {
   try {
-    await fetch(`${API_BASE}/audio-frame`, {
+    const response = await apiFetch('/video-signals', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ audioFrame }),
+      body: JSON.stringify(signal),
     });
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return null;
+};
+
+export const getVideoSignals = async (rtcId: string): Promise<VideoSignal[]> => {
+  try {
+    const response = await apiFetch(`/video-signals?rtcId=${encodeURIComponent(rtcId)}`);
+    if (response.ok) return await response.json();
   } catch (e) {}
+  return [];
+};
+
+// STUN/TURN servers come from the server's configuration; fetched once.
+let iceServersRequest: Promise<RTCIceServer[]> | null = null;
+export const getIceServers = () => {
+  iceServersRequest ??= apiFetch('/video-ice-servers')
+    .then(response => (response.ok ? response.json() : []))
+    .catch(() => {
+      iceServersRequest = null;
+      return [];
+    });
+  return iceServersRequest;
 };
 
-export const recordEvent = async (type: 'yield_alert', houseId: string) => {
+export const sendAudioFrame = async (houseId: HouseId, audioFrame: string) => {
   try {
-    await fetch(`${API_BASE}/events`, {
+    await apiFetch('/audio-frame', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ type, houseId }),
+      body: JSON.stringify({ houseId, audioFrame }),
     });
   } catch (e) {}
 };
 
+export const getAlertRules = async (): Promise<AlertRule[]> => {
+  try {
+    const response = await apiFetch('/alert-rules');
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+const sendAlertRuleChange = async (method: string, path: string, body?: unknown): Promise<{ rules?: AlertRule[]; error?: string }> => {
+  try {
+    const response = await apiFetch(`/alert-rules${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    return { rules: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const addAlertRule = (rule: Omit<AlertRule, 'id' | 'createdAt'>) => sendAlertRuleChange('POST', '', rule);
+export const deleteAlertRule = (id: string) => sendAlertRuleChange('DELETE', `/${encodeURIComponent(id)}`);
+
+export const getAlerts = async (): Promise<Alert[]> => {
+  try {
+    const response = await apiFetch('/alerts');
+    if (response.ok) return await response.json();
+  } catch (e) {}
+  return [];
+};
+
+const sendAlertChange = async (id: string, action: string, body?: unknown): Promise<{ alerts?: Alert[]; error?: string }> => {
+  try {
+    const response = await apiFetch(`/alerts/${encodeURIComponent(id)}/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body ?? {}),
+    });
+    const data = await response.json();
+    if (!response.ok) return { error: data.error || 'Request failed' };
+    return { alerts: data };
+  } catch (e) {
+    return { error: 'Server unreachable' };
+  }
+};
+
+export const acknowledgeAlert = (id: string) => sendAlertChange(id, 'acknowledge');
+export const snoozeAlert = (id: string, minutes: number) => sendAlertChange(id, 'snooze', { minutes });
+
 export const getEvents = async (): Promise<SessionEvent[]> => {
   try {
-    const response = await fetch(`${API_BASE}/events`);
+    const response = await apiFetch('/events');
     if (response.ok) return await response.json();
   } catch (e) {}
   return [];
 };
+
+// --- Live updates -----------------------------------------------------------
+// One EventSource carries every topic the page currently subscribes to. While
+// it is connected, subscribers are driven by server pushes; while it is down
+// each subscriber falls back to polling at its own interval, and all of them
+// re-fetch once when the channel (re)opens to catch up on anything missed.
+
+type LiveTopic = 'games' | 'voids' | 'finishes' | 'alert-rules' | 'alerts' | 'webhooks' | 'webhook-deliveries' | 'reports' | 'venue' | 'prices' | 'settings' | 'shifts' | 'reconciliations' | 'house-status' | 'events' | 'video' | 'video-frame' | 'video-signal' | 'audio-frame';
+
+// What the server pushes on the topics whose push carries the new state; the
+// others only say that something changed.
+interface LivePayloads {
+  'venue': VenueConfig;
+  'settings': VenueSettings;
+  'prices': PriceRule[];
+  'house-status': Record<string, boolean>;
+  'alert-rules': AlertRule[];
+  'alerts': Alert[];
+  'video': VideoSession[];
+  'video-frame': { houseId: HouseId; frame: string };
+  'video-signal': VideoSignal;
+  'audio-frame': AudioFrame;
+}
+
+type LivePayload<K extends LiveTopic> = K extends keyof LivePayloads ? LivePayloads[K] : unknown;
+
+interface LiveSubscriber {
+  topic: LiveTopic;
+  pollMs: number;
+  refresh: () => void;
+  onPush: (payload: unknown) => void;
+  pollTimer: number | null;
+}
+
+const POLL_MS = 4000;
+
+const liveSubscribers = new Set<LiveSubscriber>();
+const liveListeners = new Set<(connected: boolean) => void>();
+let liveSource: EventSource | null = null;
+let liveTopicsKey = '';
+let liveConnected = false;
+let liveConnectQueued = false;
+
+const startPolling = (sub: LiveSubscriber) => {
+  if (sub.pollTimer === null) sub.pollTimer = window.setInterval(sub.refresh, sub.pollMs);
+};
+
+const stopPolling = (sub: LiveSubscriber) => {
+  if (sub.pollTimer !== null) {
+    clearInterval(sub.pollTimer);
+    sub.pollTimer = null;
+  }
+};
+
+const setLiveConnected = (connected: boolean) => {
+  const changed = connected !== liveConnected;
+  liveConnected = connected;
+  liveSubscribers.forEach(sub => {
+    if (connected) {
+      stopPolling(sub);
+      sub.refresh();
+    } else {
+      startPolling(sub);
+    }
+  });
+  if (changed) liveListeners.forEach(listener => listener(connected));
+};
+
+const connectLive = () => {
+  liveConnectQueued = false;
+  const topics = Array.from(new Set(Array.from(liveSubscribers).map(s => s.topic))).sort();
+  const key = topics.join(',');
+  if (key === liveTopicsKey && liveSource) return;
+
+  liveSource?.close();
+  liveSource = null;
+  liveTopicsKey = key;
+  if (topics.length === 0 || typeof EventSource === 'undefined') {
+    setLiveConnected(false);
+    return;
+  }
+
+  const auth = session ? `&token=${encodeURIComponent(session.token)}` : '';
+  // The viewer id lets the server send this tab only the video and audio it joined
+  const source = new EventSource(`${API_BASE}/stream?topics=${key}&viewer=${videoViewerId}${auth}`);
+  topics.forEach(topic => {
+    source.addEventListener(topic, (e) => {
+      const payload = JSON.parse((e as MessageEvent).data);
+      liveSubscribers.forEach(sub => sub.topic === topic && sub.onPush(payload));
+    });
+  });
+  source.onopen = () => setLiveConnected(true);
+  // EventSource reconnects on its own; poll in the meantime.
+  source.onerror = () => setLiveConnected(false);
+  liveSource = source;
+};
+
+// Subscriptions made in the same render are batched into one connection.
+const scheduleLiveConnect = () => {
+  if (liveConnectQueued) return;
+  liveConnectQueued = true;
+  queueMicrotask(connectLive);
+};
+
+// `load` fetches the current state over HTTP. A push either carries the new
+// state itself (`fromPush`) or just signals that `load` should run again.
+const subscribeLive = <K extends LiveTopic, T>(
+  topic: K,
+  load: () => Promise<T>,
+  onData: (data: T) => void,
+  options: { pollMs?: number; fromPush?: (payload: LivePayload<K>) => T | undefined } = {}
+) => {
+  const deliver = (data: T) => {
+    if (liveSubscribers.has(sub)) onData(data);
+  };
+  const sub: LiveSubscriber = {
+    topic,
+    pollMs: options.pollMs ?? POLL_MS,
+    refresh: () => { load().then(deliver); },
+    onPush: (payload) => {
+      // The server sends each topic's payload in the shape LivePayloads names
+      const data = options.fromPush?.(payload as LivePayload<K>);
+      if (data !== undefined) deliver(data);
+      else sub.refresh();
+    },
+    pollTimer: null,
+  };
+  liveSubscribers.add(sub);
+  sub.refresh();
+  if (!liveConnected) startPolling(sub);
+  scheduleLiveConnect();
+  return () => {
+    stopPolling(sub);
+    liveSubscribers.delete(sub);
+    scheduleLiveConnect();
+  };
+};
+
+// The stream is authorised by the token in its URL, so reopen it whenever
+// the session changes.
+sessionListeners.add(() => {
+  liveTopicsKey = '';
+  scheduleLiveConnect();
+});
+
+export const subscribeLiveStatus = (listener: (connected: boolean) => void) => {
+  liveListeners.add(listener);
+  listener(liveConnected);
+  return () => {
+    liveListeners.delete(listener);
+  };
+};
+
+// `retainSince` is read on every sync so a long-lived subscription follows
+// the business day as it rolls over.
+export const subscribeGames = (retainSince: () => number, onGames: (games: GameEntry[]) => void) =>
+  subscribeLive('games', () => getStoredGames(retainSince()), onGames);
+
+export const subscribeVoids = (onVoids: (voids: GameVoid[]) => void) =>
+  subscribeLive('voids', getVoids, onVoids);
+
+export const subscribeFinishes = (since: () => number, onFinishes: (finishes: GameFinish[]) => void) =>
+  subscribeLive('finishes', () => getFinishes(since()), onFinishes);
+
+export const subscribeVenue = (onVenue: (venue: VenueConfig) => void) =>
+  subscribeLive('venue', getVenue, onVenue, {
+    fromPush: (venue) => {
+      localStorage.setItem(VENUE_KEY, JSON.stringify(venue));
+      return venue;
+    }
+  });
+
+export const subscribeSettings = (onSettings: (settings: VenueSettings) => void) =>
+  subscribeLive('settings', getSettings, onSettings, {
+    fromPush: (settings) => {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      return settings;
+    }
+  });
+
+export const subscribePriceRules = (onRules: (rules: PriceRule[]) => void) =>
+  subscribeLive('prices', getPriceRules, onRules, {
+    fromPush: (rules) => {
+      localStorage.setItem(PRICE_RULES_KEY, JSON.stringify(rules));
+      return rules;
+    }
+  });
+
+export const subscribeShifts = (range: () => DateRange, onShifts: (shifts: Shift[]) => void) =>
+  subscribeLive('shifts', () => { const { start, end } = range(); return getShifts(start, end); }, onShifts);
+
+export const subscribeReconciliations = (range: () => DateRange, onReconciliations: (items: ShiftReconciliation[]) => void) =>
+  subscribeLive('reconciliations', () => { const { start, end } = range(); return getReconciliations(start, end); }, onReconciliations);
+
+// A failed fetch keeps the last report on screen rather than blanking it.
+export const subscribeReport = (range: () => DateRange, groupBy: ReportGrouping, onReport: (report: Report) => void) =>
+  subscribeLive('reports', () => getReport(range(), groupBy), (report) => { if (report) onReport(report); });
+
+export const subscribeSessionAnalysis = (range: () => DateRange, onAnalysis: (analysis: SessionAnalysis) => void) =>
+  subscribeLive('reports', () => getSessionAnalysis(range()), (analysis) => { if (analysis) onAnalysis(analysis); });
+
+export const subscribeAnomalies = (range: () => DateRange, onAnomalies: (anomalies: Anomaly[]) => void) =>
+  subscribeLive('reports', () => getAnomalies(range()), (anomalies) => { if (anomalies) onAnomalies(anomalies); });
+
+export const subscribeHouseStatus = (onStatus: (status: Record<string, boolean>) => void) =>
+  subscribeLive('house-status', getHouseStatus, onStatus, { fromPush: (s) => s });
+
+export const subscribeEvents = (onEvents: (events: SessionEvent[]) => void) =>
+  subscribeLive('events', getEvents, onEvents);
+
+export const subscribeAlertRules = (onRules: (rules: AlertRule[]) => void) =>
+  subscribeLive('alert-rules', getAlertRules, onRules, { fromPush: (rules) => rules });
+
+export const subscribeAlerts = (onAlerts: (alerts: Alert[]) => void) =>
+  subscribeLive('alerts', getAlerts, onAlerts, { fromPush: (alerts) => alerts });
+
+export const subscribeWebhooks = (onWebhooks: (webhooks: Webhook[]) => void) =>
+  subscribeLive('webhooks', getWebhooks, onWebhooks);
+
+export const subscribeWebhookDeliveries = (onDeliveries: (deliveries: WebhookDelivery[]) => void) =>
+  subscribeLive('webhook-deliveries', getWebhookDeliveries, onDeliveries);
+
+// Session state for every house; frames are delivered by the subscriptions
+// below, each for one house.
+export const subscribeVideoSessions = (onSessions: (sessions: VideoSession[]) => void, pollMs = POLL_MS) =>
+  subscribeLive('video', getVideoSessions, onSessions, { pollMs, fromPush: (s) => s });
+
+// Pushes for other houses are passed over as null rather than re-fetched.
+export const subscribeVideoFrames = (houseId: HouseId, onFrame: (frame: string) => void) =>
+  subscribeLive(
+    'video-frame',
+    async () => (await getVideoSession(houseId))?.frame ?? null,
+    (frame) => { if (frame) onFrame(frame); },
+    { pollMs: 100, fromPush: (p) => (p.houseId === houseId ? p.frame : null) }
+  );
+
+// Signals from the other end of one negotiation. Fetches return every signal
+// the server still holds, so each is handed over once by its seq.
+export const subscribeVideoSignals = (rtcId: string, from: VideoSignalRole, onSignal: (signal: VideoSignal) => void) => {
+  const seen = new Set<number>();
+  return subscribeLive(
+    'video-signal',
+    () => getVideoSignals(rtcId),
+    (signals) => signals.forEach(signal => {
+      if (signal.rtcId !== rtcId || signal.from !== from || seen.has(signal.seq)) return;
+      seen.add(signal.seq);
+      onSignal(signal);
+    }),
+    { pollMs: 1000, fromPush: (signal) => [signal] }
+  );
+};
+
+export const subscribeAudioFrames = (houseId: HouseId, onFrames: (frames: AudioFrame[]) => void) =>
+  subscribeLive(
+    'audio-frame',
+    async () => (await getVideoSession(houseId))?.audioFrames || [],
+    onFrames,
+    { pollMs: 100, fromPush: (frame) => (frame.houseId === houseId ? [frame] : []) }
+  );
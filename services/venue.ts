@@ -0,0 +1,16 @@
+import { HouseConfig, HouseId, TVConfig, VenueConfig } from '../types';
+
+const bySortOrder = <T extends { sortOrder: number }>(a: T, b: T) => a.sortOrder - b.sortOrder;
+
+export const getActiveHouses = (venue: VenueConfig): HouseConfig[] =>
+  venue.houses.filter(h => h.active).sort(bySortOrder);
+
+// Retired TVs are left out unless asked for, e.g. to label historical games.
+export const getHouseTVs = (venue: VenueConfig, houseId: HouseId, includeRetired = false): TVConfig[] =>
+  venue.tvs.filter(tv => tv.houseId === houseId && (includeRetired || tv.active)).sort(bySortOrder);
+
+export const getTVIndex = (venue: VenueConfig): Map<string, TVConfig> =>
+  new Map(venue.tvs.map(tv => [tv.id, tv]));
+
+export const getHouseName = (venue: VenueConfig, houseId: HouseId | null | undefined): string =>
+  venue.houses.find(h => h.id === houseId)?.name || houseId || '';
@@ -0,0 +1,146 @@
+import { VideoQuality, VideoSignal, VideoSignalRole } from '../types';
+import { getIceServers, sendVideoSignal, subscribeVideoSignals } from './storage';
+
+// Peer-to-peer video between the counter phone and the owner's dashboard. The
+// counter offers its camera track, the owner answers, and the server only
+// relays the offer, answer and ICE candidates. Either end falls back to the
+// frames posted through the server while the link isn't connected.
+
+export type VideoLinkState = 'connecting' | 'connected' | 'failed';
+
+export interface VideoLink {
+  setQuality: (quality: VideoQuality) => void;
+  close: () => void;
+}
+
+// Upper bitrate for each quality the owner can pick.
+const MAX_BITRATES: Record<VideoQuality, number> = { low: 150000, medium: 500000, high: 1500000 };
+
+export const isPeerVideoSupported = () => typeof RTCPeerConnection !== 'undefined';
+
+const createPeer = (iceServers: RTCIceServer[], rtcId: string, role: VideoSignalRole, onState: (state: VideoLinkState) => void) => {
+  const pc = new RTCPeerConnection({ iceServers });
+  // Candidates can arrive before the description they belong to, and ours
+  // are held back until that description has been sent.
+  const pending: RTCIceCandidateInit[] = [];
+  let outgoing: RTCIceCandidateInit[] | null = [];
+
+  const sendCandidate = (candidate: RTCIceCandidateInit) => sendVideoSignal({ rtcId, from: role, type: 'candidate', candidate });
+  pc.onicecandidate = (e) => {
+    if (!e.candidate) return;
+    if (outgoing) outgoing.push(e.candidate.toJSON());
+    else sendCandidate(e.candidate.toJSON());
+  };
+  const releaseCandidates = () => {
+    outgoing?.forEach(sendCandidate);
+    outgoing = null;
+  };
+  pc.onconnectionstatechange = () => {
+    const state = pc.connectionState;
+    onState(state === 'connected' ? 'connected' : state === 'failed' || state === 'disconnected' ? 'failed' : 'connecting');
+  };
+
+  const addCandidate = (candidate: RTCIceCandidateInit) => {
+    if (pc.remoteDescription) pc.addIceCandidate(candidate).catch(() => {});
+    else pending.push(candidate);
+  };
+  const setRemote = async (description: RTCSessionDescriptionInit) => {
+    await pc.setRemoteDescription(description);
+    pending.splice(0).forEach(candidate => pc.addIceCandidate(candidate).catch(() => {}));
+  };
+
+  return { pc, addCandidate, setRemote, releaseCandidates };
+};
+
+export const startCounterLink = async (
+  stream: MediaStream,
+  rtcId: string,
+  quality: VideoQuality,
+  onState: (state: VideoLinkState) => void,
+): Promise<VideoLink> => {
+  const { pc, addCandidate, setRemote, releaseCandidates } = createPeer(await getIceServers(), rtcId, 'counter', onState);
+  const sender = pc.addTrack(stream.getVideoTracks()[0], stream);
+  let currentQuality = quality;
+
+  const setQuality = (next: VideoQuality) => {
+    currentQuality = next;
+    const params = sender.getParameters();
+    if (!params.encodings || params.encodings.length === 0) return;
+    params.encodings[0].maxBitrate = MAX_BITRATES[next];
+    sender.setParameters(params).catch(() => {});
+  };
+
+  let offered: VideoSignal | null;
+  try {
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    offered = await sendVideoSignal({ rtcId, from: 'counter', type: 'offer', sdp: offer.sdp });
+  } catch (e) {
+    offered = null;
+  }
+  if (!offered) {
+    pc.close();
+    throw new Error('Could not send the video offer');
+  }
+
+  releaseCandidates();
+
+  // Subscribed only now, as anything the owner sent before this offer
+  // answered an earlier one.
+  const offerSeq = offered.seq;
+  const unsubscribe = subscribeVideoSignals(rtcId, 'owner', (signal: VideoSignal) => {
+    if (signal.seq < offerSeq) return;
+    if (signal.type === 'answer' && signal.sdp) {
+      setRemote({ type: 'answer', sdp: signal.sdp })
+        .then(() => setQuality(currentQuality))
+        .catch(() => onState('failed'));
+    } else if (signal.type === 'candidate' && signal.candidate) {
+      addCandidate(signal.candidate);
+    }
+  });
+
+  return {
+    setQuality,
+    close: () => {
+      unsubscribe();
+      pc.close();
+    },
+  };
+};
+
+// Answers whichever offer the counter sends for `rtcId`; a fresh offer, e.g.
+// after the counter restarted its camera, replaces the previous connection.
+export const startOwnerLink = async (
+  rtcId: string,
+  onStream: (stream: MediaStream | null) => void,
+  onState: (state: VideoLinkState) => void,
+): Promise<Pick<VideoLink, 'close'>> => {
+  const iceServers = await getIceServers();
+  let peer: ReturnType<typeof createPeer> | null = null;
+
+  const answer = async (sdp: string) => {
+    peer?.pc.close();
+    onStream(null);
+    const current = createPeer(iceServers, rtcId, 'owner', onState);
+    peer = current;
+    current.pc.ontrack = (e) => onStream(e.streams[0] ?? new MediaStream([e.track]));
+    await current.setRemote({ type: 'offer', sdp });
+    const description = await current.pc.createAnswer();
+    await current.pc.setLocalDescription(description);
+    await sendVideoSignal({ rtcId, from: 'owner', type: 'answer', sdp: description.sdp });
+    current.releaseCandidates();
+  };
+
+  const unsubscribe = subscribeVideoSignals(rtcId, 'counter', (signal: VideoSignal) => {
+    if (signal.type === 'offer' && signal.sdp) answer(signal.sdp).catch(() => onState('failed'));
+    else if (signal.type === 'candidate' && signal.candidate) peer?.addCandidate(signal.candidate);
+  });
+
+  return {
+    close: () => {
+      unsubscribe();
+      peer?.pc.close();
+      onStream(null);
+    },
+  };
+};
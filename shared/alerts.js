@@ -0,0 +1,34 @@
+// Alert rule helpers shared by the server, which evaluates the rules, and the
+// dashboard, which shows the minimum currently in force.
+
+/**
+ * @typedef {import('../types').AlertRule} AlertRule
+ * @typedef {import('../types').ThresholdStep} ThresholdStep
+ */
+
+/**
+ * Minimum in force at `hour` on the venue clock. Each step applies from its
+ * hour until the next one; before the first step of the day the last one is
+ * still running from the evening before.
+ * @param {ThresholdStep[]} schedule
+ * @param {number} hour
+ * @returns {number | null} null when the schedule is empty
+ */
+export const getScheduledMinimum = (schedule, hour) => {
+  if (schedule.length === 0) return null;
+  const steps = [...schedule].sort((a, b) => a.fromHour - b.fromHour);
+  const current = steps.filter(step => step.fromHour <= hour).pop() || steps[steps.length - 1];
+  return current.minimum;
+};
+
+/**
+ * The low-yield rule that covers `houseId`: one aimed at the house beats one
+ * covering every house.
+ * @param {AlertRule[]} rules
+ * @param {string} houseId
+ * @returns {AlertRule | null}
+ */
+export const getYieldRule = (rules, houseId) =>
+  rules.find(r => r.type === 'low_yield' && r.targetId === houseId)
+  || rules.find(r => r.type === 'low_yield' && r.targetId === null)
+  || null;
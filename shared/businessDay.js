@@ -0,0 +1,202 @@
+// Business-day arithmetic shared by the counter, the dashboard and the server.
+// A business day runs from the cutoff hour to the same hour the next day, in
+// the venue's timezone rather than whatever clock the device happens to have.
+
+/**
+ * @typedef {import('../types').VenueSettings} VenueSettings
+ */
+
+/** @type {VenueSettings} */
+export const DEFAULT_SETTINGS = {
+  businessDayStartHour: 7,
+  timeZone: 'Africa/Addis_Ababa',
+  timedGames: false,
+  openingHour: 10,
+  closingHour: 0,
+};
+
+const WEEKDAYS = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/** @type {Map<string, Intl.DateTimeFormat>} */
+const formatters = new Map();
+
+/** @param {string} timeZone */
+const formatterFor = (timeZone) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** @param {string} timeZone */
+export const isValidTimeZone = (timeZone) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock fields of `time` in `timeZone`. `month` is 1-based and
+ * `weekday` is 0 for Sunday.
+ * @param {number} time
+ * @param {string} timeZone
+ */
+export const getZonedParts = (time, timeZone) => {
+  /** @type {Record<string, string>} */
+  const parts = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(new Date(time))) parts[type] = value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[/** @type {keyof typeof WEEKDAYS} */ (parts.weekday)],
+  };
+};
+
+/**
+ * @param {number} time
+ * @param {string} timeZone
+ */
+const offsetAt = (time, timeZone) => {
+  const p = getZonedParts(time, timeZone);
+  const wholeMinute = time - (((time % 60000) + 60000) % 60000);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - wholeMinute;
+};
+
+/**
+ * The instant a wall clock in `timeZone` shows the given date and hour. Day
+ * and month may overflow (day 0, day 32) the way `Date.UTC` allows.
+ * @param {number} year
+ * @param {number} month 1-based
+ * @param {number} day
+ * @param {number} hour
+ * @param {string} timeZone
+ */
+export const zonedTime = (year, month, day, hour, timeZone) => {
+  const guess = Date.UTC(year, month - 1, day, hour);
+  // Second pass corrects for guesses that land across a DST change.
+  return guess - offsetAt(guess - offsetAt(guess, timeZone), timeZone);
+};
+
+/**
+ * Calendar date of the business day `time` falls in.
+ * @param {number} time
+ * @param {VenueSettings} settings
+ */
+export const getBusinessDate = (time, settings) => {
+  const p = getZonedParts(time, settings.timeZone);
+  const date = new Date(Date.UTC(p.year, p.month - 1, p.day - (p.hour < settings.businessDayStartHour ? 1 : 0)));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+/**
+ * @param {number} time
+ * @param {VenueSettings} settings
+ */
+export const getBusinessDayStart = (time, settings) => {
+  const { year, month, day } = getBusinessDate(time, settings);
+  return zonedTime(year, month, day, settings.businessDayStartHour, settings.timeZone);
+};
+
+/**
+ * Whether the venue is open at `time` on its own clock. Opening hours may run
+ * past midnight, e.g. 10 -> 2; the same hour twice means open around the clock.
+ * @param {number} time
+ * @param {VenueSettings} settings
+ */
+export const isOpenAt = (time, settings) => {
+  const hour = getZonedParts(time, settings.timeZone).hour;
+  const { openingHour: open, closingHour: close } = settings;
+  if (open === close) return true;
+  return open < close ? hour >= open && hour < close : hour >= open || hour < close;
+};
+
+/**
+ * When the venue last opened, at or before `time`, or null while it is
+ * closed. A venue open around the clock has always been open.
+ * @param {number} time
+ * @param {VenueSettings} settings
+ */
+export const getOpenedAt = (time, settings) => {
+  if (!isOpenAt(time, settings)) return null;
+  if (settings.openingHour === settings.closingHour) return -Infinity;
+  const d = getZonedParts(time, settings.timeZone);
+  const today = zonedTime(d.year, d.month, d.day, settings.openingHour, settings.timeZone);
+  return today <= time ? today : zonedTime(d.year, d.month, d.day - 1, settings.openingHour, settings.timeZone);
+};
+
+/**
+ * Start of the business day `days` after (or before, if negative) the one
+ * containing `time`.
+ * @param {number} time
+ * @param {number} days
+ * @param {VenueSettings} settings
+ */
+export const addBusinessDays = (time, days, settings) => {
+  const { year, month, day } = getBusinessDate(time, settings);
+  return zonedTime(year, month, day + days, settings.businessDayStartHour, settings.timeZone);
+};
+
+/**
+ * Start of the business week (Monday to Sunday) `time` falls in.
+ * @param {number} time
+ * @param {VenueSettings} settings
+ */
+export const getBusinessWeekStart = (time, settings) => {
+  const { year, month, day } = getBusinessDate(time, settings);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return zonedTime(year, month, day - ((weekday + 6) % 7), settings.businessDayStartHour, settings.timeZone);
+};
+
+/**
+ * Start of the first business day of the month `time` falls in.
+ * @param {number} time
+ * @param {VenueSettings} settings
+ */
+export const getBusinessMonthStart = (time, settings) => {
+  const { year, month } = getBusinessDate(time, settings);
+  return zonedTime(year, month, 1, settings.businessDayStartHour, settings.timeZone);
+};
+
+/**
+ * `YYYY-MM-DD` label of the business day `time` falls in.
+ * @param {number} time
+ * @param {VenueSettings} settings
+ */
+export const getBusinessDayKey = (time, settings) => {
+  const { year, month, day } = getBusinessDate(time, settings);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Start of the business day labelled `key`, or null unless `key` is a real
+ * `YYYY-MM-DD` date.
+ * @param {string} key
+ * @param {VenueSettings} settings
+ */
+export const parseBusinessDayKey = (key, settings) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return zonedTime(year, month, day, settings.businessDayStartHour, settings.timeZone);
+};
@@ -0,0 +1,49 @@
+// What each TV on the floor is doing right now, worked out from the day's
+// ledger. Shared by the owner's floor board and the server so both agree on
+// when a TV counts as idle.
+
+/**
+ * @typedef {import('../types').GameEntry} GameEntry
+ * @typedef {import('../types').TVConfig} TVConfig
+ * @typedef {import('../types').TVFloorStatus} TVFloorStatus
+ */
+
+// A TV stays busy this long after its last tap when games aren't timed,
+// roughly one match.
+export const BUSY_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Status of `tv` at `now`. A timed game still running keeps it busy however
+ * long it takes; otherwise the TV is busy while a customer session is open
+ * and its last game is within BUSY_WINDOW_MS. An R always frees the TV.
+ * @param {TVConfig} tv
+ * @param {GameEntry[]} entries The TV's entries for the day, voids removed, oldest first
+ * @param {{ now: number, finishedIds?: Set<string> }} options Ids of timed games already finished
+ * @returns {TVFloorStatus}
+ */
+export const getTVFloorStatus = (tv, entries, { now, finishedIds = new Set() }) => {
+  let lastGameAt = null;
+  let sessionGames = 0;
+  let revenue = 0;
+  let isRunning = false;
+  for (const entry of entries) {
+    revenue += entry.amount;
+    if (entry.isSeparator) {
+      sessionGames = 0;
+      isRunning = false;
+      continue;
+    }
+    lastGameAt = entry.timestamp;
+    sessionGames++;
+    isRunning = !entry.completed && !finishedIds.has(entry.id);
+  }
+
+  const isBusy = isRunning || (sessionGames > 0 && lastGameAt !== null && now - lastGameAt < BUSY_WINDOW_MS);
+  return {
+    tvId: tv.id,
+    state: tv.outOfService ? 'out_of_service' : isBusy ? 'busy' : 'idle',
+    lastGameAt,
+    sessionGames,
+    revenue,
+  };
+};
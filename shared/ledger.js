@@ -0,0 +1,5 @@
+// Ledger rules the worker app and the server must agree on.
+
+// How long after a tap the worker tile offers a one-touch undo. The server
+// auto-approves undos that arrive inside it.
+export const UNDO_WINDOW_MS = 5000;
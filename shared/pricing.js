@@ -0,0 +1,70 @@
+// Price resolution shared by the counter (at tap time) and the server. Kept as
+// plain JS so Node can import it without a build step; types come from the
+// JSDoc annotations.
+import { getZonedParts } from './businessDay.js';
+
+/**
+ * @typedef {import('../types').PriceRule} PriceRule
+ * @typedef {import('../types').TVConfig} TVConfig
+ */
+
+/**
+ * @param {PriceRule} rule
+ * @param {number} time
+ * @param {{ weekday: number, hour: number }} clock Venue wall clock at `time`
+ */
+const isInWindow = (rule, time, clock) => {
+  if (time < rule.effectiveFrom) return false;
+  if (rule.effectiveTo != null && time >= rule.effectiveTo) return false;
+  let weekday = clock.weekday;
+  if (rule.startHour != null && rule.endHour != null) {
+    const hour = clock.hour;
+    // A window like 22 -> 2 wraps past midnight; its small hours belong to the
+    // day it started on, so a Friday-night rule still applies at 01:00 Saturday.
+    const inHours = rule.startHour < rule.endHour
+      ? hour >= rule.startHour && hour < rule.endHour
+      : hour >= rule.startHour || hour < rule.endHour;
+    if (!inHours) return false;
+    if (rule.startHour > rule.endHour && hour < rule.endHour) weekday = (weekday + 6) % 7;
+  }
+  if (rule.days && rule.days.length > 0 && !rule.days.includes(weekday)) return false;
+  return true;
+};
+
+/**
+ * A TV rule beats a house rule, a rule limited to certain hours beats an
+ * all-day one, and a rule limited to certain days beats an every-day one.
+ * @param {PriceRule} rule
+ */
+const specificity = (rule) =>
+  (rule.scope === 'tv' ? 4 : 0) +
+  (rule.startHour != null && rule.endHour != null ? 2 : 0) +
+  (rule.days && rule.days.length > 0 ? 1 : 0);
+
+/**
+ * Price of one game on `tv` at `time`: the most specific matching rule, the
+ * most recently effective one on a tie, falling back to the TV's default.
+ * Day and hour windows are read on the venue's clock.
+ * @param {PriceRule[]} rules
+ * @param {TVConfig} tv
+ * @param {number} time
+ * @param {string} timeZone
+ * @returns {{ price: number, rule: PriceRule | null }}
+ */
+export const resolvePrice = (rules, tv, time, timeZone) => {
+  const clock = getZonedParts(time, timeZone);
+  /** @type {PriceRule | null} */
+  let best = null;
+  for (const rule of rules) {
+    const applies = rule.scope === 'tv' ? rule.targetId === tv.id : rule.targetId === tv.houseId;
+    if (!applies || !isInWindow(rule, time, clock)) continue;
+    if (
+      !best ||
+      specificity(rule) > specificity(best) ||
+      (specificity(rule) === specificity(best) && rule.effectiveFrom >= best.effectiveFrom)
+    ) {
+      best = rule;
+    }
+  }
+  return { price: best ? best.price : tv.pricePerGame, rule: best };
+};
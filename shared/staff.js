@@ -0,0 +1,5 @@
+// Staff rules the worker app and the server must agree on.
+
+// PBKDF2-SHA256 rounds for the PIN hash a counter queues when it clocks
+// someone in offline, so the PIN itself never sits on the device.
+export const OFFLINE_PIN_ITERATIONS = 100000;
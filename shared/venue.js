@@ -0,0 +1,23 @@
+// The built-in venue: what a fresh server starts with, and what the app shows
+// until the server's configuration (/api/venue) has been loaded once.
+
+/**
+ * @typedef {import('../types').VenueConfig} VenueConfig
+ */
+
+/** @type {VenueConfig} */
+export const DEFAULT_VENUE = {
+  houses: [
+    { id: 'house1', name: 'House 1', sortOrder: 1, active: true },
+    { id: 'house2', name: 'House 2', sortOrder: 2, active: true },
+  ],
+  tvs: [
+    { id: 'A1', name: 'TV A1', houseId: 'house1', pricePerGame: 20, sortOrder: 1, active: true },
+    { id: 'B1', name: 'TV B1', houseId: 'house1', pricePerGame: 20, sortOrder: 2, active: true },
+    { id: 'C1', name: 'TV C1', houseId: 'house1', pricePerGame: 15, sortOrder: 3, active: true },
+    { id: 'D1', name: 'TV D1', houseId: 'house1', pricePerGame: 15, sortOrder: 4, active: true },
+    { id: 'A2', name: 'TV A2', houseId: 'house2', pricePerGame: 20, sortOrder: 1, active: true },
+    { id: 'B2', name: 'TV B2', houseId: 'house2', pricePerGame: 20, sortOrder: 2, active: true },
+    { id: 'C2', name: 'TV C2', houseId: 'house2', pricePerGame: 20, sortOrder: 3, active: true },
+  ],
+};
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getBusinessDayStart, getBusinessDayKey, parseBusinessDayKey, addBusinessDays,
+  getBusinessWeekStart, getBusinessMonthStart, isOpenAt, getZonedParts,
+} from '../shared/businessDay.js';
+import { UTC_SETTINGS } from './helpers.js';
+
+const ADDIS = { ...UTC_SETTINGS, timeZone: 'Africa/Addis_Ababa' }; // UTC+3, no DST
+const BERLIN = { ...UTC_SETTINGS, timeZone: 'Europe/Berlin' };
+const at = (iso) => Date.parse(iso);
+
+test('a business day runs from the cutoff to the same hour the next day', () => {
+  assert.equal(getBusinessDayKey(at('2026-10-13T06:59:00Z'), UTC_SETTINGS), '2026-10-12');
+  assert.equal(getBusinessDayKey(at('2026-10-13T07:00:00Z'), UTC_SETTINGS), '2026-10-13');
+  assert.equal(getBusinessDayStart(at('2026-10-13T03:00:00Z'), UTC_SETTINGS), at('2026-10-12T07:00:00Z'));
+});
+
+test('the cutoff is read on the venue clock, not the device clock', () => {
+  // 06:30 in Addis Ababa is still the previous business day
+  assert.equal(getBusinessDayKey(at('2026-10-13T03:30:00Z'), ADDIS), '2026-10-12');
+  assert.equal(getBusinessDayStart(at('2026-10-13T03:30:00Z'), ADDIS), at('2026-10-12T04:00:00Z'));
+  assert.equal(getZonedParts(at('2026-10-13T03:30:00Z'), ADDIS.timeZone).hour, 6);
+});
+
+test('days keep their wall-clock cutoff across a DST change', () => {
+  // Clocks in Berlin go forward on 2026-03-29, so that day is 23 hours long
+  const saturday = at('2026-03-28T06:00:00Z'); // 07:00 CET
+  const sunday = addBusinessDays(saturday, 1, BERLIN);
+  assert.equal(sunday, at('2026-03-29T05:00:00Z')); // 07:00 CEST
+  assert.equal(addBusinessDays(sunday, -1, BERLIN), saturday);
+  assert.equal(getBusinessDayKey(sunday, BERLIN), '2026-03-29');
+});
+
+test('weeks start on Monday and months on the first business day', () => {
+  // Sunday 2026-10-18, 10:00
+  assert.equal(getBusinessWeekStart(at('2026-10-18T10:00:00Z'), UTC_SETTINGS), at('2026-10-12T07:00:00Z'));
+  // Still the last business day of September at 05:00 on 1 October
+  assert.equal(getBusinessMonthStart(at('2026-10-01T05:00:00Z'), UTC_SETTINGS), at('2026-09-01T07:00:00Z'));
+});
+
+test('parses day keys back to the start of the day and refuses bad dates', () => {
+  assert.equal(parseBusinessDayKey('2026-10-12', ADDIS), at('2026-10-12T04:00:00Z'));
+  assert.equal(parseBusinessDayKey('2026-02-30', ADDIS), null);
+  assert.equal(parseBusinessDayKey('12/10/2026', ADDIS), null);
+});
+
+test('opening hours may run past midnight', () => {
+  // Open 10:00 to 02:00
+  assert.equal(isOpenAt(at('2026-10-12T09:59:00Z'), UTC_SETTINGS), false);
+  assert.equal(isOpenAt(at('2026-10-12T23:00:00Z'), UTC_SETTINGS), true);
+  assert.equal(isOpenAt(at('2026-10-13T01:30:00Z'), UTC_SETTINGS), true);
+  assert.equal(isOpenAt(at('2026-10-13T02:00:00Z'), UTC_SETTINGS), false);
+  assert.equal(isOpenAt(at('2026-10-13T05:00:00Z'), { ...UTC_SETTINGS, openingHour: 8, closingHour: 8 }), true);
+});
@@ -0,0 +1,28 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { openStore } from '../server/store.js';
+import { DEFAULT_STATE, SCHEMA_VERSION, migrate } from '../server/migrations.js';
+
+// A real store in a fresh temporary directory. `reopen` loads the same
+// directory again, as a restart would; `remove` deletes it.
+export const openTempStore = () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'game-counter-'));
+  const open = () => openStore({ dir, defaults: DEFAULT_STATE, version: SCHEMA_VERSION, migrate });
+  const store = open();
+  store.set('epoch', 'test');
+  return { store, dir, reopen: open, remove: () => fs.rmSync(dir, { recursive: true, force: true }) };
+};
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+// Business-day settings on UTC, so expected times read straight off the ISO
+// strings in the tests.
+export const UTC_SETTINGS = {
+  businessDayStartHour: 7,
+  timeZone: 'UTC',
+  timedGames: false,
+  openingHour: 10,
+  closingHour: 2,
+};
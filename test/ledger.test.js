@@ -0,0 +1,131 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLedger, validateEntry } from '../server/ledger.js';
+import { UNDO_WINDOW_MS } from '../shared/ledger.js';
+import { openTempStore, DAY_MS } from './helpers.js';
+
+const SHIFT = { id: 'shift1', workerId: 'w1', houseId: 'house1', startedAt: 0 };
+
+let temp;
+let ledger;
+beforeEach(() => {
+  temp = openTempStore();
+  ledger = createLedger(temp.store, {
+    getHouseOf: (tvId) => (tvId === 'A1' ? 'house1' : undefined),
+    getShift: (id) => (id === SHIFT.id ? SHIFT : undefined),
+  });
+});
+afterEach(() => temp.remove());
+
+const game = (id, fields = {}) => ({ id, tvId: 'A1', timestamp: Date.now(), amount: 10, ...fields });
+
+test('re-sending an entry returns the stored copy instead of counting it again', () => {
+  const first = ledger.append([game('g1')]);
+  const again = ledger.append([game('g1', { amount: 99 })]);
+  assert.equal(first.added, 1);
+  assert.equal(again.added, 0);
+  assert.deepEqual(again.entries[0], first.entries[0]);
+  assert.equal(ledger.all().length, 1);
+});
+
+test('stamps entries with a rising seq, their house and the time they arrived', () => {
+  const { entries } = ledger.append([game('g1'), game('g2')], 1000);
+  assert.deepEqual(entries.map(e => e.seq), [1, 2]);
+  assert.equal(entries[0].houseId, 'house1');
+  assert.equal(entries[0].receivedAt, 1000);
+  assert.equal(ledger.head(), 2);
+});
+
+test('credits the worker only from a shift the server knows', () => {
+  const { entries } = ledger.append([
+    game('g1', { shiftId: 'shift1', workerId: 'someone-else' }),
+    game('g2', { shiftId: 'made-up', workerId: 'w1' }),
+  ]);
+  assert.equal(entries[0].workerId, 'w1');
+  assert.equal(entries[0].shiftId, 'shift1');
+  assert.equal(entries[1].workerId, undefined);
+  assert.equal(entries[1].shiftId, undefined);
+});
+
+test('validateEntry refuses unknown TVs and out-of-range timestamps and amounts', () => {
+  const now = Date.now();
+  const check = (entry) => validateEntry(entry, { hasTV: (id) => id === 'A1', now });
+  assert.equal(check(game('g1', { timestamp: now })), null);
+  assert.equal(check(game('g1', { tvId: 'Z9' })), 'Unknown TV');
+  assert.equal(check(game('g1', { timestamp: now - 100 * DAY_MS })), 'Timestamp out of range');
+  assert.equal(check(game('g1', { timestamp: now + DAY_MS })), 'Timestamp out of range');
+  assert.equal(check(game('g1', { amount: -1 })), 'Amount out of range');
+  assert.equal(check({ tvId: 'A1', timestamp: now, amount: 10 }), 'Entry needs an id');
+});
+
+test('an undo inside the window is approved straight away', () => {
+  ledger.append([game('g1')]);
+  const result = ledger.requestVoid({ id: 'v1', gameId: 'g1', reason: 'mistap', source: 'undo' });
+  assert.equal(result.created, true);
+  assert.equal(result.void.status, 'approved');
+  assert.equal(result.void.source, 'undo');
+});
+
+test('an undo of an entry received long ago waits for review', () => {
+  const long = Date.now() - 10 * UNDO_WINDOW_MS;
+  ledger.append([game('g1', { timestamp: Date.now() })], long);
+  const result = ledger.requestVoid({ id: 'v1', gameId: 'g1', source: 'undo' });
+  assert.equal(result.void.status, 'pending');
+  assert.equal(result.void.source, 'request');
+});
+
+test('an undo of a tap made long ago waits for review even if it only just arrived', () => {
+  ledger.append([game('g1', { timestamp: Date.now() - 10 * UNDO_WINDOW_MS })]);
+  assert.equal(ledger.requestVoid({ id: 'v1', gameId: 'g1', source: 'undo' }).void.status, 'pending');
+});
+
+test('a void request is idempotent and can be resolved once', () => {
+  ledger.append([game('g1')]);
+  ledger.requestVoid({ id: 'v1', gameId: 'g1', reason: 'wrong TV' });
+  const replay = ledger.requestVoid({ id: 'v1', gameId: 'g1', reason: 'changed' });
+  assert.equal(replay.created, false);
+  assert.equal(replay.void.reason, 'wrong TV');
+  assert.equal(ledger.voids().length, 1);
+
+  assert.equal(ledger.resolveVoid('v1', 'approved').error, undefined);
+  assert.equal(ledger.voids()[0].status, 'approved');
+  assert.equal(ledger.resolveVoid('v1', 'rejected').error, 'Void already resolved');
+  assert.equal(ledger.requestVoid({ id: 'v2', gameId: 'nope' }).error, 'Unknown game');
+});
+
+test('shift revenue leaves out approved voids', () => {
+  ledger.append([game('g1', { shiftId: 'shift1' }), game('g2', { shiftId: 'shift1', amount: 15 })]);
+  ledger.requestVoid({ id: 'v1', gameId: 'g1' });
+  assert.equal(ledger.shiftRevenue('shift1'), 25);
+  ledger.resolveVoid('v1', 'approved');
+  assert.equal(ledger.shiftRevenue('shift1'), 15);
+});
+
+test('the first finish sent for a game wins', () => {
+  const { entries } = ledger.append([game('g1', { completed: false })]);
+  const start = entries[0].timestamp;
+  assert.equal(ledger.finishGame({ gameId: 'g1', endedAt: start - 1 }).status, 400);
+  assert.equal(ledger.finishGame({ gameId: 'g1', endedAt: start + 1000 }).created, true);
+  const again = ledger.finishGame({ gameId: 'g1', endedAt: start + 5000 });
+  assert.equal(again.created, false);
+  assert.equal(again.finish.endedAt, start + 1000);
+});
+
+test('the change feed pages by seq and ends at the head', () => {
+  ledger.append([game('g1'), game('g2'), game('g3')]);
+  const first = ledger.list({ since: 0, limit: 2 });
+  assert.deepEqual(first.entries.map(e => e.id), ['g1', 'g2']);
+  assert.equal(first.hasMore, true);
+  const rest = ledger.list({ since: first.cursor, limit: 2 });
+  assert.deepEqual(rest.entries.map(e => e.id), ['g3']);
+  assert.equal(rest.hasMore, false);
+  assert.equal(rest.cursor, ledger.head());
+  assert.deepEqual(ledger.list({ since: rest.cursor }).entries, []);
+});
+
+test('keeps its index across a restart', () => {
+  ledger.append([game('g1')]);
+  const reopened = createLedger(temp.reopen(), { getHouseOf: () => undefined, getShift: () => undefined });
+  assert.equal(reopened.append([game('g1')]).added, 0);
+  assert.equal(reopened.append([game('g2')]).entries[0].seq, 2);
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolvePrice } from '../shared/pricing.js';
+
+const TV = { id: 'A1', name: 'TV A1', houseId: 'house1', pricePerGame: 10 };
+const at = (iso) => Date.parse(iso);
+
+const rule = (id, fields) => ({
+  id,
+  scope: 'house',
+  targetId: 'house1',
+  price: 5,
+  days: [],
+  effectiveFrom: 0,
+  createdAt: 0,
+  ...fields,
+});
+
+const priceAt = (rules, iso, timeZone = 'UTC') => resolvePrice(rules, TV, at(iso), timeZone).price;
+
+test("falls back to the TV's own price when no rule applies", () => {
+  assert.equal(priceAt([], '2026-10-12T12:00:00Z'), 10);
+  assert.equal(priceAt([rule('r1', { targetId: 'house2' })], '2026-10-12T12:00:00Z'), 10);
+  assert.equal(priceAt([rule('r1', { scope: 'tv', targetId: 'B1' })], '2026-10-12T12:00:00Z'), 10);
+});
+
+test('a rule only applies between its effective dates', () => {
+  const rules = [rule('r1', { effectiveFrom: at('2026-10-12T00:00:00Z'), effectiveTo: at('2026-10-13T00:00:00Z') })];
+  assert.equal(priceAt(rules, '2026-10-11T23:59:00Z'), 10);
+  assert.equal(priceAt(rules, '2026-10-12T12:00:00Z'), 5);
+  assert.equal(priceAt(rules, '2026-10-13T00:00:00Z'), 10);
+});
+
+test('the most specific rule wins, then the most recently effective', () => {
+  const house = rule('house', { price: 8 });
+  const happyHour = rule('happy', { price: 6, startHour: 14, endHour: 16 });
+  const tv = rule('tv', { scope: 'tv', targetId: 'A1', price: 12 });
+  assert.equal(priceAt([house, happyHour], '2026-10-12T15:00:00Z'), 6);
+  assert.equal(priceAt([house, happyHour], '2026-10-12T17:00:00Z'), 8);
+  assert.equal(priceAt([house, happyHour, tv], '2026-10-12T15:00:00Z'), 12);
+
+  const newer = rule('newer', { price: 9, effectiveFrom: at('2026-10-01T00:00:00Z') });
+  assert.equal(priceAt([newer, house], '2026-10-12T12:00:00Z'), 9);
+});
+
+test('day and hour windows are read on the venue clock', () => {
+  const evening = [rule('r1', { startHour: 18, endHour: 22 })];
+  // 16:00 UTC is 19:00 in Addis Ababa
+  assert.equal(priceAt(evening, '2026-10-12T16:00:00Z', 'UTC'), 10);
+  assert.equal(priceAt(evening, '2026-10-12T16:00:00Z', 'Africa/Addis_Ababa'), 5);
+});
+
+test('an overnight window belongs to the day it started on', () => {
+  // Fridays 22:00 to 02:00; 2026-10-16 is a Friday
+  const fridayNight = [rule('r1', { days: [5], startHour: 22, endHour: 2 })];
+  assert.equal(priceAt(fridayNight, '2026-10-16T23:00:00Z'), 5);
+  assert.equal(priceAt(fridayNight, '2026-10-17T01:00:00Z'), 5);
+  assert.equal(priceAt(fridayNight, '2026-10-17T02:00:00Z'), 10);
+  // Thursday night's small hours fall on Friday but aren't Friday night
+  assert.equal(priceAt(fridayNight, '2026-10-16T01:00:00Z'), 10);
+  assert.equal(priceAt(fridayNight, '2026-10-17T23:00:00Z'), 10);
+});
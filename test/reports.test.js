@@ -0,0 +1,96 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLedger } from '../server/ledger.js';
+import { createReports } from '../server/reports.js';
+import { openTempStore, UTC_SETTINGS, DAY_MS } from './helpers.js';
+
+const VENUE = {
+  houses: [{ id: 'house1', name: 'Main Hall' }, { id: 'house2', name: 'Upstairs' }],
+  tvs: [{ id: 'A1', name: 'TV A1', houseId: 'house1' }, { id: 'B1', name: 'TV B1', houseId: 'house2' }],
+};
+
+// Two business days in UTC with a 07:00 cutoff
+const DAY1 = Date.parse('2026-10-12T07:00:00Z');
+const DAY2 = DAY1 + DAY_MS;
+
+let temp;
+let venue;
+let settings;
+let ledger;
+let reports;
+beforeEach(() => {
+  temp = openTempStore();
+  venue = structuredClone(VENUE);
+  settings = { ...UTC_SETTINGS };
+  ledger = createLedger(temp.store, {
+    getHouseOf: (tvId) => venue.tvs.find(tv => tv.id === tvId)?.houseId,
+    getShift: () => undefined,
+  });
+  reports = createReports(temp.store, { ledger, getVenue: () => venue, getSettings: () => settings });
+});
+afterEach(() => temp.remove());
+
+const log = (id, tvId, timestamp, amount = 10, fields = {}) => ledger.append([{ id, tvId, timestamp, amount, ...fields }]);
+const rowsBy = (groupBy, from = DAY1, to = DAY2 + DAY_MS) => {
+  const { report } = reports.report({ from, to, groupBy });
+  return Object.fromEntries(report.rows.map(r => [r.key, { games: r.games, revenue: r.revenue }]));
+};
+
+test('totals games and revenue per house', () => {
+  log('g1', 'A1', DAY1 + 1000);
+  log('g2', 'A1', DAY1 + 2000, 15);
+  log('g3', 'B1', DAY1 + 3000);
+  assert.deepEqual(rowsBy('house'), {
+    house1: { games: 2, revenue: 25 },
+    house2: { games: 1, revenue: 10 },
+  });
+  assert.deepEqual(reports.report({ from: DAY1, to: DAY2, groupBy: 'house' }).report.totals.games, 3);
+});
+
+test('counts a game before the cutoff on the previous business day', () => {
+  log('g1', 'A1', DAY2 - 1000); // 06:59 on the 13th
+  log('g2', 'A1', DAY2 + 1000);
+  assert.deepEqual(rowsBy('day'), {
+    '2026-10-12': { games: 1, revenue: 10 },
+    '2026-10-13': { games: 1, revenue: 10 },
+  });
+});
+
+test('takes an approved void back out of totals already reported', () => {
+  log('g1', 'A1', DAY1 + 1000);
+  log('g2', 'A1', DAY1 + 2000);
+  assert.equal(rowsBy('house').house1.games, 2);
+  ledger.requestVoid({ id: 'v1', gameId: 'g1' });
+  assert.equal(rowsBy('house').house1.games, 2);
+  ledger.resolveVoid('v1', 'approved');
+  assert.deepEqual(rowsBy('house').house1, { games: 1, revenue: 10 });
+});
+
+test('keeps a game under the house it was logged in after its TV moves', () => {
+  log('g1', 'A1', DAY1 + 1000);
+  venue.tvs[0].houseId = 'house2';
+  log('g2', 'A1', DAY1 + 2000);
+  assert.deepEqual(rowsBy('house'), {
+    house1: { games: 1, revenue: 10 },
+    house2: { games: 1, revenue: 10 },
+  });
+});
+
+test('counts separators as sessions rather than games', () => {
+  log('g1', 'A1', DAY1 + 1000);
+  log('r1', 'A1', DAY1 + 2000, 0, { isSeparator: true });
+  const { report } = reports.report({ from: DAY1, to: DAY2, groupBy: 'tv' });
+  assert.deepEqual(report.totals, { games: 1, revenue: 10, sessions: 1, timedGames: 0, playMs: 0 });
+});
+
+test('rebuilds when the business-day cutoff changes', () => {
+  log('g1', 'A1', DAY2 - 1000); // 06:59
+  assert.deepEqual(Object.keys(rowsBy('day')), ['2026-10-12']);
+  settings = { ...settings, businessDayStartHour: 6 };
+  assert.deepEqual(Object.keys(rowsBy('day')), ['2026-10-13']);
+});
+
+test('refuses unknown groupings and empty ranges', () => {
+  assert.equal(reports.report({ from: DAY1, to: DAY2, groupBy: 'colour' }).status, 400);
+  assert.equal(reports.report({ from: DAY2, to: DAY1, groupBy: 'house' }).status, 400);
+});
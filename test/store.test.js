@@ -0,0 +1,30 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { openTempStore } from './helpers.js';
+
+let temp;
+afterEach(() => temp?.remove());
+
+test('changes survive a restart through the journal', () => {
+  temp = openTempStore();
+  temp.store.append('games', [{ id: 'a' }]);
+  temp.store.update('games', 'a', { amount: 10 });
+  assert.deepEqual(temp.reopen().get('games'), [{ id: 'a', amount: 10 }]);
+});
+
+test('a journal left behind by a crash during compaction is not replayed twice', () => {
+  temp = openTempStore();
+  temp.store.append('games', [{ id: 'a' }, { id: 'b' }]);
+  const journalPath = path.join(temp.dir, 'journal.ndjson');
+  const journal = fs.readFileSync(journalPath, 'utf8');
+  temp.store.compact();
+  // As if the process died after writing the snapshot but before emptying the journal
+  fs.writeFileSync(journalPath, journal);
+
+  const reopened = temp.reopen();
+  assert.deepEqual(reopened.get('games').map(g => g.id), ['a', 'b']);
+  reopened.append('games', [{ id: 'c' }]);
+  assert.deepEqual(temp.reopen().get('games').map(g => g.id), ['a', 'b', 'c']);
+});
@@ -1,11 +1,207 @@
-export type HouseId = 'house1' | 'house2';
+// House ids come from the venue configuration managed on the server.
+export type HouseId = string;
 export type VideoQuality = 'low' | 'medium' | 'high';
 
+export interface HouseConfig {
+  id: HouseId;
+  name: string;
+  sortOrder: number;
+  active: boolean;
+}
+
 export interface TVConfig {
   id: string;
   name: string;
   houseId: HouseId;
   pricePerGame: number;
+  sortOrder: number;
+  active: boolean; // Retired TVs stay configured so past games still resolve
+  outOfService?: boolean; // Temporarily unusable, e.g. a broken console; still on the floor
+}
+
+export type TVState = 'busy' | 'idle' | 'out_of_service';
+
+export interface TVFloorStatus {
+  tvId: string;
+  state: TVState;
+  lastGameAt: number | null; // Last game today, if any
+  sessionGames: number; // Games since the last R
+  revenue: number; // Today, voids removed
+}
+
+export interface VenueConfig {
+  houses: HouseConfig[];
+  tvs: TVConfig[];
+}
+
+// Venue-wide settings managed on the server; see shared/businessDay.js.
+export interface VenueSettings {
+  businessDayStartHour: number; // 0-23, in the venue's timezone
+  timeZone: string; // IANA name, e.g. Africa/Addis_Ababa
+  timedGames: boolean; // Counters start and finish each game instead of just tapping it
+  openingHour: number; // 0-23, venue clock
+  closingHour: number; // 0-23; earlier than openingHour when the venue closes after midnight
+}
+
+export type AlertRuleType = 'low_yield' | 'tv_idle' | 'counter_offline';
+
+// A minimum that applies from `fromHour` (venue clock) until the next step.
+export interface ThresholdStep {
+  fromHour: number;
+  minimum: number;
+}
+
+// `low_yield` targets a house and compares its games in the last hour with
+// the minimum its schedule sets for the time of day; `tv_idle` targets a TV
+// and only counts while its house's counter is online; `counter_offline`
+// targets a house. Low-yield and counter-offline rules only count during
+// opening hours.
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  targetId: string | null; // null applies the rule to every TV or house
+  minutes?: number; // tv_idle and counter_offline
+  schedule?: ThresholdStep[]; // low_yield
+  cooldownMinutes: number; // A target raises at most once in this long
+  createdAt: number;
+}
+
+export type AlertStatus = 'active' | 'acknowledged' | 'snoozed' | 'cleared';
+
+// One raised alert, kept until its condition clears. Acknowledging silences
+// it for good; snoozing silences it until `snoozedUntil`, when it is raised
+// again if the condition still holds.
+export interface Alert {
+  id: string;
+  ruleId: string;
+  type: AlertRuleType;
+  key: string; // Rule and target; one open alert per key
+  houseId: HouseId;
+  tvId?: string;
+  detail: string;
+  raisedAt: number;
+  status: AlertStatus;
+  acknowledgedBy?: string;
+  acknowledgedAt?: number;
+  snoozedUntil?: number;
+  clearedAt?: number;
+}
+
+// Half-open: `start` is included, `end` is not.
+export interface DateRange {
+  start: number;
+  end: number;
+}
+
+export type ReportGrouping = 'house' | 'tv' | 'worker' | 'hour' | 'day' | 'week' | 'month';
+
+export interface ReportTotals {
+  games: number;
+  revenue: number;
+  sessions: number; // Customer sessions closed with R
+  timedGames: number; // Games started and finished in timed mode
+  playMs: number; // Summed length of those games
+}
+
+export interface ReportRow extends ReportTotals {
+  key: string; // House, TV or worker id; hour 0-23; YYYY-MM-DD day or week start; YYYY-MM month
+  label: string;
+  subKey?: string; // Set when the report was split by `thenBy`
+  subLabel?: string;
+}
+
+export interface Report {
+  groupBy: ReportGrouping;
+  thenBy?: ReportGrouping;
+  from: number;
+  to: number;
+  firstDay: string; // Business days covered, inclusive
+  lastDay: string;
+  rows: ReportRow[];
+  totals: ReportTotals;
+}
+
+export interface SessionStats {
+  sessions: number; // Closed by R
+  openSessions: number; // Games not yet closed by R
+  avgGames: number;
+  avgRevenue: number;
+  avgDurationMs: number; // First game to the closing R
+  lengths: number[]; // Session counts per SessionAnalysis.lengthBuckets
+  durations: number[]; // Session counts per SessionAnalysis.durationBuckets
+}
+
+export interface SessionAnalysis {
+  from: number;
+  to: number;
+  lengthBuckets: string[]; // Games per session, e.g. '4-5'
+  durationBuckets: string[];
+  totals: SessionStats;
+  houses: (SessionStats & { key: string; label: string })[];
+  tvs: (SessionStats & { key: string; label: string })[];
+  prices: (SessionStats & { key: string; label: string })[]; // By the price the session started on
+}
+
+export type AnomalyType = 'fast_games' | 'camera_gap' | 'shift_end_burst' | 'weekday_deviation';
+
+// A pattern in the ledger worth a second look, with the entries behind it.
+export interface Anomaly {
+  id: string;
+  type: AnomalyType;
+  houseId: HouseId;
+  tvId?: string;
+  workerId?: string;
+  workerName?: string;
+  from: number;
+  to: number;
+  detail: string;
+  entries: GameEntry[];
+}
+
+// Snapshot of one business day, archived by the server when generated.
+export interface ZReport {
+  id: string;
+  day: string; // YYYY-MM-DD business day
+  from: number;
+  to: number;
+  generatedAt: number;
+  generatedBy: string;
+  partial: boolean; // Generated before the day ended
+  totals: ReportTotals;
+  houses: (Pick<ReportTotals, 'games' | 'revenue' | 'sessions'> & { houseId: string; name: string })[];
+  tvs: (Pick<ReportTotals, 'games' | 'revenue' | 'sessions'> & { tvId: string; name: string; houseName: string })[];
+  busiestHour: { hour: number; games: number } | null;
+  yieldAlerts: { houseName: string; timestamp: number }[];
+  videoSessions: { houseName: string; timestamp: number; duration: number }[];
+  reconciliations: { workerName: string; houseName: string; expected: number; counted: number; difference: number; note?: string }[];
+}
+
+export type ZReportSummary = Pick<ZReport, 'day' | 'generatedAt' | 'generatedBy' | 'partial' | 'totals'>;
+
+export type ExportFormat = 'csv' | 'xlsx';
+// Raw games, per-house totals for each business day, and totals per TV
+export type ExportTable = 'games' | 'daily' | 'tvs';
+
+// A scheduled price. The most specific rule in force at tap time wins; see
+// shared/pricing.js.
+export interface PriceRule {
+  id: string;
+  scope: 'tv' | 'house';
+  targetId: string; // TV id or house id, depending on scope
+  price: number;
+  days: number[]; // 0 = Sunday; empty means every day
+  startHour?: number; // Hour window [startHour, endHour); may wrap past midnight
+  endHour?: number;
+  effectiveFrom: number;
+  effectiveTo?: number; // Set when the rule is ended
+  createdAt: number;
+}
+
+// When a timed game ended. Kept apart from the entry, which never changes
+// once stored, and sent once the attendant taps Finish.
+export interface GameFinish {
+  gameId: string;
+  endedAt: number;
 }
 
 export interface GameEntry {
@@ -15,35 +211,167 @@ export interface GameEntry {
   completed: boolean;
   amount: number;
   isSeparator?: boolean;
+  seq?: number; // Assigned by the server when the entry is first stored
+  houseId?: HouseId; // Where its TV was when the server stored it
+  receivedAt?: number; // Server time the entry was first stored
+  workerId?: string; // Attendant clocked in when the entry was recorded
+  shiftId?: string;
+}
+
+export type VoidStatus = 'pending' | 'approved' | 'rejected';
+
+export interface GameVoid {
+  id: string;
+  gameId: string;
+  reason: string;
+  source: 'undo' | 'request';
+  status: VoidStatus;
+  requestedAt: number;
+  resolvedAt?: number;
+}
+
+export interface SyncState {
+  pending: number;      // Queued mutations not yet accepted by the server
+  pendingGames: number; // Of which are game/separator entries
+  lastSyncAt: number | null;
+  lastError: string | null;
+  nextRetryAt: number | null;
+  dropped: number;      // Changes the server refused and the device discarded, not yet seen by the worker
 }
 
 export interface SessionEvent {
   id: string;
-  type: 'video_request' | 'yield_alert' | 'counter_online' | 'video_session_ended';
+  type: 'video_request' | 'yield_alert' | 'counter_online' | 'video_session_ended' | 'price_change' | 'tv_idle' | 'counter_offline';
   houseId: HouseId;
+  tvId?: string;
+  alertId?: string; // Set on events raised by an alert rule
   timestamp: number;
   duration?: number;
+  detail?: string;
+}
+
+export type WebhookEventType = 'game_logged' | 'game_voided' | 'game_finished' | SessionEvent['type'];
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string; // Signs every delivery; see the README for checking it
+  active: boolean;
+  createdAt: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One event sent, or being sent, to one webhook.
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: WebhookEventType | 'ping';
+  body: string; // Exactly what was signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt?: number;
+  nextAttemptAt: number | null; // While pending
+  deliveredAt?: number;
+  responseStatus?: number | null;
+  error?: string | null;
 }
 
 export interface AudioFrame {
   id: number;
+  houseId: HouseId;
   data: string;
 }
 
+// One dashboard tab watching and/or listening to a house.
+export interface VideoViewer {
+  id: string;
+  name: string;
+  rtcId: string | null; // Its peer connection with the counter, while watching
+  watching: boolean;
+  listening: boolean;
+  joinedAt: number;
+}
+
+// Each house has its own session, shared by everyone viewing that house.
 export interface VideoSession {
-  houseId: HouseId | null;
+  houseId: HouseId;
   status: 'idle' | 'requested' | 'active';
-  audioStatus?: 'idle' | 'active';
-  audioFrame?: string;
-  audioFrames?: AudioFrame[];
-  frame?: string;
-  quality?: VideoQuality;
+  audioStatus: 'idle' | 'active';
+  quality: VideoQuality;
   lastRequestTime?: number;
-  lastRequestedHouseId?: HouseId | null;
   lastOnlineSignalTime?: number;
+  startedAt?: number | null;
+  viewers: VideoViewer[];
+  frame?: string | null; // Only when fetched for one house
+  audioFrames?: AudioFrame[];
+}
+
+export type VideoSignalRole = 'counter' | 'owner';
+
+// Relayed by the server between the two ends of a video session.
+export interface VideoSignal {
+  seq: number;
+  rtcId: string;
+  from: VideoSignalRole;
+  type: 'offer' | 'answer' | 'candidate';
+  sdp?: string;
+  candidate?: RTCIceCandidateInit;
+}
+
+export type UserRole = 'owner' | 'manager' | 'counter';
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  name: string;
+  role: UserRole;
+  active: boolean;
+  createdAt: number;
+}
+
+export interface AuthSession {
+  token: string;
+  user: UserAccount;
+  expiresAt: number;
 }
 
-export interface HouseThresholds {
-  house1: number;
-  house2: number;
-}
\ No newline at end of file
+// An attendant. Workers clock in on a counter device with a PIN; they are not
+// API accounts.
+export interface Worker {
+  id: string;
+  name: string;
+  active: boolean;
+  createdAt: number;
+  pinSalt?: string; // For hashing the PIN of an offline clock-in; absent until the worker's PIN is set or used online
+}
+
+export interface Shift {
+  id: string;
+  workerId: string;
+  workerName: string;
+  houseId: HouseId;
+  startedAt: number;
+  endedAt?: number;
+  deviceId?: string; // Counter account it was opened on
+  provisional?: boolean; // Opened on a counter that couldn't reach the server; its PIN isn't checked yet
+}
+
+// What an attendant handed over at the end of a shift, against the ledger.
+export interface ShiftReconciliation {
+  id: string;
+  shiftId: string;
+  workerId: string;
+  workerName: string;
+  houseId: HouseId;
+  startedAt: number;
+  endedAt: number;
+  expected: number;
+  cash: number;
+  mobileMoney: number;
+  difference: number; // Counted minus expected; negative is a shortage
+  note?: string;
+}
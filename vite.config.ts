@@ -9,7 +9,6 @@ export default defineConfig(({ mode }) => {
   return {
     define: {
       'process.env': {
-        ADMIN_PASSWORD: env.ADMIN_PASSWORD || 'admin123',
         API_KEY: env.API_KEY,
       }
     },